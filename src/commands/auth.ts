@@ -3,12 +3,29 @@ import chalk from 'chalk';
 import ora from 'ora';
 import {
   checkZohoConnection,
+  hasCredentials,
   generateConnectLink,
   disconnectZoho,
   getPdauthUserId,
 } from '../lib/auth.js';
-import { getConfig, setConfig, clearConfig, getConfigPath, isConfigured } from '../lib/config.js';
-import { success, error, info, warn } from '../lib/output.js';
+import { getTransportName, getAccounts } from '../lib/client.js';
+import { TRANSPORTS, type TransportName } from '../lib/transport.js';
+import { authorize, revokeTokens, getAccountsServer, getRegionFromAccountsServer, DEFAULT_CALLBACK_PORT } from '../lib/oauth.js';
+import {
+  getConfig,
+  setConfig,
+  clearConfig,
+  getConfigPath,
+  getTokens,
+  setTokens,
+  clearTokens,
+  getActiveProfile,
+  setActiveProfile,
+  listProfiles,
+  profileExists,
+} from '../lib/config.js';
+import { formatAccounts, success, error, info, warn, reportError } from '../lib/output.js';
+import { FIELDS_OPTION, FORMAT_OPTION, parseFormat } from '../lib/format.js';
 
 export function registerAuthCommands(program: Command): void {
   const auth = program
@@ -17,10 +34,19 @@ export function registerAuthCommands(program: Command): void {
 
   auth
     .command('login')
-    .description('Authenticate with Zoho Mail via Pipedream OAuth')
+    .description('Authenticate with Zoho Mail via Pipedream OAuth, or natively with --native')
     .option('--user <userId>', 'Pipedream user ID (default: telegram:5439689035)')
     .option('--region <region>', 'Zoho region (zoho.com, zoho.eu, zoho.in, zoho.com.au, zoho.jp)')
+    .option('--native', 'Log in directly with Zoho OAuth (no Pipedream)')
+    .option('--client-id <id>', 'Zoho API client ID (default: $ZOHO_CLIENT_ID)')
+    .option('--client-secret <secret>', 'Zoho API client secret (default: $ZOHO_CLIENT_SECRET)')
+    .option('--port <port>', 'Loopback port for the OAuth redirect', String(DEFAULT_CALLBACK_PORT))
     .action(async (options) => {
+      if (options.native) {
+        await nativeLogin(options);
+        return;
+      }
+
       const spinner = ora('Checking existing connection...').start();
 
       // Set user ID if provided
@@ -31,7 +57,7 @@ export function registerAuthCommands(program: Command): void {
       }
 
       // Check if already connected
-      const existing = checkZohoConnection();
+      const existing = await checkZohoConnection();
       if (existing) {
         spinner.succeed('Already connected to Zoho Mail');
         console.log(`  ${chalk.gray('Account:')} ${existing.name}`);
@@ -46,7 +72,7 @@ export function registerAuthCommands(program: Command): void {
       }
 
       spinner.text = 'Generating OAuth link...';
-      const link = generateConnectLink();
+      const link = await generateConnectLink();
       
       if (!link) {
         spinner.fail('Failed to generate OAuth link');
@@ -74,15 +100,22 @@ export function registerAuthCommands(program: Command): void {
     .description('Check authentication status')
     .option('--json', 'Output as JSON')
     .action(async (options) => {
-      const connection = checkZohoConnection();
       const config = getConfig();
+      const transport = getTransportName();
+      const tokens = getTokens();
+      const connection = transport === 'pdauth' ? await checkZohoConnection() : null;
+      const connected = transport === 'pdauth' ? !!connection : !!(tokens || process.env.ZOHO_ACCESS_TOKEN);
 
       if (options.json) {
         console.log(JSON.stringify({
-          connected: !!connection,
+          profile: getActiveProfile(),
+          connected,
           account: connection?.name || null,
+          tokenExpiresAt: tokens ? new Date(tokens.expiresAt).toISOString() : null,
+          scopes: tokens?.scopes || null,
           userId: config.userId,
           region: config.region,
+          transport,
           accountId: config.accountId,
           configPath: getConfigPath(),
         }, null, 2));
@@ -97,6 +130,13 @@ export function registerAuthCommands(program: Command): void {
         console.log(`${chalk.green('●')} Connected`);
         console.log(`  ${chalk.gray('Account:')} ${connection.name}`);
         console.log(`  ${chalk.gray('Healthy:')} ${connection.healthy ? chalk.green('Yes') : chalk.red('No')}`);
+      } else if (tokens) {
+        const expired = tokens.expiresAt <= Date.now();
+        console.log(`${chalk.green('●')} Connected (native OAuth)`);
+        console.log(`  ${chalk.gray('Token expires:')} ${new Date(tokens.expiresAt).toLocaleString()}${expired ? chalk.yellow(' (expired, refreshes on next call)') : ''}`);
+        console.log(`  ${chalk.gray('Scopes:')} ${tokens.scopes.join(', ')}`);
+      } else if (connected) {
+        console.log(`${chalk.green('●')} Connected (ZOHO_ACCESS_TOKEN)`);
       } else {
         console.log(`${chalk.red('●')} Not connected`);
         console.log(`  Run ${chalk.cyan('zoho-mail auth login')} to connect`);
@@ -104,8 +144,10 @@ export function registerAuthCommands(program: Command): void {
 
       console.log();
       console.log(chalk.gray('Configuration:'));
+      console.log(`  ${chalk.gray('Profile:')} ${getActiveProfile()}`);
       console.log(`  ${chalk.gray('User ID:')} ${config.userId || '(not set)'}`);
       console.log(`  ${chalk.gray('Region:')} ${config.region || 'zoho.com'}`);
+      console.log(`  ${chalk.gray('Transport:')} ${transport}`);
       console.log(`  ${chalk.gray('Account ID:')} ${config.accountId || '(not set)'}`);
       console.log(`  ${chalk.gray('Config Path:')} ${getConfigPath()}`);
       console.log();
@@ -116,7 +158,31 @@ export function registerAuthCommands(program: Command): void {
     .description('Disconnect from Zoho Mail')
     .option('--force', 'Skip confirmation')
     .action(async (options) => {
-      const connection = checkZohoConnection();
+      const tokens = getTokens();
+      if (tokens) {
+        if (!options.force) {
+          console.log(chalk.yellow('This will revoke your Zoho OAuth tokens and remove them from this machine.'));
+          console.log();
+          console.log('Run with --force to confirm.');
+          return;
+        }
+
+        const spinner = ora('Revoking tokens...').start();
+        try {
+          await revokeTokens(tokens);
+          spinner.succeed('Tokens revoked');
+        } catch (err) {
+          // The local copy is removed regardless so a dead token can't linger
+          spinner.warn('Could not revoke tokens with Zoho');
+          const message = err instanceof Error ? err.message : String(err);
+          warn(message);
+        }
+        clearTokens();
+        success('Logged out of Zoho Mail');
+        return;
+      }
+
+      const connection = await checkZohoConnection();
       
       if (!connection) {
         warn('Not currently connected to Zoho Mail');
@@ -132,7 +198,7 @@ export function registerAuthCommands(program: Command): void {
       }
 
       const spinner = ora('Disconnecting...').start();
-      const result = disconnectZoho();
+      const result = await disconnectZoho();
       
       if (result) {
         clearConfig();
@@ -143,6 +209,81 @@ export function registerAuthCommands(program: Command): void {
       }
     });
 
+  auth
+    .command('accounts')
+    .description('List all mail accounts available to this login')
+    .option('--json', 'Output as JSON')
+    .option('--format <format>', FORMAT_OPTION)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (options) => {
+      if (!(await hasCredentials(getTransportName()))) {
+        error('Not connected to Zoho Mail');
+        console.log(`  Run ${chalk.cyan('zoho-mail auth login')} to connect`);
+        process.exit(1);
+      }
+
+      const spinner = ora('Fetching accounts...').start();
+
+      try {
+        const format = parseFormat(options);
+        const accounts = await getAccounts();
+        spinner.stop();
+        console.log(formatAccounts(accounts, format));
+
+        if (format.format === 'table') {
+          const current = getConfig().accountId;
+          console.log();
+          console.log(chalk.gray(current
+            ? `Profile "${getActiveProfile()}" uses account ${current}`
+            : `Run ${'`zoho-mail auth set-account <accountId>`'} to pick one`));
+        }
+      } catch (err) {
+        spinner.fail('Failed to fetch accounts');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  auth
+    .command('profiles')
+    .description('List configured profiles')
+    .option('--json', 'Output as JSON')
+    .action((options) => {
+      const profiles = listProfiles();
+      const active = getActiveProfile();
+
+      if (options.json) {
+        console.log(JSON.stringify({ active, profiles }, null, 2));
+        return;
+      }
+
+      const names = Object.keys(profiles);
+      if (names.length === 0) {
+        console.log(chalk.gray('No profiles yet. Run `zoho-mail auth login --profile <name>` to create one.'));
+        return;
+      }
+
+      for (const name of names) {
+        const profile = profiles[name];
+        const marker = name === active ? chalk.green('●') : ' ';
+        console.log(`${marker} ${chalk.bold(name)}  ${chalk.gray(`${profile.region} · ${profile.transport || 'pdauth'} · account ${profile.accountId || '(auto)'}`)}`);
+      }
+    });
+
+  auth
+    .command('use')
+    .description('Switch the default profile')
+    .argument('<profile>', 'Profile name')
+    .action((profile) => {
+      if (!profileExists(profile)) {
+        error(`Unknown profile "${profile}"`);
+        console.log(`  Create it with ${chalk.cyan(`zoho-mail auth login --profile ${profile}`)}`);
+        process.exit(1);
+      }
+      setActiveProfile(profile);
+      success(`Now using profile: ${profile}`);
+    });
+
   auth
     .command('set-region')
     .description('Set Zoho region')
@@ -165,4 +306,68 @@ export function registerAuthCommands(program: Command): void {
       setConfig({ accountId });
       success(`Account ID set to: ${accountId}`);
     });
+
+  auth
+    .command('set-transport')
+    .description('Set how API calls are made')
+    .argument('<transport>', 'Transport (http: direct HTTPS, pdauth: Pipedream proxy)')
+    .action((transport) => {
+      if (!TRANSPORTS.includes(transport)) {
+        error(`Invalid transport. Valid options: ${TRANSPORTS.join(', ')}`);
+        process.exit(1);
+      }
+      setConfig({ transport: transport as TransportName });
+      success(`Transport set to: ${transport}`);
+    });
+}
+
+async function nativeLogin(options: {
+  region?: string;
+  clientId?: string;
+  clientSecret?: string;
+  port: string;
+}): Promise<void> {
+  const clientId = options.clientId || process.env.ZOHO_CLIENT_ID;
+  const clientSecret = options.clientSecret || process.env.ZOHO_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    error('--client-id and --client-secret are required for native login');
+    console.log(`  Register a "Server-based Application" at ${chalk.cyan('https://api-console.zoho.com')}`);
+    console.log(`  with redirect URI ${chalk.cyan(`http://127.0.0.1:${options.port}/callback`)}`);
+    process.exit(1);
+  }
+
+  const region = options.region || getConfig().region || 'zoho.com';
+  const spinner = ora('Waiting for authorization in the browser...');
+
+  try {
+    const tokens = await authorize({
+      clientId,
+      clientSecret,
+      region,
+      port: parseInt(options.port, 10),
+      onAuthorizeUrl: (url) => {
+        console.log();
+        console.log(chalk.bold('🔗 Open this link to authorize Zoho Mail:'));
+        console.log();
+        console.log(`  ${chalk.cyan(url)}`);
+        console.log();
+        spinner.start();
+      },
+    });
+
+    setTokens(getActiveProfile(), tokens);
+    // A redirect to another data center moves the region with it
+    const redirected = tokens.accountsServer !== getAccountsServer(region);
+    setConfig({
+      region: redirected ? getRegionFromAccountsServer(tokens.accountsServer) : region,
+      transport: 'http',
+    });
+    spinner.succeed('Logged in to Zoho Mail');
+    console.log(`  ${chalk.gray('Region:')} ${getConfig().region}`);
+    console.log(`  ${chalk.gray('Scopes:')} ${tokens.scopes.join(', ')}`);
+  } catch (err) {
+    spinner.fail('Login failed');
+    reportError(err);
+    process.exit(1);
+  }
 }
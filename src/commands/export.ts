@@ -0,0 +1,78 @@
+import { Command } from 'commander';
+import ora from 'ora';
+import { mkdir } from 'fs/promises';
+import { resolve } from 'path';
+import { ensureAccountId, requireAuth } from '../lib/account.js';
+import { findFolder, refreshFolders } from '../lib/folders.js';
+import {
+  exportFolder,
+  loadManifest,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportResult,
+} from '../lib/export.js';
+import { formatExportResults, checkExportFormat, error, reportError } from '../lib/output.js';
+import { FIELDS_OPTION, FORMAT_HELP, isHumanFormat, parseFormat } from '../lib/format.js';
+
+export function registerExportCommands(program: Command): void {
+  program
+    .command('export')
+    .description('Back up mail to mbox or Maildir; re-run to resume an interrupted export')
+    .requiredOption('--out <path>', 'Directory to write the export to')
+    .option('--folder <folder|all>', 'Folder to export, or "all" for the whole mailbox', 'all')
+    .option('--format <format>', 'mbox or maildir', 'mbox')
+    .option('--json', 'Output as JSON')
+    .option('--report-format <format>', `Format of the summary: ${FORMAT_HELP}`)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (options) => {
+      if (!EXPORT_FORMATS.includes(options.format)) {
+        error(`Unknown format "${options.format}" (expected ${EXPORT_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Fetching folders...').start();
+
+      try {
+        // --format is the mailbox format here, so the summary has its own option
+        const report = parseFormat({ format: options.reportFormat, fields: options.fields, json: options.json });
+        checkExportFormat(report);
+        const out = resolve(options.out);
+        await mkdir(out, { recursive: true });
+        const manifest = await loadManifest(out, accountId, options.format as ExportFormat);
+
+        const folders = await refreshFolders(accountId);
+        const targets = options.folder === 'all' ? folders : [findFolder(folders, options.folder)];
+
+        const results: ExportResult[] = [];
+        for (const folder of targets) {
+          const name = folder.path || folder.folderName;
+          spinner.text = `Exporting ${name}...`;
+          results.push(await exportFolder(accountId, folder, out, manifest, {
+            onProgress: (done, total) => {
+              spinner.text = `Exporting ${name}... ${done}/${total}`;
+            },
+          }));
+        }
+
+        const exported = results.reduce((sum, r) => sum + r.exported, 0);
+        const skipped = results.reduce((sum, r) => sum + r.skipped, 0);
+        if (!isHumanFormat(report)) {
+          spinner.stop();
+          console.log(formatExportResults(results, report));
+        } else {
+          spinner.succeed(
+            `Exported ${exported} message(s) from ${results.length} folder(s)` +
+            (skipped ? `, ${skipped} already done` : '')
+          );
+          console.log(formatExportResults(results, report));
+        }
+      } catch (err) {
+        spinner.fail('Export failed');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+}
@@ -1,37 +1,12 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { getConfig, setConfig } from '../lib/config.js';
-import { checkZohoConnection } from '../lib/auth.js';
-import { getFolders, createFolder, deleteFolder, renameFolder, getAccountId } from '../lib/client.js';
-import { formatFolders, success, error, warn } from '../lib/output.js';
-
-function requireAuth(): void {
-  const connection = checkZohoConnection();
-  if (!connection) {
-    error('Not connected to Zoho Mail');
-    console.log(`  Run ${chalk.cyan('zoho-mail auth login')} to connect`);
-    process.exit(1);
-  }
-}
-
-async function ensureAccountId(): Promise<string> {
-  const config = getConfig();
-  if (config.accountId) {
-    return config.accountId;
-  }
-
-  // Auto-detect account ID
-  try {
-    const accountId = await getAccountId();
-    setConfig({ accountId });
-    return accountId;
-  } catch (err) {
-    error('Could not detect account ID');
-    console.log(`  Run ${chalk.cyan('zoho-mail auth set-account <accountId>')} to set it manually`);
-    process.exit(1);
-  }
-}
+import { ensureAccountId, requireAuth } from '../lib/account.js';
+import { createFolder, deleteFolder, renameFolder } from '../lib/client.js';
+import { refreshFolders, resolveFolder, resolveFolderId } from '../lib/folders.js';
+import { formatFolders, success, error, warn, reportError } from '../lib/output.js';
+import { FIELDS_OPTION, FORMAT_OPTION, parseFormat } from '../lib/format.js';
+import type { ZohoFolder } from '../types/zoho.js';
 
 export function registerFoldersCommands(program: Command): void {
   const folders = program
@@ -42,20 +17,22 @@ export function registerFoldersCommands(program: Command): void {
     .command('list')
     .description('List all folders')
     .option('--json', 'Output as JSON')
+    .option('--format <format>', FORMAT_OPTION)
+    .option('--fields <fields>', FIELDS_OPTION)
     .action(async (options) => {
-      requireAuth();
+      await requireAuth();
       const accountId = await ensureAccountId();
 
       const spinner = ora('Fetching folders...').start();
 
       try {
-        const folderList = await getFolders(accountId);
+        const format = parseFormat(options);
+        const folderList = await refreshFolders(accountId);
         spinner.stop();
-        console.log(formatFolders(folderList, options.json));
+        console.log(formatFolders(folderList, format));
       } catch (err) {
         spinner.fail('Failed to fetch folders');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
     });
@@ -64,16 +41,18 @@ export function registerFoldersCommands(program: Command): void {
     .command('create')
     .description('Create a new folder')
     .argument('<name>', 'Folder name')
-    .option('--parent <folderId>', 'Parent folder ID (for subfolders)')
+    .option('--parent <folder>', 'Parent folder ID, name or path (for subfolders)')
     .option('--json', 'Output as JSON')
     .action(async (name, options) => {
-      requireAuth();
+      await requireAuth();
       const accountId = await ensureAccountId();
 
       const spinner = ora(`Creating folder "${name}"...`).start();
 
       try {
-        const folder = await createFolder(accountId, name, options.parent);
+        const parentId = options.parent ? await resolveFolderId(accountId, options.parent) : undefined;
+        const folder = await createFolder(accountId, name, parentId);
+        await refreshFolders(accountId);
         spinner.succeed(`Created folder: ${folder.folderName}`);
 
         if (options.json) {
@@ -84,8 +63,7 @@ export function registerFoldersCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to create folder');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
     });
@@ -93,14 +71,22 @@ export function registerFoldersCommands(program: Command): void {
   folders
     .command('delete')
     .description('Delete a folder')
-    .argument('<folderId>', 'Folder ID to delete')
+    .argument('<folder>', 'Folder ID, name or path to delete')
     .option('--force', 'Skip confirmation')
-    .action(async (folderId, options) => {
-      requireAuth();
+    .action(async (selector, options) => {
+      await requireAuth();
       const accountId = await ensureAccountId();
 
+      let folder: ZohoFolder;
+      try {
+        folder = await resolveFolder(accountId, selector);
+      } catch (err) {
+        reportError(err);
+        process.exit(1);
+      }
+
       if (!options.force) {
-        warn(`About to delete folder: ${folderId}`);
+        warn(`About to delete folder: ${folder.path || folder.folderName} (${folder.folderId})`);
         console.log(chalk.yellow('This will permanently delete the folder and all emails in it.'));
         console.log();
         console.log('Run with --force to confirm.');
@@ -110,12 +96,12 @@ export function registerFoldersCommands(program: Command): void {
       const spinner = ora('Deleting folder...').start();
 
       try {
-        await deleteFolder(accountId, folderId);
+        await deleteFolder(accountId, folder.folderId);
+        await refreshFolders(accountId);
         spinner.succeed('Folder deleted');
       } catch (err) {
         spinner.fail('Failed to delete folder');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
     });
@@ -123,21 +109,21 @@ export function registerFoldersCommands(program: Command): void {
   folders
     .command('rename')
     .description('Rename a folder')
-    .argument('<folderId>', 'Folder ID')
+    .argument('<folder>', 'Folder ID, name or path')
     .argument('<newName>', 'New folder name')
-    .action(async (folderId, newName) => {
-      requireAuth();
+    .action(async (selector, newName) => {
+      await requireAuth();
       const accountId = await ensureAccountId();
 
       const spinner = ora(`Renaming folder to "${newName}"...`).start();
 
       try {
-        const folder = await renameFolder(accountId, folderId, newName);
+        const folder = await renameFolder(accountId, await resolveFolderId(accountId, selector), newName);
+        await refreshFolders(accountId);
         spinner.succeed(`Folder renamed to: ${folder.folderName}`);
       } catch (err) {
         spinner.fail('Failed to rename folder');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
     });
@@ -145,10 +131,10 @@ export function registerFoldersCommands(program: Command): void {
   folders
     .command('move')
     .description('Move a folder')
-    .argument('<folderId>', 'Folder ID to move')
-    .argument('<parentId>', 'New parent folder ID')
-    .action(async (folderId, parentId) => {
-      requireAuth();
+    .argument('<folder>', 'Folder ID, name or path to move')
+    .argument('<parent>', 'New parent folder ID, name or path')
+    .action(async (folder, parent) => {
+      await requireAuth();
       await ensureAccountId();
 
       error('Folder moving not yet implemented');
@@ -158,14 +144,14 @@ export function registerFoldersCommands(program: Command): void {
   folders
     .command('empty')
     .description('Empty all emails from a folder')
-    .argument('<folderId>', 'Folder ID to empty')
+    .argument('<folder>', 'Folder ID, name or path to empty')
     .option('--force', 'Skip confirmation')
-    .action(async (folderId, options) => {
-      requireAuth();
+    .action(async (folder, options) => {
+      await requireAuth();
       await ensureAccountId();
 
       if (!options.force) {
-        warn(`About to empty folder: ${folderId}`);
+        warn(`About to empty folder: ${folder}`);
         console.log(chalk.yellow('This will permanently delete all emails in the folder.'));
         console.log();
         console.log('Run with --force to confirm.');
@@ -179,9 +165,9 @@ export function registerFoldersCommands(program: Command): void {
   folders
     .command('mark-read')
     .description('Mark all emails in folder as read')
-    .argument('<folderId>', 'Folder ID')
-    .action(async (folderId) => {
-      requireAuth();
+    .argument('<folder>', 'Folder ID, name or path')
+    .action(async (folder) => {
+      await requireAuth();
       await ensureAccountId();
 
       error('Mark folder as read not yet implemented');
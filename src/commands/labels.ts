@@ -1,36 +1,10 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { getConfig, setConfig } from '../lib/config.js';
-import { checkZohoConnection } from '../lib/auth.js';
-import { getLabels, createLabel, deleteLabel, getAccountId } from '../lib/client.js';
-import { formatLabels, success, error, warn } from '../lib/output.js';
-
-function requireAuth(): void {
-  const connection = checkZohoConnection();
-  if (!connection) {
-    error('Not connected to Zoho Mail');
-    console.log(`  Run ${chalk.cyan('zoho-mail auth login')} to connect`);
-    process.exit(1);
-  }
-}
-
-async function ensureAccountId(): Promise<string> {
-  const config = getConfig();
-  if (config.accountId) {
-    return config.accountId;
-  }
-
-  try {
-    const accountId = await getAccountId();
-    setConfig({ accountId });
-    return accountId;
-  } catch (err) {
-    error('Could not detect account ID');
-    console.log(`  Run ${chalk.cyan('zoho-mail auth set-account <accountId>')} to set it manually`);
-    process.exit(1);
-  }
-}
+import { ensureAccountId, requireAuth } from '../lib/account.js';
+import { getLabels, createLabel, deleteLabel } from '../lib/client.js';
+import { formatLabels, success, error, warn, reportError } from '../lib/output.js';
+import { FIELDS_OPTION, FORMAT_OPTION, isHumanFormat, parseFormat } from '../lib/format.js';
 
 export function registerLabelsCommands(program: Command): void {
   const labels = program
@@ -41,25 +15,27 @@ export function registerLabelsCommands(program: Command): void {
     .command('list')
     .description('List all labels')
     .option('--json', 'Output as JSON')
+    .option('--format <format>', FORMAT_OPTION)
+    .option('--fields <fields>', FIELDS_OPTION)
     .action(async (options) => {
-      requireAuth();
+      await requireAuth();
       const accountId = await ensureAccountId();
 
       const spinner = ora('Fetching labels...').start();
 
       try {
+        const format = parseFormat(options);
         const labelList = await getLabels(accountId);
         spinner.stop();
         
-        if (labelList.length === 0) {
+        if (labelList.length === 0 && isHumanFormat(format)) {
           console.log(chalk.gray('No labels found'));
         } else {
-          console.log(formatLabels(labelList, options.json));
+          console.log(formatLabels(labelList, format));
         }
       } catch (err) {
         spinner.fail('Failed to fetch labels');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
     });
@@ -71,7 +47,7 @@ export function registerLabelsCommands(program: Command): void {
     .option('--color <hex>', 'Label color (hex code, e.g., #ff0000)')
     .option('--json', 'Output as JSON')
     .action(async (name, options) => {
-      requireAuth();
+      await requireAuth();
       const accountId = await ensureAccountId();
 
       const spinner = ora(`Creating label "${name}"...`).start();
@@ -90,8 +66,7 @@ export function registerLabelsCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to create label');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
     });
@@ -103,7 +78,7 @@ export function registerLabelsCommands(program: Command): void {
     .option('--name <name>', 'New label name')
     .option('--color <hex>', 'New label color')
     .action(async (labelId, options) => {
-      requireAuth();
+      await requireAuth();
       await ensureAccountId();
 
       if (!options.name && !options.color) {
@@ -121,7 +96,7 @@ export function registerLabelsCommands(program: Command): void {
     .argument('<labelId>', 'Label ID to delete')
     .option('--force', 'Skip confirmation')
     .action(async (labelId, options) => {
-      requireAuth();
+      await requireAuth();
       const accountId = await ensureAccountId();
 
       if (!options.force) {
@@ -139,8 +114,7 @@ export function registerLabelsCommands(program: Command): void {
         spinner.succeed('Label deleted');
       } catch (err) {
         spinner.fail('Failed to delete label');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
     });
@@ -1,52 +1,487 @@
 import { Command } from 'commander';
+import { readFile, writeFile } from 'fs/promises';
+import { resolve } from 'path';
 import chalk from 'chalk';
-import ora from 'ora';
-import { getConfig, setConfig } from '../lib/config.js';
-import { checkZohoConnection } from '../lib/auth.js';
+import ora, { type Ora } from 'ora';
+import { getConfig } from '../lib/config.js';
+import { ensureAccountId, requireAuth } from '../lib/account.js';
 import {
-  getEmails,
   getEmailContent,
-  searchEmails,
   sendEmail,
-  updateMessage,
-  deleteEmail,
-  getAccountId,
-  getFolders,
+  getAccounts,
+  getEmailDetails,
+  getEmailHeaders,
+  getOriginalMessage,
+  getAttachmentInfo,
+  downloadAttachment,
+  uploadAttachment,
+  replyToEmail,
+  emailPages,
+  type MessageUpdate,
+  type PageOptions,
 } from '../lib/client.js';
-import { formatEmails, formatEmailContent, success, error, warn } from '../lib/output.js';
+import {
+  resolveSignature,
+  appendSignature,
+  computeReplyRecipients,
+  formatAddressList,
+  replySubject,
+  forwardSubject,
+  quoteOriginal,
+  forwardedBlock,
+  formatDraft,
+  parseDraft,
+  validateDraft,
+  type Draft,
+} from '../lib/compose.js';
+import {
+  collectAttachments,
+  readAttachment,
+  planDownloads,
+  checkDownloadTargets,
+  saveAttachment,
+  formatBytes,
+  type LocalAttachment,
+} from '../lib/attachments.js';
+import {
+  formatEmails,
+  emailRecords,
+  checkEmailFormat,
+  formatEmailContent,
+  formatAttachments,
+  formatHeaderReport,
+  formatBulkResults,
+  checkBulkFormat,
+  formatWatchLine,
+  formatDraftPreview,
+  JsonArrayWriter,
+  error,
+  warn,
+  info,
+  reportError,
+  type BodyFormat,
+} from '../lib/output.js';
+import { analyzeHeaders } from '../lib/headers.js';
+import { ask, editText, isInteractive, readStdin } from '../lib/input.js';
+import { selectMessages, updateInBatches, deleteEach, type BulkOutcome } from '../lib/bulk.js';
+import { watchFolder, runHook } from '../lib/watch.js';
+import { parseDuration } from '../lib/rules.js';
+import { resolveFolderId } from '../lib/folders.js';
+import { resolveMessageRef, saveHandles } from '../lib/handles.js';
+import { findMessageFolder, withMessageFolder } from '../lib/locate.js';
+import {
+  compileQuery,
+  formatClauses,
+  matchesQuery,
+  parseQuery,
+  prepareQuery,
+  queryPages,
+  queryUsesLabels,
+  resolveQueryLabels,
+  splitOfflineQuery,
+} from '../lib/query.js';
+import { loadFolders, loadFolderState, loadLabels, searchStore } from '../lib/store.js';
+import { FIELDS_OPTION, FORMAT_HELP, FORMAT_OPTION, isHumanFormat, parseFormat, type FormatSpec } from '../lib/format.js';
+import { ValidationError, ZohoError } from '../lib/errors.js';
+import type { ZohoEmail, ZohoUploadedAttachment } from '../types/zoho.js';
 
-function requireAuth(): void {
-  const connection = checkZohoConnection();
-  if (!connection) {
-    error('Not connected to Zoho Mail');
-    console.log(`  Run ${chalk.cyan('zoho-mail auth login')} to connect`);
-    process.exit(1);
+/**
+ * The message a command argument names (an ID or a listing handle) and
+ * the folder holding it: --folder, the listing's folder, or wherever
+ * lib/locate.ts finds it
+ */
+async function locateMessage(
+  accountId: string,
+  ref: string,
+  folder: string | undefined,
+  spinner: Ora
+): Promise<{ messageId: string; folderId: string }> {
+  const message = await resolveMessageRef(accountId, ref);
+  const folderId = folder
+    ? await resolveFolderId(accountId, folder)
+    : message.folderId ?? await findMessageFolder(accountId, message.messageId, { onScan: scanProgress(spinner) });
+  return { messageId: message.messageId, folderId };
+}
+
+/**
+ * Like locateMessage, but runs `action` too; a looked-up folder that
+ * turns out stale is looked up again and the action retried
+ */
+async function onMessage<T>(
+  accountId: string,
+  ref: string,
+  folder: string | undefined,
+  spinner: Ora,
+  action: (messageId: string, folderId: string) => Promise<T>
+): Promise<T> {
+  const message = await resolveMessageRef(accountId, ref);
+  if (folder) {
+    return action(message.messageId, await resolveFolderId(accountId, folder));
+  }
+  return withMessageFolder(accountId, message.messageId, folderId => action(message.messageId, folderId), {
+    folderId: message.folderId,
+    onScan: scanProgress(spinner),
+  });
+}
+
+function scanProgress(spinner: Ora): (folderName: string) => void {
+  return (folderName) => {
+    spinner.text = `Looking for the email in ${folderName}...`;
+  };
+}
+
+const OFFLINE_HINT = 'Run `zoho-mail sync` while online to fill the local cache';
+
+/**
+ * `mail list --offline`: the cached listing with the same server-side
+ * filters applied locally
+ */
+async function listCachedEmails(
+  accountId: string,
+  folderId: string,
+  options: { unread?: boolean; flagged?: boolean }
+): Promise<ZohoEmail[]> {
+  const state = await loadFolderState(accountId, folderId);
+  if (!state.syncedAt) {
+    throw new ZohoError(`Folder ${folderId} is not in the local cache`, { hint: OFFLINE_HINT });
+  }
+  return Object.values(state.messages)
+    .filter(e => !options.unread || e.status === '0')
+    .filter(e => !options.flagged || (e.flagid && e.flagid !== 'flag_not_set'))
+    .sort((a, b) => Number(b.receivedTime) - Number(a.receivedTime));
+}
+
+/**
+ * A local listing served a page at a time like a remote one
+ */
+async function* localPages(emails: ZohoEmail[], paging: PageOptions): AsyncGenerator<ZohoEmail[]> {
+  const first = (paging.start ?? 1) - 1;
+  const page = emails.slice(first, paging.max === undefined ? undefined : first + paging.max);
+  if (page.length) yield page;
+}
+
+/**
+ * Paging for `mail list` and `mail search`: one page of --limit messages
+ * (at --page or --start), or with --all every message, up to --max
+ */
+function pagingOptions(options: {
+  limit: string;
+  page?: string;
+  start?: string;
+  all?: boolean;
+  max?: string;
+}): PageOptions {
+  const count = (flag: string, value: string): number => {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 1) {
+      throw new ValidationError(`Invalid ${flag} "${value}" (expected a whole number from 1)`);
+    }
+    return n;
+  };
+
+  const limit = count('--limit', options.limit);
+  if (options.page && options.start) {
+    throw new ValidationError('Use --page or --start, not both');
   }
+  const start = options.start
+    ? count('--start', options.start)
+    : options.page ? (count('--page', options.page) - 1) * limit + 1 : 1;
+
+  if (options.all || options.max) {
+    return { start, max: options.max ? count('--max', options.max) : undefined };
+  }
+  return { start, max: limit, pageSize: limit };
 }
 
-async function ensureAccountId(): Promise<string> {
-  const config = getConfig();
-  if (config.accountId) {
-    return config.accountId;
+/**
+ * `mail search --explain`: how a query splits between Zoho and the client
+ */
+function explainQuery(query: string, json?: boolean): void {
+  const compiled = compileQuery(parseQuery(query));
+  const filters = compiled.filters.length ? formatClauses(compiled.filters) : undefined;
+  if (json) {
+    console.log(JSON.stringify({ searchKey: compiled.searchKey ?? null, folder: compiled.folder ?? null, filters: filters ?? null }, null, 2));
+    return;
   }
+  console.log(`${chalk.bold('Zoho search:')}   ${compiled.searchKey ?? chalk.gray('(none: lists the folder)')}`);
+  console.log(`${chalk.bold('Folder:')}        ${compiled.folder ?? chalk.gray('(all)')}`);
+  console.log(`${chalk.bold('Filtered here:')} ${filters ?? chalk.gray('(nothing)')}`);
+}
+
+/**
+ * Print a listing as its pages arrive. JSON streams out page by page; a
+ * table needs every row first, so it comes at the end, numbered with
+ * handles for later commands.
+ */
+async function printListing(
+  accountId: string,
+  pages: AsyncIterable<ZohoEmail[]>,
+  spinner: Ora,
+  options: {
+    format: FormatSpec;
+    paging: PageOptions;
+    /** Folder the listing is of, recorded with the handles */
+    folderId?: string;
+    /** Client-side filter */
+    keep?: (email: ZohoEmail) => boolean;
+    summary: (count: number) => string;
+  }
+): Promise<void> {
+  const { format } = options;
+  checkEmailFormat(format);
+  const json = format.format === 'json' ? new JsonArrayWriter() : undefined;
+  const emails: ZohoEmail[] = [];
+  let fetched = 0;
+  for await (const page of pages) {
+    fetched += page.length;
+    const kept = options.keep ? page.filter(options.keep) : page;
+    if (json) {
+      spinner.stop();
+      json.write(emailRecords(kept, format));
+    } else if (format.format === 'ndjson') {
+      spinner.stop();
+      for (const record of emailRecords(kept, format)) {
+        console.log(JSON.stringify(record));
+      }
+    } else {
+      emails.push(...kept);
+      spinner.text = `Fetched ${fetched} email(s)...`;
+    }
+  }
+  spinner.stop();
+
+  if (json) {
+    json.end();
+    return;
+  }
+  if (format.format === 'ndjson') return;
+  if (emails.length === 0 && isHumanFormat(format)) {
+    console.log(chalk.gray('No emails found'));
+    return;
+  }
+  const handles = emails.length ? await saveHandles(accountId, emails, options.folderId) : undefined;
+  const output = formatEmails(emails, format, handles);
+  if (output) console.log(output);
+  if (format.format !== 'table') return;
+  console.log();
+  // A full single page probably isn't the end
+  const more = options.paging.pageSize !== undefined && fetched === options.paging.max
+    ? `; more with --start ${(options.paging.start ?? 1) + fetched} or --all`
+    : '';
+  console.log(chalk.gray(options.summary(emails.length) + more));
+}
 
+/**
+ * Append the requested (or default) signature to an outgoing body
+ */
+async function signBody(body: string, isHtml: boolean, selector?: string | false): Promise<string> {
   try {
-    const accountId = await getAccountId();
-    setConfig({ accountId });
-    return accountId;
+    return appendSignature(body, isHtml, await resolveSignature(selector));
   } catch (err) {
-    error('Could not detect account ID');
+    // Only a signature the user asked for by name is worth failing the send for
+    if (selector !== undefined) {
+      throw err;
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    warn(`Sending without signature: ${message}`);
+    return body;
+  }
+}
+
+/**
+ * The body from --body or --body-file, with `-` reading stdin
+ */
+async function readBody(options: { body?: string; bodyFile?: string }): Promise<string | undefined> {
+  if (options.body !== undefined && options.bodyFile !== undefined) {
+    throw new ValidationError('Use --body or --body-file, not both');
+  }
+  const source = options.bodyFile ?? (options.body === '-' ? '-' : undefined);
+  if (source === undefined) return options.body;
+  return source === '-' ? readStdin() : readFile(source, 'utf-8');
+}
+
+/**
+ * Write a message in $EDITOR, then show it and ask before sending. A
+ * draft that doesn't validate goes back to the editor. Returns undefined
+ * when the user gives up (or saves an empty body). `below` is what goes
+ * under the signature (a quoted or forwarded original).
+ */
+async function composeInEditor(
+  draft: Draft,
+  files: LocalAttachment[],
+  options: { html?: boolean; signature?: string | false },
+  below = ''
+): Promise<{ draft: Draft; content: string } | undefined> {
+  let text = formatDraft(draft);
+  for (;;) {
+    text = await editText(text, 'draft.eml');
+    const edited = parseDraftSafely(text);
+    if (edited === undefined) {
+      if (await ask('Edit again? [Y/n] ') === 'n') return undefined;
+      continue;
+    }
+    if (!edited.body.trim()) return undefined;
+
+    const content = await signBody(edited.body, !!options.html, options.signature) + below;
+    console.log(formatDraftPreview(edited, content, files));
+    const answer = await ask('Send it? [y]es, [e]dit, [n]o: ');
+    if (answer === 'y') return { draft: edited, content };
+    if (answer !== 'e') return undefined;
+  }
+}
+
+/**
+ * Parse and validate an edited draft, reporting what is wrong with it
+ */
+function parseDraftSafely(text: string): Draft | undefined {
+  try {
+    const draft = parseDraft(text);
+    if (draft.body.trim()) validateDraft(draft);
+    return draft;
+  } catch (err) {
+    reportError(err);
+    return undefined;
+  }
+}
+
+const BODY_FORMATS: BodyFormat[] = ['text', 'html', 'markdown'];
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Upload local files through Zoho's attachment store so they can be
+ * referenced by an outgoing message
+ */
+async function uploadFiles(
+  accountId: string,
+  files: LocalAttachment[],
+  spinner: Ora
+): Promise<ZohoUploadedAttachment[]> {
+  const uploaded: ZohoUploadedAttachment[] = [];
+  for (const [index, file] of files.entries()) {
+    spinner.text = `Uploading ${file.name} (${formatBytes(file.size)}, ${index + 1}/${files.length})...`;
+    uploaded.push(await uploadAttachment(accountId, file.name, await readAttachment(file)));
+  }
+  return uploaded;
+}
+
+interface BulkUpdateSpec {
+  name: string;
+  description: string;
+  /** Spinner text while the update runs */
+  progress: string;
+  /** Past tense for the summary line */
+  done: string;
+  mode: MessageUpdate['mode'];
+  /** The last argument names where messages go (move) or the label to change */
+  target?: 'folderId' | 'tagId';
+}
+
+const BULK_UPDATES: BulkUpdateSpec[] = [
+  { name: 'move', description: 'Move emails to a folder', progress: 'Moving', done: 'Moved', mode: 'moveToFolder', target: 'folderId' },
+  { name: 'flag', description: 'Flag/star emails', progress: 'Flagging', done: 'Flagged', mode: 'addFlag' },
+  { name: 'unflag', description: 'Remove flag from emails', progress: 'Removing flags', done: 'Unflagged', mode: 'removeFlag' },
+  { name: 'archive', description: 'Archive emails', progress: 'Archiving', done: 'Archived', mode: 'archive' },
+  { name: 'spam', description: 'Mark emails as spam', progress: 'Marking as spam', done: 'Marked as spam', mode: 'spam' },
+  { name: 'unspam', description: 'Mark emails as not spam', progress: 'Unmarking spam', done: 'Unmarked as spam', mode: 'notSpam' },
+  { name: 'mark-read', description: 'Mark emails as read', progress: 'Marking as read', done: 'Marked as read', mode: 'markAsRead' },
+  { name: 'mark-unread', description: 'Mark emails as unread', progress: 'Marking as unread', done: 'Marked as unread', mode: 'markAsUnread' },
+  { name: 'label', description: 'Apply a label to emails', progress: 'Applying label', done: 'Labelled', mode: 'addTag', target: 'tagId' },
+  { name: 'unlabel', description: 'Remove a label from emails', progress: 'Removing label', done: 'Unlabelled', mode: 'removeTag', target: 'tagId' },
+];
+
+/**
+ * Summarise a bulk run; failures are listed per message and make the
+ * command exit non-zero
+ */
+function reportBulk(spinner: Ora, outcomes: BulkOutcome[], done: string, format: FormatSpec): void {
+  const failed = outcomes.filter(o => !o.ok).length;
+  if (!isHumanFormat(format)) {
+    spinner.stop();
+    console.log(formatBulkResults(outcomes, format));
+  } else if (failed) {
+    spinner.warn(`${done} ${outcomes.length - failed} of ${outcomes.length} email(s), ${failed} failed`);
+    console.log(formatBulkResults(outcomes, format));
+  } else {
+    spinner.succeed(`${done} ${outcomes.length} email(s)`);
+  }
+  if (failed) {
     process.exit(1);
   }
 }
 
-async function getInboxFolderId(accountId: string): Promise<string> {
-  const folders = await getFolders(accountId);
-  const inbox = folders.find(f => f.folderType === 'Inbox');
-  if (!inbox) {
-    throw new Error('Inbox folder not found');
+/**
+ * An updatemessage command taking many IDs, `-` for stdin, or a
+ * --query/--folder selector, sent in batches
+ */
+function registerBulkUpdate(mail: Command, spec: BulkUpdateSpec): void {
+  const command = mail.command(spec.name).description(spec.description);
+  if (spec.target) {
+    const what = spec.target === 'folderId' ? 'target folder (ID, name or path)' : 'label ID';
+    command.argument('<ids...>', `Message IDs or handles (or - to read them from stdin), then the ${what}`);
+  } else {
+    command.argument('[messageIds...]', 'Message IDs or handles, or - to read them from stdin');
   }
-  return inbox.folderId;
+
+  command
+    .option('--query <search>', 'Act on every message matching a search')
+    .option('--folder <folder>', 'Act on every message in a folder (with --query: search only there)')
+    .option('--dry-run', 'Print the selected message IDs without changing anything')
+    .option('--json', 'Output a per-message report as JSON')
+    .option('--format <format>', `Per-message report format: ${FORMAT_HELP}`)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (args: string[], options) => {
+      const ids = spec.target ? args.slice(0, -1) : args;
+      const target = spec.target ? args[args.length - 1] : undefined;
+
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Selecting emails...').start();
+
+      try {
+        const format = parseFormat(options);
+        checkBulkFormat(format);
+        const folderId = options.folder ? await resolveFolderId(accountId, options.folder) : undefined;
+        const targets = await selectMessages(accountId, { ids, query: options.query, folderId });
+        if (targets.length === 0) {
+          spinner.info('No matching emails');
+          return;
+        }
+
+        if (options.dryRun) {
+          spinner.stop();
+          if (format.format === 'json') {
+            console.log(JSON.stringify(targets, null, 2));
+          } else if (format.format === 'ndjson') {
+            console.log(targets.map(t => JSON.stringify(t)).join('\n'));
+          } else {
+            console.log(targets.map(t => t.messageId).join('\n'));
+            console.log(chalk.gray(`${targets.length} email(s) would be changed`));
+          }
+          return;
+        }
+
+        const action: MessageUpdate = { mode: spec.mode };
+        if (spec.target === 'folderId' && target) {
+          action.folderId = await resolveFolderId(accountId, target);
+        } else if (spec.target && target) {
+          action[spec.target] = target;
+        }
+
+        spinner.text = `${spec.progress}...`;
+        const outcomes = await updateInBatches(accountId, targets, action, (done, total) => {
+          spinner.text = `${spec.progress}... ${done}/${total}`;
+        });
+        reportBulk(spinner, outcomes, spec.done, format);
+      } catch (err) {
+        spinner.fail(`${spec.progress} failed`);
+        reportError(err);
+        process.exit(1);
+      }
+    });
 }
 
 export function registerMailCommands(program: Command): void {
@@ -57,55 +492,58 @@ export function registerMailCommands(program: Command): void {
   mail
     .command('list')
     .description('List emails in a folder')
-    .argument('[folderId]', 'Folder ID (default: Inbox)')
-    .option('-n, --limit <number>', 'Max emails to fetch', '20')
+    .argument('[folder]', 'Folder ID, name, path (/Clients/Acme) or type (inbox, sent, trash...); default: the configured defaultFolder')
+    .option('-n, --limit <number>', 'Emails per page', '20')
+    .option('--page <n>', 'Show page n (of --limit emails each)')
+    .option('--start <position>', 'Begin at this position (1 = the newest email)')
+    .option('--all', 'Fetch every page')
+    .option('--max <number>', 'With --all, stop after this many emails')
     .option('--unread', 'Only unread emails')
     .option('--flagged', 'Only flagged emails')
     .option('--from <email>', 'Filter by sender')
     .option('--subject <text>', 'Filter by subject')
+    .option('--offline', 'List from the local cache (see `zoho-mail sync`)')
     .option('--json', 'Output as JSON')
-    .action(async (folderId, options) => {
-      requireAuth();
+    .option('--format <format>', FORMAT_OPTION)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (folder, options) => {
+      if (!options.offline) {
+        await requireAuth();
+      }
       const accountId = await ensureAccountId();
 
       const spinner = ora('Fetching emails...').start();
 
       try {
-        // Get Inbox folder ID if not specified
-        const targetFolderId = folderId || await getInboxFolderId(accountId);
+        const targetFolderId = await resolveFolderId(
+          accountId,
+          folder || getConfig().defaultFolder || 'inbox',
+          { offline: options.offline }
+        );
 
-        const emails = await getEmails(accountId, targetFolderId, {
-          limit: parseInt(options.limit, 10),
-          status: options.unread ? 'unread' : undefined,
-          flagged: options.flagged,
-        });
+        const paging = pagingOptions(options);
+        const pages = options.offline
+          ? localPages(await listCachedEmails(accountId, targetFolderId, options), paging)
+          : emailPages(accountId, targetFolderId, {
+            ...paging,
+            status: options.unread ? 'unread' : undefined,
+            flagged: options.flagged,
+          });
 
-        spinner.stop();
-
-        // Apply client-side filters if needed
-        let filtered = emails;
-        if (options.from) {
-          filtered = filtered.filter(e =>
-            e.fromAddress.toLowerCase().includes(options.from.toLowerCase())
-          );
-        }
-        if (options.subject) {
-          filtered = filtered.filter(e =>
-            e.subject.toLowerCase().includes(options.subject.toLowerCase())
-          );
-        }
-
-        if (filtered.length === 0) {
-          console.log(chalk.gray('No emails found'));
-        } else {
-          console.log(formatEmails(filtered, options.json));
-          console.log();
-          console.log(chalk.gray(`Showing ${filtered.length} email(s)`));
-        }
+        // --from and --subject are applied client-side
+        const from = options.from?.toLowerCase();
+        const subject = options.subject?.toLowerCase();
+        await printListing(accountId, pages, spinner, {
+          format: parseFormat(options),
+          paging,
+          folderId: targetFolderId,
+          keep: (e) => (!from || (e.fromAddress || '').toLowerCase().includes(from)) &&
+            (!subject || (e.subject || '').toLowerCase().includes(subject)),
+          summary: (count) => `Showing ${count} email(s)`,
+        });
       } catch (err) {
         spinner.fail('Failed to fetch emails');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
     });
@@ -113,367 +551,608 @@ export function registerMailCommands(program: Command): void {
   mail
     .command('read')
     .description('Read email content')
-    .argument('<messageId>', 'Message ID')
-    .option('--folder <folderId>', 'Folder ID containing the email')
-    .option('--headers', 'Include email headers')
-    .option('--raw', 'Show raw/original message')
+    .argument('<messageId>', 'Message ID, or a handle (#) from the last listing')
+    .option('--folder <folder>', 'Folder containing the email (default: found automatically)')
+    .option('--headers', 'Show parsed headers (Received chain, SPF/DKIM/DMARC, List-*)')
+    .option('--raw', 'Print the full RFC 822 source')
+    .option('--save <file>', 'Write the RFC 822 source to a file (e.g. message.eml)')
+    .option('--format <format>', 'Body output: text, html or markdown', 'text')
+    .option('--full', 'Show quoted reply history instead of collapsing it')
     .option('--json', 'Output as JSON')
-    .action(async (messageId, options) => {
-      requireAuth();
+    .action(async (ref, options) => {
+      if (!BODY_FORMATS.includes(options.format)) {
+        error(`Unknown format "${options.format}" (expected ${BODY_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+
+      await requireAuth();
       const accountId = await ensureAccountId();
 
       const spinner = ora('Fetching email content...').start();
 
       try {
-        const folderId = options.folder || await getInboxFolderId(accountId);
-        const email = await getEmailContent(accountId, folderId, messageId);
+        if (options.raw || options.save) {
+          const source = await onMessage(accountId, ref, options.folder, spinner, (messageId, folderId) =>
+            getOriginalMessage(accountId, folderId, messageId)
+          );
+          if (options.save) {
+            await writeFile(options.save, source);
+            spinner.succeed(`Saved to ${options.save}`);
+          } else {
+            spinner.stop();
+          }
+          if (options.raw) {
+            process.stdout.write(source.endsWith('\n') ? source : `${source}\n`);
+          }
+          return;
+        }
+
+        const [details, content, headers] = await onMessage(accountId, ref, options.folder, spinner, (messageId, folderId) =>
+          Promise.all([
+            getEmailDetails(accountId, folderId, messageId),
+            getEmailContent(accountId, folderId, messageId),
+            options.headers ? getEmailHeaders(accountId, folderId, messageId) : undefined,
+          ])
+        );
         spinner.stop();
 
+        const email = { ...details, ...content };
+        const report = headers === undefined ? undefined : analyzeHeaders(headers);
         if (options.json) {
-          console.log(JSON.stringify(email, null, 2));
+          console.log(JSON.stringify(report ? { ...email, headers: report } : email, null, 2));
         } else {
-          console.log(formatEmailContent(email as any));
+          if (report) {
+            console.log(formatHeaderReport(report));
+          }
+          console.log(formatEmailContent(email, { format: options.format, full: options.full }));
         }
       } catch (err) {
         spinner.fail('Failed to fetch email');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
     });
 
   mail
-    .command('search')
-    .description('Search emails')
-    .argument('<query>', 'Search query')
-    .option('-n, --limit <number>', 'Max results', '50')
-    .option('--folder <folderId>', 'Search in specific folder')
+    .command('attachments')
+    .description('List or download the attachments of an email')
+    .argument('<messageId>', 'Message ID, or a handle (#) from the last listing')
+    .option('--folder <folder>', 'Folder containing the email (default: found automatically)')
+    .option('--save <dir>', 'Download every attachment into a directory')
+    .option('--overwrite', 'Replace files that already exist in the --save directory')
     .option('--json', 'Output as JSON')
-    .action(async (query, options) => {
-      requireAuth();
+    .option('--format <format>', FORMAT_OPTION)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (ref, options) => {
+      await requireAuth();
       const accountId = await ensureAccountId();
 
-      const spinner = ora(`Searching for "${query}"...`).start();
+      const spinner = ora('Fetching attachments...').start();
 
       try {
-        const emails = await searchEmails(accountId, query, {
-          limit: parseInt(options.limit, 10),
-          folderId: options.folder,
-        });
+        const format = parseFormat(options);
+        const { messageId, folderId } = await locateMessage(accountId, ref, options.folder, spinner);
+        const { attachments } = await getAttachmentInfo(accountId, folderId, messageId);
 
-        spinner.stop();
+        if (!options.save) {
+          spinner.stop();
+          if (attachments.length === 0 && isHumanFormat(format)) {
+            console.log(chalk.gray('No attachments'));
+          } else {
+            console.log(formatAttachments(attachments, format));
+          }
+          return;
+        }
 
-        if (emails.length === 0) {
-          console.log(chalk.gray('No emails found'));
+        const paths = planDownloads(resolve(options.save), attachments.map(a => a.attachmentName));
+        await checkDownloadTargets(paths, !!options.overwrite);
+
+        for (const [index, attachment] of attachments.entries()) {
+          spinner.text = `Downloading ${attachment.attachmentName} (${index + 1}/${attachments.length})...`;
+          const content = await downloadAttachment(accountId, folderId, messageId, attachment.attachmentId);
+          await saveAttachment(paths[index], content);
+        }
+
+        if (format.format === 'json') {
+          spinner.stop();
+          console.log(JSON.stringify(
+            attachments.map((a, index) => ({ ...a, savedTo: paths[index] })),
+            null,
+            2
+          ));
         } else {
-          console.log(formatEmails(emails, options.json));
-          console.log();
-          console.log(chalk.gray(`Found ${emails.length} email(s)`));
+          spinner.succeed(`Saved ${attachments.length} attachment(s) to ${options.save}`);
+          paths.forEach(path => console.log(chalk.gray(`  ${path}`)));
         }
       } catch (err) {
-        spinner.fail('Search failed');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        spinner.fail('Failed to fetch attachments');
+        reportError(err);
         process.exit(1);
       }
     });
 
   mail
-    .command('send')
-    .description('Send an email')
-    .option('--to <email>', 'Recipient email address (required)')
-    .option('--cc <email>', 'CC recipient')
-    .option('--bcc <email>', 'BCC recipient')
-    .option('--subject <text>', 'Email subject (required)')
-    .option('--body <text>', 'Email body (required)')
-    .option('--html', 'Treat body as HTML')
-    .option('--attach <file>', 'Attachment path')
-    .action(async (options) => {
-      requireAuth();
-      const accountId = await ensureAccountId();
-
-      // Validate required fields
-      if (!options.to) {
-        error('--to is required');
-        process.exit(1);
-      }
-      if (!options.subject) {
-        error('--subject is required');
-        process.exit(1);
-      }
-      if (!options.body) {
-        error('--body is required');
-        process.exit(1);
-      }
-
-      if (options.attach) {
-        error('Attachments not yet supported');
-        process.exit(1);
+    .command('search')
+    .description('Search emails (from:, to:, subject:, has:attachment, is:unread, label:, in:, dates, OR, -)')
+    .argument('<query>', 'Search query, like \'from:alice newer_than:7d -is:read\'')
+    .option('-n, --limit <number>', 'Results per page', '50')
+    .option('--page <n>', 'Show page n (of --limit results each)')
+    .option('--start <position>', 'Begin at this position (1 = the first result)')
+    .option('--all', 'Fetch every page')
+    .option('--max <number>', 'With --all, stop after this many results')
+    .option('--folder <folder>', 'Search in specific folder')
+    .option('--offline', 'Ranked full-text search of the local cache (see `zoho-mail sync`)')
+    .option('--explain', 'Show what is sent to Zoho and what is filtered here, without searching')
+    .option('--json', 'Output as JSON')
+    .option('--format <format>', FORMAT_OPTION)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (query, options) => {
+      if (options.explain) {
+        try {
+          explainQuery(query, options.json);
+          return;
+        } catch (err) {
+          reportError(err);
+          process.exit(1);
+        }
       }
 
-      const spinner = ora(`Sending email to ${options.to}...`).start();
-
-      try {
-        await sendEmail(accountId, {
-          to: options.to,
-          cc: options.cc,
-          bcc: options.bcc,
-          subject: options.subject,
-          content: options.body,
-          isHtml: options.html,
-        });
-
-        spinner.succeed('Email sent!');
-      } catch (err) {
-        spinner.fail('Failed to send email');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
-        process.exit(1);
+      if (!options.offline) {
+        await requireAuth();
       }
-    });
-
-  mail
-    .command('move')
-    .description('Move email to folder')
-    .argument('<messageId>', 'Message ID')
-    .argument('<folderId>', 'Target folder ID')
-    .action(async (messageId, folderId) => {
-      requireAuth();
       const accountId = await ensureAccountId();
 
-      const spinner = ora('Moving email...').start();
+      const spinner = ora(`Searching for "${query}"...`).start();
 
       try {
-        await updateMessage(accountId, messageId, {
-          mode: 'moveToFolder',
+        const paging = pagingOptions(options);
+        let folderId = options.folder
+          ? await resolveFolderId(accountId, options.folder, { offline: options.offline })
+          : undefined;
+        let pages: AsyncIterable<ZohoEmail[]>;
+        if (options.offline) {
+          if (!(await loadFolders(accountId))) {
+            throw new ZohoError('Nothing cached for this account yet', { hint: OFFLINE_HINT });
+          }
+          let clauses = parseQuery(query);
+          if (queryUsesLabels(clauses)) {
+            const labels = await loadLabels(accountId);
+            if (!labels) {
+              throw new ZohoError('Labels are not cached for this account yet', { hint: OFFLINE_HINT });
+            }
+            clauses = resolveQueryLabels(clauses, labels);
+          }
+          const { folder } = compileQuery(clauses);
+          if (folder !== undefined) {
+            if (folderId) throw new ValidationError('Give --folder or in:, not both');
+            folderId = await resolveFolderId(accountId, folder, { offline: true });
+          }
+          const { text, filters } = splitOfflineQuery(clauses);
+          const hits = await searchStore(accountId, text, { folderId });
+          const matches = hits.map(hit => hit.email).filter(email => matchesQuery(email, filters));
+          pages = localPages(matches, paging);
+        } else {
+          const prepared = await prepareQuery(accountId, query, folderId);
+          folderId = prepared.folderId;
+          pages = queryPages(accountId, prepared.compiled, { ...paging, folderId });
+        }
+
+        await printListing(accountId, pages, spinner, {
+          format: parseFormat(options),
+          paging,
           folderId,
+          summary: (count) => `Found ${count} email(s)`,
         });
-        spinner.succeed('Email moved');
       } catch (err) {
-        spinner.fail('Failed to move email');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        spinner.fail('Search failed');
+        reportError(err);
         process.exit(1);
       }
     });
 
   mail
-    .command('delete')
-    .description('Delete an email')
-    .argument('<messageId>', 'Message ID')
-    .option('--folder <folderId>', 'Folder containing the email')
-    .option('--force', 'Skip confirmation')
-    .action(async (messageId, options) => {
-      requireAuth();
-      const accountId = await ensureAccountId();
-
-      if (!options.force) {
-        warn(`About to delete email: ${messageId}`);
-        console.log('Run with --force to confirm.');
-        return;
+    .command('watch')
+    .description('Poll a folder and print each new message as it arrives')
+    .option('--folder <folder>', 'Folder to watch (default: Inbox)')
+    .option('--interval <seconds>', 'Seconds between polls', '60')
+    .option('--since <duration>', 'Also report messages from the last 10m, 2h, 1d...')
+    .option('--exec <command>', 'Shell command to run per message, with ZOHO_* environment variables')
+    .option('--count <number>', 'Stop after this many new messages')
+    .option('--json', 'Print one JSON object per message (NDJSON)')
+    .action(async (options) => {
+      const intervalMs = Number(options.interval) * 1000;
+      if (!(intervalMs > 0)) {
+        error(`Invalid --interval "${options.interval}" (expected seconds)`);
+        process.exit(1);
       }
-
-      const spinner = ora('Deleting email...').start();
-
-      try {
-        const folderId = options.folder || await getInboxFolderId(accountId);
-        await deleteEmail(accountId, folderId, messageId);
-        spinner.succeed('Email deleted');
-      } catch (err) {
-        spinner.fail('Failed to delete email');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+      const since = options.since !== undefined ? parseDuration(options.since) : undefined;
+      if (options.since !== undefined && since === undefined) {
+        error(`Invalid --since "${options.since}" (expected e.g. 10m, 2h, 1d)`);
+        process.exit(1);
+      }
+      const count = options.count !== undefined ? Number(options.count) : undefined;
+      if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+        error(`Invalid --count "${options.count}" (expected a whole number from 1)`);
         process.exit(1);
       }
-    });
 
-  mail
-    .command('flag')
-    .description('Flag/star an email')
-    .argument('<messageId>', 'Message ID')
-    .action(async (messageId) => {
-      requireAuth();
+      await requireAuth();
       const accountId = await ensureAccountId();
 
-      const spinner = ora('Flagging email...').start();
+      // First Ctrl+C finishes the current message and stops; a second one exits at once
+      const controller = new AbortController();
+      const onSigint = () => {
+        if (controller.signal.aborted) process.exit(130);
+        controller.abort();
+      };
+      process.on('SIGINT', onSigint);
 
+      let seen = 0;
       try {
-        await updateMessage(accountId, messageId, { mode: 'addFlag' });
-        spinner.succeed('Email flagged');
+        const folderId = await resolveFolderId(accountId, options.folder || 'inbox');
+        console.error(chalk.gray(`Watching folder ${folderId} every ${options.interval}s (Ctrl+C to stop)`));
+
+        await watchFolder(accountId, folderId, {
+          intervalMs,
+          since: since !== undefined ? Date.now() - since : undefined,
+          signal: controller.signal,
+          onMessage: async (email) => {
+            seen++;
+            console.log(formatWatchLine(email, options.json));
+            if (options.exec) {
+              try {
+                const code = await runHook(options.exec, email, { stdoutToStderr: Boolean(options.json) });
+                if (code !== 0) warn(`Hook exited with status ${code} for ${email.messageId}`);
+              } catch (err) {
+                warn(`Hook failed for ${email.messageId}: ${err instanceof Error ? err.message : String(err)}`);
+              }
+            }
+            if (count && seen >= count) controller.abort();
+          },
+          onRetry: (err, delayMs) => {
+            warn(`${err.message}; retrying in ${Math.round(delayMs / 1000)}s`);
+          },
+        });
+        console.error(chalk.gray(`Stopped after ${seen} new message(s)`));
       } catch (err) {
-        spinner.fail('Failed to flag email');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        error('Watch failed');
+        reportError(err);
         process.exit(1);
+      } finally {
+        process.off('SIGINT', onSigint);
       }
     });
 
   mail
-    .command('unflag')
-    .description('Remove flag from email')
-    .argument('<messageId>', 'Message ID')
-    .action(async (messageId) => {
-      requireAuth();
+    .command('send')
+    .description('Send an email')
+    .option('--to <email>', 'Recipient email address (required)')
+    .option('--cc <email>', 'CC recipient')
+    .option('--bcc <email>', 'BCC recipient')
+    .option('--subject <text>', 'Email subject (required)')
+    .option('--body <text>', 'Email body, or - to read it from stdin (required)')
+    .option('--body-file <path>', 'Read the body from a file (- for stdin)')
+    .option('--edit', 'Write the message in $EDITOR even when every field is given')
+    .option('--html', 'Treat body as HTML')
+    .option('--attach <path>', 'Attach a file or glob (repeatable)', collect, [])
+    .option('--signature <nameOrId>', 'Signature to append (default: the account default)')
+    .option('--no-signature', 'Do not append a signature')
+    .action(async (options) => {
+      await requireAuth();
       const accountId = await ensureAccountId();
 
-      const spinner = ora('Removing flag...').start();
-
+      let draft: Draft;
+      let content: string;
+      let files: LocalAttachment[];
       try {
-        await updateMessage(accountId, messageId, { mode: 'removeFlag' });
-        spinner.succeed('Flag removed');
+        files = await collectAttachments(options.attach);
+        draft = {
+          to: options.to || '',
+          cc: options.cc || '',
+          bcc: options.bcc || '',
+          subject: options.subject || '',
+          body: await readBody(options) ?? '',
+        };
+
+        // Anything missing is filled in with an editor, when there is a terminal to run one in
+        const missing = !draft.to ? '--to' : !draft.subject ? '--subject' : !draft.body ? '--body' : undefined;
+        if (missing || options.edit) {
+          if (!isInteractive()) {
+            throw new ValidationError(missing ? `${missing} is required` : '--edit needs a terminal', {
+              hint: 'Pass --to, --subject and --body (or --body-file), or run in a terminal to write the message in $EDITOR',
+            });
+          }
+          const composed = await composeInEditor(draft, files, options);
+          if (!composed) {
+            info('Not sent');
+            return;
+          }
+          ({ draft, content } = composed);
+        } else {
+          content = await signBody(draft.body, !!options.html, options.signature);
+        }
       } catch (err) {
-        spinner.fail('Failed to remove flag');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
-    });
-
-  mail
-    .command('archive')
-    .description('Archive an email')
-    .argument('<messageId>', 'Message ID')
-    .action(async (messageId) => {
-      requireAuth();
-      const accountId = await ensureAccountId();
 
-      const spinner = ora('Archiving email...').start();
+      const spinner = ora(`Sending email to ${draft.to}...`).start();
 
       try {
-        await updateMessage(accountId, messageId, { mode: 'archive' });
-        spinner.succeed('Email archived');
+        const attachments = await uploadFiles(accountId, files, spinner);
+        spinner.text = `Sending email to ${draft.to}...`;
+
+        await sendEmail(accountId, {
+          to: draft.to,
+          cc: draft.cc || undefined,
+          bcc: draft.bcc || undefined,
+          subject: draft.subject,
+          content,
+          isHtml: options.html,
+          attachments,
+        });
+
+        const suffix = attachments.length ? ` with ${attachments.length} attachment(s)` : '';
+        spinner.succeed(`Email sent${suffix}!`);
       } catch (err) {
-        spinner.fail('Failed to archive email');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        spinner.fail('Failed to send email');
+        reportError(err);
         process.exit(1);
       }
     });
 
   mail
-    .command('spam')
-    .description('Mark email as spam')
-    .argument('<messageId>', 'Message ID')
-    .action(async (messageId) => {
-      requireAuth();
+    .command('reply')
+    .description('Reply to an email in its thread')
+    .argument('<messageId>', 'Message ID, or a handle (#) from the last listing')
+    .option('--body <text>', 'Reply body, or - to read it from stdin (required)')
+    .option('--body-file <path>', 'Read the body from a file (- for stdin)')
+    .option('--edit', 'Write the reply in $EDITOR even when --body is given')
+    .option('--all', 'Reply to all recipients')
+    .option('--folder <folder>', 'Folder containing the email (default: found automatically)')
+    .option('--cc <email>', 'Additional CC recipient')
+    .option('--bcc <email>', 'BCC recipient')
+    .option('--html', 'Treat body as HTML')
+    .option('--no-quote', 'Do not quote the original message')
+    .option('--attach <path>', 'Attach a file or glob (repeatable)', collect, [])
+    .option('--signature <nameOrId>', 'Signature to append (default: the account default)')
+    .option('--no-signature', 'Do not append a signature')
+    .action(async (ref, options) => {
+      await requireAuth();
       const accountId = await ensureAccountId();
 
-      const spinner = ora('Marking as spam...').start();
-
+      let body: string;
+      let files: LocalAttachment[];
       try {
-        await updateMessage(accountId, messageId, { mode: 'spam' });
-        spinner.succeed('Marked as spam');
+        files = await collectAttachments(options.attach);
+        body = await readBody(options) ?? '';
+        // The reply is written in an editor when there is no body, so that needs a terminal
+        if ((!body || options.edit) && !isInteractive()) {
+          throw new ValidationError(body ? '--edit needs a terminal' : '--body is required', {
+            hint: 'Pass --body (or --body-file), or run in a terminal to write the reply in $EDITOR',
+          });
+        }
       } catch (err) {
-        spinner.fail('Failed to mark as spam');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
-    });
 
-  mail
-    .command('unspam')
-    .description('Mark email as not spam')
-    .argument('<messageId>', 'Message ID')
-    .action(async (messageId) => {
-      requireAuth();
-      const accountId = await ensureAccountId();
-
-      const spinner = ora('Unmarking spam...').start();
+      const spinner = ora('Fetching original email...').start();
 
       try {
-        await updateMessage(accountId, messageId, { mode: 'notSpam' });
-        spinner.succeed('Unmarked as spam');
-      } catch (err) {
-        spinner.fail('Failed to unmark spam');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
-        process.exit(1);
-      }
-    });
+        const { messageId, folderId } = await locateMessage(accountId, ref, options.folder, spinner);
+        const [details, original, accounts] = await Promise.all([
+          getEmailDetails(accountId, folderId, messageId),
+          getEmailContent(accountId, folderId, messageId),
+          getAccounts(),
+        ]);
 
-  mail
-    .command('mark-read')
-    .description('Mark email as read')
-    .argument('<messageId>', 'Message ID')
-    .action(async (messageId) => {
-      requireAuth();
-      const accountId = await ensureAccountId();
+        const recipients = computeReplyRecipients(
+          details,
+          accounts.map(a => a.emailAddress),
+          !!options.all
+        );
+        if (recipients.to.length === 0) {
+          throw new Error('The original email has no sender to reply to');
+        }
+        let draft: Draft = {
+          to: formatAddressList(recipients.to),
+          cc: [formatAddressList(recipients.cc), options.cc].filter(Boolean).join(', '),
+          bcc: options.bcc || '',
+          subject: replySubject(details.subject),
+          body,
+        };
+        const quote = options.quote ? quoteOriginal({ ...details, content: original.content }, !!options.html) : '';
 
-      const spinner = ora('Marking as read...').start();
+        spinner.stop();
+        let content: string;
+        if (!draft.body || options.edit) {
+          const composed = await composeInEditor(draft, files, options, quote);
+          if (!composed) {
+            info('Not sent');
+            return;
+          }
+          ({ draft, content } = composed);
+        } else {
+          content = await signBody(draft.body, !!options.html, options.signature) + quote;
+        }
 
-      try {
-        await updateMessage(accountId, messageId, { mode: 'markAsRead' });
-        spinner.succeed('Marked as read');
+        spinner.start();
+        const attachments = await uploadFiles(accountId, files, spinner);
+        spinner.text = `Replying to ${draft.to}...`;
+
+        await replyToEmail(accountId, messageId, 'reply', {
+          to: draft.to,
+          cc: draft.cc || undefined,
+          bcc: draft.bcc || undefined,
+          subject: draft.subject,
+          content,
+          isHtml: options.html,
+          attachments,
+        });
+
+        spinner.succeed('Reply sent!');
       } catch (err) {
-        spinner.fail('Failed to mark as read');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        spinner.fail('Failed to send reply');
+        reportError(err);
         process.exit(1);
       }
     });
 
   mail
-    .command('mark-unread')
-    .description('Mark email as unread')
-    .argument('<messageId>', 'Message ID')
-    .action(async (messageId) => {
-      requireAuth();
+    .command('forward')
+    .description('Forward an email with its attachments')
+    .argument('<messageId>', 'Message ID, or a handle (#) from the last listing')
+    .option('--to <email>', 'Recipient email address (required)')
+    .option('--cc <email>', 'CC recipient')
+    .option('--bcc <email>', 'BCC recipient')
+    .option('--body <text>', 'Note to add above the forwarded message, or - to read it from stdin')
+    .option('--body-file <path>', 'Read the note from a file (- for stdin)')
+    .option('--edit', 'Write the note in $EDITOR even when --to is given')
+    .option('--folder <folder>', 'Folder containing the email (default: found automatically)')
+    .option('--html', 'Treat body as HTML')
+    .option('--no-attachments', 'Do not include the original attachments')
+    .option('--attach <path>', 'Attach another file or glob (repeatable)', collect, [])
+    .option('--signature <nameOrId>', 'Signature to append (default: the account default)')
+    .option('--no-signature', 'Do not append a signature')
+    .action(async (ref, options) => {
+      await requireAuth();
       const accountId = await ensureAccountId();
 
-      const spinner = ora('Marking as unread...').start();
-
+      let body: string;
+      let files: LocalAttachment[];
       try {
-        await updateMessage(accountId, messageId, { mode: 'markAsUnread' });
-        spinner.succeed('Marked as unread');
+        files = await collectAttachments(options.attach);
+        body = await readBody(options) ?? '';
+        // A missing recipient is filled in with an editor, when there is a terminal to run one in
+        if ((!options.to || options.edit) && !isInteractive()) {
+          throw new ValidationError(options.to ? '--edit needs a terminal' : '--to is required', {
+            hint: 'Pass --to, or run in a terminal to write the forward in $EDITOR',
+          });
+        }
       } catch (err) {
-        spinner.fail('Failed to mark as unread');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        reportError(err);
         process.exit(1);
       }
-    });
 
-  mail
-    .command('label')
-    .description('Apply label to email')
-    .argument('<messageId>', 'Message ID')
-    .argument('<labelId>', 'Label ID')
-    .action(async (messageId, labelId) => {
-      requireAuth();
-      const accountId = await ensureAccountId();
-
-      const spinner = ora('Applying label...').start();
+      const spinner = ora('Fetching original email...').start();
 
       try {
-        await updateMessage(accountId, messageId, { mode: 'addTag', tagId: labelId });
-        spinner.succeed('Label applied');
+        const { messageId, folderId } = await locateMessage(accountId, ref, options.folder, spinner);
+        const [details, original] = await Promise.all([
+          getEmailDetails(accountId, folderId, messageId),
+          getEmailContent(accountId, folderId, messageId),
+        ]);
+
+        let draft: Draft = {
+          to: options.to || '',
+          cc: options.cc || '',
+          bcc: options.bcc || '',
+          subject: forwardSubject(details.subject),
+          body,
+        };
+        const forwarded = forwardedBlock({ ...details, content: original.content }, !!options.html);
+
+        spinner.stop();
+        let content: string;
+        if (!draft.to || options.edit) {
+          const composed = await composeInEditor(draft, files, options, forwarded);
+          if (!composed) {
+            info('Not sent');
+            return;
+          }
+          ({ draft, content } = composed);
+        } else {
+          content = await signBody(draft.body, !!options.html, options.signature) + forwarded;
+        }
+
+        spinner.start();
+        // Re-upload the original attachments, now that the forward is going out
+        const attachments: ZohoUploadedAttachment[] = [];
+        const hasAttachment = details.hasAttachment === true || details.hasAttachment === '1';
+        if (options.attachments && hasAttachment) {
+          const info = await getAttachmentInfo(accountId, folderId, messageId);
+          for (const attachment of info.attachments) {
+            spinner.text = `Attaching ${attachment.attachmentName}...`;
+            const data = await downloadAttachment(accountId, folderId, messageId, attachment.attachmentId);
+            attachments.push(await uploadAttachment(accountId, attachment.attachmentName, data));
+          }
+        }
+        attachments.push(...await uploadFiles(accountId, files, spinner));
+        spinner.text = `Forwarding to ${draft.to}...`;
+
+        await replyToEmail(accountId, messageId, 'forward', {
+          to: draft.to,
+          cc: draft.cc || undefined,
+          bcc: draft.bcc || undefined,
+          subject: draft.subject,
+          content,
+          isHtml: options.html,
+          attachments,
+        });
+
+        const suffix = attachments.length ? ` with ${attachments.length} attachment(s)` : '';
+        spinner.succeed(`Email forwarded${suffix}!`);
       } catch (err) {
-        spinner.fail('Failed to apply label');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        spinner.fail('Failed to forward email');
+        reportError(err);
         process.exit(1);
       }
     });
 
+  for (const spec of BULK_UPDATES) {
+    registerBulkUpdate(mail, spec);
+  }
+
   mail
-    .command('unlabel')
-    .description('Remove label from email')
-    .argument('<messageId>', 'Message ID')
-    .argument('<labelId>', 'Label ID')
-    .action(async (messageId, labelId) => {
-      requireAuth();
+    .command('delete')
+    .description('Delete emails')
+    .argument('[messageIds...]', 'Message IDs or handles, or - to read them from stdin')
+    .option('--query <search>', 'Delete every message matching a search')
+    .option('--folder <folder>', 'Folder containing the emails (with no IDs or --query: every message in it)')
+    .option('--force', 'Skip confirmation')
+    .option('--json', 'Output a per-message report as JSON')
+    .option('--format <format>', `Per-message report format: ${FORMAT_HELP}`)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (messageIds: string[], options) => {
+      await requireAuth();
       const accountId = await ensureAccountId();
 
-      const spinner = ora('Removing label...').start();
+      const spinner = ora('Selecting emails...').start();
 
       try {
-        await updateMessage(accountId, messageId, { mode: 'removeTag', tagId: labelId });
-        spinner.succeed('Label removed');
+        const format = parseFormat(options);
+        checkBulkFormat(format);
+        const targets = await selectMessages(accountId, {
+          ids: messageIds,
+          query: options.query,
+          folderId: options.folder ? await resolveFolderId(accountId, options.folder) : undefined,
+        });
+        if (targets.length === 0) {
+          spinner.info('No matching emails');
+          return;
+        }
+
+        if (!options.force) {
+          spinner.stop();
+          if (targets.length === 1) {
+            warn(`About to delete email: ${targets[0].messageId}`);
+          } else {
+            warn(`About to delete ${targets.length} emails:`);
+            console.log(targets.map(t => `  ${t.messageId}`).join('\n'));
+          }
+          console.log('Run with --force to confirm.');
+          return;
+        }
+
+        spinner.text = 'Deleting emails...';
+        const outcomes = await deleteEach(accountId, targets, undefined, (done, total) => {
+          spinner.text = `Deleting emails... ${done}/${total}`;
+        });
+        reportBulk(spinner, outcomes, 'Deleted', format);
       } catch (err) {
-        spinner.fail('Failed to remove label');
-        const message = err instanceof Error ? err.message : String(err);
-        error(message);
+        spinner.fail('Failed to delete email');
+        reportError(err);
         process.exit(1);
       }
     });
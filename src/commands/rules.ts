@@ -0,0 +1,126 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { dirname, join } from 'path';
+import { getConfigPath } from '../lib/config.js';
+import { ensureAccountId, requireAuth } from '../lib/account.js';
+import { getLabels } from '../lib/client.js';
+import { resolveFolderId } from '../lib/folders.js';
+import {
+  loadRules,
+  resolveRuleLabels,
+  resolveRuleFolders,
+  rulesUseLabels,
+  planRules,
+  applyRuleHits,
+  fetchRuleCandidates,
+  loadCursor,
+  saveCursor,
+  parseDuration,
+} from '../lib/rules.js';
+import { ValidationError } from '../lib/errors.js';
+import { formatRuleHits, checkRuleFormat, reportError } from '../lib/output.js';
+import { FIELDS_OPTION, FORMAT_OPTION, isHumanFormat, parseFormat } from '../lib/format.js';
+
+/**
+ * `--since` with no value means "since the last run"; otherwise a
+ * duration (2d) or a date
+ */
+function parseSince(value: string | true | undefined): number | 'cursor' | undefined {
+  if (value === undefined) return undefined;
+  if (value === true) return 'cursor';
+  const duration = parseDuration(value);
+  if (duration !== undefined) return Date.now() - duration;
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    throw new ValidationError(`Invalid --since "${value}"`, {
+      hint: 'Use a duration like 12h or 7d, a date like 2026-01-31, or no value for "since the last run"',
+    });
+  }
+  return date;
+}
+
+export function registerRulesCommands(program: Command): void {
+  const rules = program
+    .command('rules')
+    .description('Local triage rules');
+
+  rules
+    .command('run')
+    .description('Apply a rules file to a folder')
+    .option('-f, --file <path>', 'Rules file, YAML or JSON (default: rules.yaml next to the config)')
+    .option('--folder <folder>', 'Folder to triage (default: Inbox)')
+    .option('--since [when]', 'Only messages since the last run, or since a duration (12h, 7d) or date')
+    .option('--dry-run', 'Show which rule would hit which message without changing anything')
+    .option('--json', 'Output as JSON')
+    .option('--format <format>', FORMAT_OPTION)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (options) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Loading rules...').start();
+
+      try {
+        const format = parseFormat(options);
+        checkRuleFormat(format);
+        const file = options.file || join(dirname(getConfigPath()), 'rules.yaml');
+        let ruleList = await loadRules(file);
+        const since = parseSince(options.since);
+
+        spinner.text = 'Fetching messages...';
+        const folderId = await resolveFolderId(accountId, options.folder || 'inbox');
+        ruleList = await resolveRuleFolders(ruleList, selector => resolveFolderId(accountId, selector));
+        if (rulesUseLabels(ruleList)) {
+          ruleList = resolveRuleLabels(ruleList, await getLabels(accountId));
+        }
+
+        const emails = await fetchRuleCandidates(
+          accountId,
+          folderId,
+          since === 'cursor' ? await loadCursor(accountId, folderId) : since
+        );
+        const hits = planRules(ruleList, emails);
+
+        if (options.dryRun) {
+          spinner.stop();
+          console.log(formatRuleHits(hits, undefined, format));
+          if (isHumanFormat(format)) {
+            console.log(chalk.gray(`${hits.length} of ${emails.length} message(s) matched (dry run, nothing changed)`));
+          }
+          return;
+        }
+
+        const results = await applyRuleHits(accountId, hits, folderId, (done, total) => {
+          spinner.text = `Applying rules... ${done}/${total}`;
+        });
+        const failed = results.filter(r => !r.ok).length;
+        // Leave the cursor alone after failures so the next --since run sees those messages again
+        if (!failed) {
+          await saveCursor(accountId, folderId, emails);
+        }
+
+        if (!isHumanFormat(format)) {
+          spinner.stop();
+          console.log(formatRuleHits(hits, results, format));
+        } else {
+          const summary = `${hits.length} of ${emails.length} message(s) matched, ${results.length - failed} action(s) applied`;
+          if (failed) {
+            spinner.warn(`${summary}, ${failed} failed`);
+          } else {
+            spinner.succeed(summary);
+          }
+          if (hits.length) {
+            console.log(formatRuleHits(hits, results, format));
+          }
+        }
+        if (failed) {
+          process.exit(1);
+        }
+      } catch (err) {
+        spinner.fail('Rules run failed');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+}
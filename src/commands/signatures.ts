@@ -0,0 +1,161 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { readFile } from 'fs/promises';
+import { requireAuth } from '../lib/account.js';
+import {
+  getSignatures,
+  createSignature,
+  updateSignature,
+  deleteSignature,
+} from '../lib/client.js';
+import { isHtml } from '../lib/html.js';
+import { formatSignatures, error, warn, reportError } from '../lib/output.js';
+import { FIELDS_OPTION, FORMAT_OPTION, isHumanFormat, parseFormat } from '../lib/format.js';
+
+/**
+ * Signature content from --content or --file
+ */
+async function readContent(options: { content?: string; file?: string }): Promise<string | undefined> {
+  if (options.file) {
+    return readFile(options.file, 'utf-8');
+  }
+  return options.content;
+}
+
+export function registerSignaturesCommands(program: Command): void {
+  const signatures = program
+    .command('signatures')
+    .description('Manage email signatures');
+
+  signatures
+    .command('list')
+    .description('List all signatures')
+    .option('--json', 'Output as JSON')
+    .option('--format <format>', FORMAT_OPTION)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (options) => {
+      await requireAuth();
+
+      const spinner = ora('Fetching signatures...').start();
+
+      try {
+        const format = parseFormat(options);
+        const signatureList = await getSignatures();
+        spinner.stop();
+
+        if (signatureList.length === 0 && isHumanFormat(format)) {
+          console.log(chalk.gray('No signatures found'));
+        } else {
+          console.log(formatSignatures(signatureList, format));
+        }
+      } catch (err) {
+        spinner.fail('Failed to fetch signatures');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  signatures
+    .command('create')
+    .description('Create a new signature')
+    .argument('<name>', 'Signature name')
+    .option('--content <text>', 'Signature content (HTML or plain text)')
+    .option('--file <path>', 'Read signature content from a file')
+    .option('--text', 'Content is plain text (default: detected)')
+    .option('--default', 'Make this the default signature')
+    .option('--json', 'Output as JSON')
+    .action(async (name, options) => {
+      await requireAuth();
+
+      const content = await readContent(options);
+      if (!content) {
+        error('--content or --file is required');
+        process.exit(1);
+      }
+
+      const spinner = ora(`Creating signature "${name}"...`).start();
+
+      try {
+        const signature = await createSignature({
+          name,
+          content,
+          mode: options.text || !isHtml(content) ? 'plaintext' : 'html',
+          isDefault: options.default,
+        });
+        spinner.succeed(`Created signature: ${signature.signatureName}`);
+
+        if (options.json) {
+          console.log(JSON.stringify(signature, null, 2));
+        } else {
+          console.log(`  ${chalk.gray('Signature ID:')} ${signature.signatureId}`);
+        }
+      } catch (err) {
+        spinner.fail('Failed to create signature');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  signatures
+    .command('update')
+    .description('Update a signature')
+    .argument('<signatureId>', 'Signature ID')
+    .option('--name <name>', 'New signature name')
+    .option('--content <text>', 'New signature content')
+    .option('--file <path>', 'Read new signature content from a file')
+    .option('--text', 'Content is plain text (default: detected)')
+    .option('--default', 'Make this the default signature')
+    .action(async (signatureId, options) => {
+      await requireAuth();
+
+      const content = await readContent(options);
+      if (!options.name && content === undefined && !options.default) {
+        error('Provide at least --name, --content/--file or --default to update');
+        process.exit(1);
+      }
+
+      const spinner = ora('Updating signature...').start();
+
+      try {
+        const signature = await updateSignature(signatureId, {
+          name: options.name,
+          content,
+          mode: content === undefined ? undefined : options.text || !isHtml(content) ? 'plaintext' : 'html',
+          isDefault: options.default ? true : undefined,
+        });
+        spinner.succeed(`Signature updated: ${signature.signatureName}`);
+      } catch (err) {
+        spinner.fail('Failed to update signature');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  signatures
+    .command('delete')
+    .description('Delete a signature')
+    .argument('<signatureId>', 'Signature ID to delete')
+    .option('--force', 'Skip confirmation')
+    .action(async (signatureId, options) => {
+      await requireAuth();
+
+      if (!options.force) {
+        warn(`About to delete signature: ${signatureId}`);
+        console.log();
+        console.log('Run with --force to confirm.');
+        return;
+      }
+
+      const spinner = ora('Deleting signature...').start();
+
+      try {
+        await deleteSignature(signatureId);
+        spinner.succeed('Signature deleted');
+      } catch (err) {
+        spinner.fail('Failed to delete signature');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+}
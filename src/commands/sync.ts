@@ -0,0 +1,72 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ensureAccountId, requireAuth } from '../lib/account.js';
+import { getLabels } from '../lib/client.js';
+import { findFolder, refreshFolders } from '../lib/folders.js';
+import { getStoreDir, saveLabels } from '../lib/store.js';
+import { syncFolder, type SyncResult } from '../lib/sync.js';
+import { formatSyncResults, checkSyncFormat, error, reportError } from '../lib/output.js';
+import { FIELDS_OPTION, FORMAT_OPTION, isHumanFormat, parseFormat } from '../lib/format.js';
+
+export function registerSyncCommands(program: Command): void {
+  program
+    .command('sync')
+    .description('Update the local mailbox cache used by --offline')
+    .option('--folder <folder>', 'Only sync this folder (default: every folder)')
+    .option('--full', 'Re-fetch whole folders, dropping messages removed on the server')
+    .option('--bodies', 'Also download message bodies for full-text search')
+    .option('--max <number>', 'Fetch at most this many messages per folder')
+    .option('--json', 'Output as JSON')
+    .option('--format <format>', FORMAT_OPTION)
+    .option('--fields <fields>', FIELDS_OPTION)
+    .action(async (options) => {
+      const max = options.max !== undefined ? Number(options.max) : undefined;
+      if (max !== undefined && (!Number.isInteger(max) || max < 1)) {
+        error(`Invalid --max "${options.max}" (expected a whole number from 1)`);
+        process.exit(1);
+      }
+
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Fetching folders...').start();
+
+      try {
+        const format = parseFormat(options);
+        checkSyncFormat(format);
+        const folders = await refreshFolders(accountId);
+        // For label: in offline searches
+        await saveLabels(accountId, await getLabels(accountId));
+        const targets = options.folder ? [findFolder(folders, options.folder)] : folders;
+
+        const results: SyncResult[] = [];
+        for (const folder of targets) {
+          const name = folder.path || folder.folderName;
+          spinner.text = `Syncing ${name}...`;
+          results.push(await syncFolder(accountId, folder, {
+            full: options.full,
+            bodies: options.bodies,
+            max,
+            onProgress: (fetched) => {
+              spinner.text = `Syncing ${name}... ${fetched} message(s)`;
+            },
+          }));
+        }
+
+        const added = results.reduce((sum, r) => sum + r.added, 0);
+        if (!isHumanFormat(format)) {
+          spinner.stop();
+          console.log(formatSyncResults(results, format));
+        } else {
+          spinner.succeed(`Synced ${results.length} folder(s), ${added} new message(s)`);
+          console.log(formatSyncResults(results, format));
+          console.log(chalk.gray(`Cache: ${getStoreDir(accountId)}`));
+        }
+      } catch (err) {
+        spinner.fail('Sync failed');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,241 @@
+import { Command } from 'commander';
+import ora from 'ora';
+import { ensureAccountId, requireAuth } from '../lib/account.js';
+import {
+  getThreadEmails,
+  getEmailContent,
+  updateThread,
+} from '../lib/client.js';
+import { resolveFolderId } from '../lib/folders.js';
+import { formatThread, error, reportError } from '../lib/output.js';
+
+export function registerThreadsCommands(program: Command): void {
+  const threads = program
+    .command('threads')
+    .description('Conversation (thread) operations');
+
+  threads
+    .command('show')
+    .description('Show every message in a thread, oldest first')
+    .argument('<threadId>', 'Thread ID')
+    .option('--folder <folder>', 'Only messages in this folder')
+    .option('--full', 'Show quoted reply history instead of collapsing it')
+    .option('--json', 'Output as JSON')
+    .action(async (threadId, options) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Fetching thread...').start();
+
+      try {
+        const folderId = options.folder ? await resolveFolderId(accountId, options.folder) : undefined;
+        const emails = await getThreadEmails(accountId, threadId, { folderId });
+        if (emails.length === 0) {
+          spinner.stop();
+          error(`No messages found in thread ${threadId}`);
+          process.exit(1);
+        }
+
+        // One at a time, so a long thread does not flood the API
+        const withContent = [];
+        for (const [index, email] of emails.entries()) {
+          spinner.text = `Fetching message ${index + 1}/${emails.length}...`;
+          const { content } = await getEmailContent(accountId, email.folderId, email.messageId);
+          withContent.push({ ...email, content });
+        }
+        spinner.stop();
+
+        console.log(formatThread(withContent, options.json, { full: options.full }));
+      } catch (err) {
+        spinner.fail('Failed to fetch thread');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  threads
+    .command('move')
+    .description('Move thread to folder')
+    .argument('<threadId>', 'Thread ID')
+    .argument('<folder>', 'Target folder ID, name or path')
+    .action(async (threadId, folder) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Moving thread...').start();
+
+      try {
+        await updateThread(accountId, threadId, {
+          mode: 'moveToFolder',
+          folderId: await resolveFolderId(accountId, folder),
+        });
+        spinner.succeed('Thread moved');
+      } catch (err) {
+        spinner.fail('Failed to move thread');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  threads
+    .command('flag')
+    .description('Flag every message in a thread')
+    .argument('<threadId>', 'Thread ID')
+    .action(async (threadId) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Flagging thread...').start();
+
+      try {
+        await updateThread(accountId, threadId, { mode: 'addFlag' });
+        spinner.succeed('Thread flagged');
+      } catch (err) {
+        spinner.fail('Failed to flag thread');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  threads
+    .command('unflag')
+    .description('Remove flag from a thread')
+    .argument('<threadId>', 'Thread ID')
+    .action(async (threadId) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Removing flag...').start();
+
+      try {
+        await updateThread(accountId, threadId, { mode: 'removeFlag' });
+        spinner.succeed('Flag removed');
+      } catch (err) {
+        spinner.fail('Failed to remove flag');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  threads
+    .command('label')
+    .description('Apply label to a thread')
+    .argument('<threadId>', 'Thread ID')
+    .argument('<labelId>', 'Label ID')
+    .action(async (threadId, labelId) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Applying label...').start();
+
+      try {
+        await updateThread(accountId, threadId, { mode: 'addTag', tagId: labelId });
+        spinner.succeed('Label applied');
+      } catch (err) {
+        spinner.fail('Failed to apply label');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  threads
+    .command('unlabel')
+    .description('Remove label from a thread')
+    .argument('<threadId>', 'Thread ID')
+    .argument('<labelId>', 'Label ID')
+    .action(async (threadId, labelId) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Removing label...').start();
+
+      try {
+        await updateThread(accountId, threadId, { mode: 'removeTag', tagId: labelId });
+        spinner.succeed('Label removed');
+      } catch (err) {
+        spinner.fail('Failed to remove label');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  threads
+    .command('read')
+    .description('Mark thread as read')
+    .argument('<threadId>', 'Thread ID')
+    .action(async (threadId) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Marking as read...').start();
+
+      try {
+        await updateThread(accountId, threadId, { mode: 'markAsRead' });
+        spinner.succeed('Thread marked as read');
+      } catch (err) {
+        spinner.fail('Failed to mark as read');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  threads
+    .command('unread')
+    .description('Mark thread as unread')
+    .argument('<threadId>', 'Thread ID')
+    .action(async (threadId) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Marking as unread...').start();
+
+      try {
+        await updateThread(accountId, threadId, { mode: 'markAsUnread' });
+        spinner.succeed('Thread marked as unread');
+      } catch (err) {
+        spinner.fail('Failed to mark as unread');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  threads
+    .command('spam')
+    .description('Mark thread as spam')
+    .argument('<threadId>', 'Thread ID')
+    .action(async (threadId) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Marking as spam...').start();
+
+      try {
+        await updateThread(accountId, threadId, { mode: 'spam' });
+        spinner.succeed('Thread marked as spam');
+      } catch (err) {
+        spinner.fail('Failed to mark as spam');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+
+  threads
+    .command('unspam')
+    .description('Mark thread as not spam')
+    .argument('<threadId>', 'Thread ID')
+    .action(async (threadId) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      const spinner = ora('Unmarking spam...').start();
+
+      try {
+        await updateThread(accountId, threadId, { mode: 'notSpam' });
+        spinner.succeed('Thread unmarked as spam');
+      } catch (err) {
+        spinner.fail('Failed to unmark spam');
+        reportError(err);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,23 @@
+import { Command } from 'commander';
+import { getConfig } from '../lib/config.js';
+import { ensureAccountId, requireAuth } from '../lib/account.js';
+import { runTui } from '../lib/tui.js';
+import { reportError } from '../lib/output.js';
+
+export function registerTuiCommands(program: Command): void {
+  program
+    .command('tui')
+    .description('Browse mail full-screen: folders, messages and a reading pane, with vim-style keys')
+    .argument('[folder]', 'Folder to open first: ID, name, path or type (default: Inbox)')
+    .action(async (folder) => {
+      await requireAuth();
+      const accountId = await ensureAccountId();
+
+      try {
+        await runTui(accountId, { folder: folder || getConfig().defaultFolder });
+      } catch (err) {
+        reportError(err);
+        process.exit(1);
+      }
+    });
+}
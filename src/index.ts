@@ -6,6 +6,14 @@ import { registerAuthCommands } from './commands/auth.js';
 import { registerFoldersCommands } from './commands/folders.js';
 import { registerLabelsCommands } from './commands/labels.js';
 import { registerMailCommands } from './commands/mail.js';
+import { registerThreadsCommands } from './commands/threads.js';
+import { registerSignaturesCommands } from './commands/signatures.js';
+import { registerSyncCommands } from './commands/sync.js';
+import { registerExportCommands } from './commands/export.js';
+import { registerRulesCommands } from './commands/rules.js';
+import { registerTuiCommands } from './commands/tui.js';
+import { error } from './lib/output.js';
+import { getActiveProfile, profileExists, DEFAULT_PROFILE } from './lib/config.js';
 
 const program = new Command();
 
@@ -19,15 +27,38 @@ registerAuthCommands(program);
 registerFoldersCommands(program);
 registerLabelsCommands(program);
 registerMailCommands(program);
+registerThreadsCommands(program);
+registerSignaturesCommands(program);
+registerSyncCommands(program);
+registerExportCommands(program);
+registerRulesCommands(program);
+registerTuiCommands(program);
 
 // Global options
 program.option('--debug', 'Enable debug mode');
+program.option('--profile <name>', 'Config profile to use (default: the one set with `auth use`)');
+program.option('--account <idOrEmail>', 'Mail account to act on (account ID or email address)');
 
-// Parse and handle debug mode
-program.hook('preAction', (thisCommand) => {
-  if (thisCommand.opts().debug) {
+// Parse and handle global options
+program.hook('preAction', (thisCommand, actionCommand) => {
+  const opts = thisCommand.opts();
+  if (opts.debug) {
     process.env.ZOHO_DEBUG = '1';
   }
+  if (opts.profile) {
+    process.env.ZOHO_PROFILE = opts.profile;
+  }
+  if (opts.account) {
+    process.env.ZOHO_ACCOUNT = opts.account;
+  }
+
+  // Only auth commands may create a profile; elsewhere a typo must not run against defaults
+  const profile = getActiveProfile();
+  if (actionCommand.parent?.name() !== 'auth' && profile !== DEFAULT_PROFILE && !profileExists(profile)) {
+    error(`Unknown profile "${profile}"`);
+    console.log(`  Run ${chalk.cyan('zoho-mail auth profiles')} to list profiles`);
+    process.exit(1);
+  }
 });
 
 // Add help text
@@ -39,6 +70,12 @@ ${chalk.cyan('Examples:')}
   zoho-mail mail search "invoice"  Search for emails
   zoho-mail folders list           List all folders
   zoho-mail labels list            List all labels
+  zoho-mail threads show <id>      Read a whole conversation
+  zoho-mail sync                   Cache mail locally for --offline
+  zoho-mail export --out backup    Back up every folder as mbox
+  zoho-mail rules run --dry-run    Preview local triage rules
+  zoho-mail tui                    Browse mail full-screen
+  zoho-mail --profile support mail list   Use another profile
 
 ${chalk.gray('For more info: https://github.com/Versatly/zoho-mail-cli')}
 `);
@@ -0,0 +1,46 @@
+import chalk from 'chalk';
+import { getConfig, setConfig } from './config.js';
+import { hasCredentials } from './auth.js';
+import { getAccountId, getTransportName } from './client.js';
+import { error, reportError } from './output.js';
+
+/**
+ * The checks every API command starts with: that there are credentials,
+ * and which mail account to act on. Both exit the process on failure.
+ */
+
+export async function requireAuth(): Promise<void> {
+  if (!(await hasCredentials(getTransportName()))) {
+    error('Not connected to Zoho Mail');
+    console.log(`  Run ${chalk.cyan('zoho-mail auth login')} to connect`);
+    process.exit(1);
+  }
+}
+
+/**
+ * The account ID to act on: --account (an ID or email address), else the
+ * profile's account, else the first account, which is then remembered
+ */
+export async function ensureAccountId(): Promise<string> {
+  const config = getConfig();
+  const selector = process.env.ZOHO_ACCOUNT;
+  if (selector && /^\d+$/.test(selector)) {
+    return selector;
+  }
+  if (!selector && config.accountId) {
+    return config.accountId;
+  }
+
+  try {
+    const accountId = await getAccountId(selector);
+    if (!selector) {
+      setConfig({ accountId });
+    }
+    return accountId;
+  } catch (err) {
+    error('Could not detect account ID');
+    reportError(err);
+    console.log(`  Run ${chalk.cyan('zoho-mail auth set-account <accountId>')} to set it manually`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,213 @@
+import { readdir, readFile, stat, writeFile, mkdir } from 'fs/promises';
+import { basename, dirname, join, resolve, sep } from 'path';
+import { ValidationError } from './errors.js';
+
+/** Zoho Mail rejects single attachments above 20 MB */
+const DEFAULT_MAX_ATTACHMENT_MB = 20;
+
+export interface LocalAttachment {
+  path: string;
+  name: string;
+  size: number;
+}
+
+/**
+ * Upload size cap in bytes; ZOHO_MAX_ATTACHMENT_MB overrides it for
+ * plans with a different limit
+ */
+export function getMaxAttachmentSize(): number {
+  const mb = parseFloat(process.env.ZOHO_MAX_ATTACHMENT_MB || '') || DEFAULT_MAX_ATTACHMENT_MB;
+  return Math.floor(mb * 1024 * 1024);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function hasGlob(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+function segmentToRegExp(segment: string): RegExp {
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = segment.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${segment.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  // Like shells, wildcards don't match dotfiles unless the pattern does
+  return new RegExp(`^${segment.startsWith('.') ? '' : '(?!\\.)'}${source}$`);
+}
+
+/**
+ * Expand `*`, `?`, `[...]` and `**` against the filesystem
+ */
+async function glob(pattern: string): Promise<string[]> {
+  const segments = pattern.split(/[\\/]+/);
+  const fixed: string[] = [];
+  while (segments.length && !hasGlob(segments[0])) {
+    fixed.push(segments.shift()!);
+  }
+  const root = fixed.length ? fixed.join(sep) || sep : '.';
+
+  const walk = async (dir: string, rest: string[]): Promise<string[]> => {
+    if (rest.length === 0) return [dir];
+    const [segment, ...remaining] = rest;
+
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    if (segment === '**') {
+      const matches = await walk(dir, remaining);
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          matches.push(...await walk(join(dir, entry.name), rest));
+        }
+      }
+      return matches;
+    }
+
+    const regexp = segmentToRegExp(segment);
+    const matches: string[] = [];
+    for (const entry of entries) {
+      if (!regexp.test(entry.name)) continue;
+      if (remaining.length && !entry.isDirectory()) continue;
+      matches.push(...await walk(join(dir, entry.name), remaining));
+    }
+    return matches;
+  };
+
+  const matches = await walk(root, segments);
+  return [...new Set(matches)].sort();
+}
+
+/**
+ * Resolve --attach arguments (paths or globs) to files, checking the size
+ * cap and that no two files would arrive with the same name
+ */
+export async function collectAttachments(patterns: string[]): Promise<LocalAttachment[]> {
+  const paths: string[] = [];
+  for (const pattern of patterns) {
+    if (!hasGlob(pattern)) {
+      paths.push(pattern);
+      continue;
+    }
+    const matches = await glob(pattern);
+    if (matches.length === 0) {
+      throw new ValidationError(`No files match "${pattern}"`, {
+        hint: 'Quote the pattern so the CLI expands it, e.g. --attach "reports/*.pdf"',
+      });
+    }
+    paths.push(...matches);
+  }
+
+  const maxSize = getMaxAttachmentSize();
+  const byName = new Map<string, LocalAttachment>();
+  const attachments: LocalAttachment[] = [];
+
+  for (const path of paths) {
+    const absolute = resolve(path);
+    let info;
+    try {
+      info = await stat(absolute);
+    } catch {
+      throw new ValidationError(`Attachment not found: ${path}`);
+    }
+    if (!info.isFile()) {
+      throw new ValidationError(`Attachment is not a file: ${path}`, {
+        hint: `Attach the files inside it with --attach "${join(path, '*')}"`,
+      });
+    }
+    if (info.size > maxSize) {
+      throw new ValidationError(
+        `${path} is ${formatBytes(info.size)}, over the ${formatBytes(maxSize)} attachment limit`,
+        { hint: 'Share large files with a link instead, or set ZOHO_MAX_ATTACHMENT_MB if your plan allows more' }
+      );
+    }
+
+    const name = basename(absolute);
+    const existing = byName.get(name.toLowerCase());
+    if (existing) {
+      // The same file given twice (e.g. by two globs) is fine
+      if (existing.path === absolute) continue;
+      throw new ValidationError(`Two attachments are named "${name}": ${existing.path} and ${absolute}`, {
+        hint: 'Rename one of the files; recipients would not be able to tell them apart',
+      });
+    }
+
+    const attachment = { path: absolute, name, size: info.size };
+    byName.set(name.toLowerCase(), attachment);
+    attachments.push(attachment);
+  }
+
+  return attachments;
+}
+
+export async function readAttachment(attachment: LocalAttachment): Promise<Buffer> {
+  return readFile(attachment.path);
+}
+
+/**
+ * Pick a file name in `dir` for a downloaded attachment. Names are reduced
+ * to their base name so a crafted attachment name can't escape `dir`;
+ * duplicates within one message get a " (2)" suffix.
+ */
+export function planDownloads(dir: string, names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map(original => {
+    const safe = basename(original.replace(/\\/g, '/')).replace(/^\.+$/, '') || 'attachment';
+    let candidate = safe;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const dot = safe.lastIndexOf('.');
+      candidate = dot > 0 ? `${safe.slice(0, dot)} (${n})${safe.slice(dot)}` : `${safe} (${n})`;
+    }
+    used.add(candidate.toLowerCase());
+    return join(dir, candidate);
+  });
+}
+
+/**
+ * Refuse to replace files that are already in the download directory
+ * unless `overwrite` is set; checked before anything is downloaded
+ */
+export async function checkDownloadTargets(paths: string[], overwrite: boolean): Promise<void> {
+  if (overwrite) return;
+  const existing: string[] = [];
+  for (const path of paths) {
+    try {
+      await stat(path);
+      existing.push(path);
+    } catch {
+      // free to write
+    }
+  }
+  if (existing.length) {
+    throw new ValidationError(`Already exists: ${existing.join(', ')}`, {
+      hint: 'Pass --overwrite to replace, or --save to a different directory',
+    });
+  }
+}
+
+export async function saveAttachment(path: string, content: Buffer): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content);
+}
@@ -1,5 +1,10 @@
-import { execSync } from 'child_process';
-import { getConfig } from './config.js';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getConfig, getTokens, setTokens, getActiveProfile } from './config.js';
+import { isTokenExpired, refreshTokens } from './oauth.js';
+import { AuthExpiredError } from './errors.js';
+
+const execFileAsync = promisify(execFile);
 
 interface PdauthStatus {
   user: string;
@@ -24,12 +29,11 @@ export function getPdauthUserId(): string {
   return config.userId || 'default';
 }
 
-export function checkZohoConnection(): PdauthAccount | null {
+export async function checkZohoConnection(): Promise<PdauthAccount | null> {
   const userId = getPdauthUserId();
   try {
-    const result = execSync(`pdauth status --user ${userId} --json 2>&1`, {
+    const { stdout: result } = await execFileAsync('pdauth', ['status', '--user', userId, '--json'], {
       encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
     });
     
     // Find the JSON block (skip the "- Fetching..." line and other output)
@@ -42,10 +46,10 @@ export function checkZohoConnection(): PdauthAccount | null {
   } catch (error) {
     // If --json doesn't work, try parsing non-JSON output
     try {
-      const result = execSync(`pdauth status --user ${userId} 2>&1`, {
+      const { stdout, stderr } = await execFileAsync('pdauth', ['status', '--user', userId], {
         encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'pipe'],
       });
+      const result = stdout + stderr;
       
       // Check if zoho_mail appears in the output
       if (result.includes('zoho_mail') && result.includes('healthy')) {
@@ -70,8 +74,8 @@ export function checkZohoConnection(): PdauthAccount | null {
   }
 }
 
-export function getZohoRegion(): string {
-  const account = checkZohoConnection();
+export async function getZohoRegion(): Promise<string> {
+  const account = await checkZohoConnection();
   if (!account?.app.customFieldsJson) {
     return 'zoho.com'; // Default to US
   }
@@ -88,12 +92,11 @@ export function getZohoRegion(): string {
   }
 }
 
-export function generateConnectLink(): string | null {
+export async function generateConnectLink(): Promise<string | null> {
   const userId = getPdauthUserId();
   try {
-    const result = execSync(`pdauth connect zoho_mail --user ${userId}`, {
+    const { stdout: result } = await execFileAsync('pdauth', ['connect', 'zoho_mail', '--user', userId], {
       encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
     });
     
     // Extract URL from output
@@ -104,15 +107,70 @@ export function generateConnectLink(): string | null {
   }
 }
 
-export function disconnectZoho(): boolean {
+export async function disconnectZoho(): Promise<boolean> {
   const userId = getPdauthUserId();
   try {
-    execSync(`pdauth disconnect zoho_mail --user ${userId} --force`, {
+    await execFileAsync('pdauth', ['disconnect', 'zoho_mail', '--user', userId, '--force'], {
       encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
     });
     return true;
   } catch (error) {
     return false;
   }
 }
+
+/**
+ * Access token used by the direct HTTPS transport.
+ * ZOHO_ACCESS_TOKEN wins; otherwise the stored native OAuth token is
+ * refreshed when it is about to expire.
+ */
+export async function getAccessToken(): Promise<string> {
+  if (process.env.ZOHO_ACCESS_TOKEN) {
+    return process.env.ZOHO_ACCESS_TOKEN;
+  }
+
+  const tokens = getTokens();
+  if (!tokens) {
+    throw new AuthExpiredError('Not logged in', {
+      hint: 'Run `zoho-mail auth login --native` or set ZOHO_ACCESS_TOKEN',
+    });
+  }
+  if (!isTokenExpired(tokens)) {
+    return tokens.accessToken;
+  }
+
+  try {
+    const refreshed = await refreshTokens(tokens);
+    setTokens(getActiveProfile(), refreshed);
+    return refreshed.accessToken;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new AuthExpiredError(message, {
+      cause: err,
+      hint: 'Run `zoho-mail auth login --native` to sign in again',
+    });
+  }
+}
+
+/**
+ * Force the stored access token to be refreshed on the next call.
+ * Returns false when there is nothing to refresh.
+ */
+export function invalidateAccessToken(): boolean {
+  const tokens = getTokens();
+  if (process.env.ZOHO_ACCESS_TOKEN || !tokens) {
+    return false;
+  }
+  setTokens(getActiveProfile(), { ...tokens, expiresAt: 0 });
+  return true;
+}
+
+/**
+ * Check that the configured transport has credentials to call the API
+ */
+export async function hasCredentials(transport: 'http' | 'pdauth'): Promise<boolean> {
+  if (transport === 'http') {
+    return !!(process.env.ZOHO_ACCESS_TOKEN || getTokens());
+  }
+  return (await checkZohoConnection()) !== null;
+}
@@ -0,0 +1,161 @@
+import { deleteEmail, emailPages, updateMessages, type MessageUpdate } from './client.js';
+import { ValidationError } from './errors.js';
+import { resolveMessageRef } from './handles.js';
+import { readStdin } from './input.js';
+import { rememberLocations, withMessageFolder } from './locate.js';
+import { prepareQuery, queryPages } from './query.js';
+import type { ZohoEmail } from '../types/zoho.js';
+
+/** Messages per updatemessage call */
+export const BATCH_SIZE = 50;
+
+export interface BulkTarget {
+  messageId: string;
+  /** Folder holding the message, when known (needed for delete) */
+  folderId?: string;
+}
+
+export interface BulkOutcome {
+  messageId: string;
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * One ID per line, or several separated by commas. Otherwise only the
+ * first word of a line counts, so `<id> <subject>` listings can be piped in
+ */
+export function parseIdList(text: string): string[] {
+  const ids = text
+    .split(/\r?\n/)
+    .flatMap(line => line.includes(',') ? line.split(',') : [line.trim().split(/\s+/)[0]])
+    .map(id => id.trim())
+    .filter(id => /^\d+$/.test(id));
+  return [...new Set(ids)];
+}
+
+/**
+ * Work out which messages a bulk command acts on: the IDs or listing
+ * handles given (with `-` reading more from stdin), every search match
+ * for `query`, or every message in `folderId`
+ */
+export async function selectMessages(
+  accountId: string,
+  selectors: { ids: string[]; query?: string; folderId?: string }
+): Promise<BulkTarget[]> {
+  if (selectors.ids.length) {
+    if (selectors.query) {
+      throw new ValidationError('Give message IDs or --query, not both');
+    }
+    const ids: string[] = [];
+    for (const id of selectors.ids) {
+      ids.push(...(id === '-' ? parseIdList(await readStdin()) : [id]));
+    }
+    const targets = new Map<string, BulkTarget>();
+    for (const ref of new Set(ids)) {
+      const message = await resolveMessageRef(accountId, ref);
+      targets.set(message.messageId, {
+        messageId: message.messageId,
+        folderId: selectors.folderId ?? message.folderId,
+      });
+    }
+    return [...targets.values()];
+  }
+
+  if (!selectors.query && !selectors.folderId) {
+    throw new ValidationError('No messages selected', {
+      hint: 'Pass message IDs or handles, `-` to read them from stdin, --query "<search>" or --folder <folder>',
+    });
+  }
+
+  let folderId = selectors.folderId;
+  let pages: AsyncIterable<ZohoEmail[]>;
+  if (selectors.query) {
+    const prepared = await prepareQuery(accountId, selectors.query, folderId);
+    folderId = prepared.folderId;
+    pages = queryPages(accountId, prepared.compiled, { folderId });
+  } else {
+    pages = emailPages(accountId, folderId!);
+  }
+  const targets: BulkTarget[] = [];
+  for await (const page of pages) {
+    targets.push(...page.map(e => ({ messageId: e.messageId, folderId: e.folderId || folderId })));
+  }
+  return targets;
+}
+
+function describe(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Apply an update in batches of BATCH_SIZE. When a batch is rejected the
+ * messages in it are retried one by one, so one bad ID only fails itself.
+ */
+export async function updateInBatches(
+  accountId: string,
+  targets: BulkTarget[],
+  action: MessageUpdate,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkOutcome[]> {
+  const outcomes: BulkOutcome[] = [];
+  for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+    const ids = targets.slice(i, i + BATCH_SIZE).map(t => t.messageId);
+    try {
+      await updateMessages(accountId, ids, action);
+      outcomes.push(...ids.map(messageId => ({ messageId, ok: true })));
+    } catch (err) {
+      if (ids.length === 1) {
+        outcomes.push({ messageId: ids[0], ok: false, error: describe(err) });
+      } else {
+        for (const messageId of ids) {
+          try {
+            await updateMessages(accountId, [messageId], action);
+            outcomes.push({ messageId, ok: true });
+          } catch (single) {
+            outcomes.push({ messageId, ok: false, error: describe(single) });
+          }
+        }
+      }
+    }
+    onProgress?.(outcomes.length, targets.length);
+  }
+
+  // Keep remembered locations in step with moves; where spam and unspam
+  // land isn't known here, so those are forgotten instead
+  if (action.mode === 'moveToFolder' || action.mode === 'spam' || action.mode === 'notSpam') {
+    const moved = outcomes.filter(o => o.ok).map(o => ({ messageId: o.messageId, folderId: action.folderId }));
+    await rememberLocations(accountId, moved);
+  }
+  return outcomes;
+}
+
+/**
+ * Delete messages one at a time; Zoho's delete call takes a single
+ * message in a known folder. Messages with no folder given (by the target
+ * or `defaultFolderId`) are looked up first.
+ */
+export async function deleteEach(
+  accountId: string,
+  targets: BulkTarget[],
+  defaultFolderId: string | undefined,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkOutcome[]> {
+  const outcomes: BulkOutcome[] = [];
+  for (const target of targets) {
+    try {
+      const folderId = target.folderId || defaultFolderId;
+      if (folderId) {
+        await deleteEmail(accountId, folderId, target.messageId);
+      } else {
+        await withMessageFolder(accountId, target.messageId, found => deleteEmail(accountId, found, target.messageId));
+      }
+      outcomes.push({ messageId: target.messageId, ok: true });
+    } catch (err) {
+      outcomes.push({ messageId: target.messageId, ok: false, error: describe(err) });
+    }
+    onProgress?.(outcomes.length, targets.length);
+  }
+  await rememberLocations(accountId, outcomes.filter(o => o.ok).map(o => ({ messageId: o.messageId })));
+  return outcomes;
+}
@@ -1,26 +1,96 @@
-import { execSync } from 'child_process';
 import { getConfig } from './config.js';
-import { getPdauthUserId } from './auth.js';
+import { getPdauthUserId, getAccessToken, invalidateAccessToken } from './auth.js';
+import {
+  ZohoError,
+  AuthExpiredError,
+  RateLimitError,
+  NotFoundError,
+  fromApiResponse,
+  fromTransportError,
+} from './errors.js';
+import {
+  createHttpTransport,
+  createPdauthTransport,
+  getApiBaseUrl,
+  type Transport,
+  type TransportName,
+} from './transport.js';
 import type {
   ZohoAccount,
   ZohoFolder,
   ZohoLabel,
   ZohoEmail,
   ZohoEmailContent,
+  ZohoSignature,
+  ZohoAttachmentInfo,
+  ZohoUploadedAttachment,
+  ZohoApiResponse,
+  ZohoApiError,
 } from '../types/zoho.js';
 
-const DEBUG = process.env.ZOHO_DEBUG === '1';
+/** Read per call: --debug sets ZOHO_DEBUG after this module has loaded */
+function isDebug(): boolean {
+  return process.env.ZOHO_DEBUG === '1';
+}
 
-interface ZohoApiResponse<T> {
-  status: {
-    code: number;
-    description: string;
-  };
-  data: T;
+/**
+ * Resolve the transport selected by ZOHO_TRANSPORT or the config
+ */
+export function getTransportName(): TransportName {
+  const name = process.env.ZOHO_TRANSPORT || getConfig().transport || 'pdauth';
+  if (name !== 'http' && name !== 'pdauth') {
+    throw new Error(`Unknown transport "${name}" (expected http or pdauth)`);
+  }
+  return name;
+}
+
+function getTransport(): Transport {
+  if (getTransportName() === 'http') {
+    return createHttpTransport({
+      baseUrl: process.env.ZOHO_MAIL_BASE_URL || getApiBaseUrl(getConfig().region),
+      getAccessToken,
+    });
+  }
+  return createPdauthTransport({ userId: getPdauthUserId() });
+}
+
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30_000;
+
+// Replaying these after a 5xx or dropped connection can't duplicate anything
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+
+/** ZOHO_MAX_RETRIES if it is a whole number, else the default */
+function maxRetries(): number {
+  const value = process.env.ZOHO_MAX_RETRIES?.trim();
+  return value && /^\d+$/.test(value) ? Number(value) : DEFAULT_MAX_RETRIES;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter, or the server's Retry-After
+ */
+function retryDelay(error: ZohoError, attempt: number): number {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+  }
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+function shouldRetry(error: ZohoError, method: string, attempt: number): boolean {
+  if (attempt >= maxRetries() || !error.retryable) return false;
+  // A 429 means the request was never processed, so it is always safe to repeat
+  return error instanceof RateLimitError || IDEMPOTENT_METHODS.includes(method.toUpperCase());
 }
 
 /**
- * Make a proxy call to Zoho Mail API via pdauth
+ * Make a call to the Zoho Mail API through the configured transport.
+ * Rate limits and transient failures are retried; everything else is
+ * thrown as a typed ZohoError.
  */
 async function proxyCall<T>(
   method: string,
@@ -29,63 +99,70 @@ async function proxyCall<T>(
     query?: Record<string, string>;
     data?: Record<string, unknown>;
     headers?: Record<string, string>;
+    body?: Buffer;
+    responseType?: 'json' | 'binary';
   }
 ): Promise<T> {
-  const userId = getPdauthUserId();
-
-  // Build command
-  let cmd = `pdauth proxy zoho_mail "${path}" --user ${userId} -X ${method}`;
-
-  // Add query params
-  if (options?.query) {
-    for (const [key, value] of Object.entries(options.query)) {
-      cmd += ` -q "${key}=${value}"`;
+  const transport = getTransport();
+  let refreshedToken = false;
+
+  for (let attempt = 0; ; attempt++) {
+    if (isDebug()) {
+      console.error(`[DEBUG] ${transport.name} ${method} ${path}`, options?.query || '');
+      if (options?.data) {
+        console.error(`[DEBUG] Request body: ${JSON.stringify(options.data)}`);
+      } else if (options?.body) {
+        console.error(`[DEBUG] Request body: ${options.body.length} bytes`);
+      }
     }
-  }
-
-  // Add data
-  if (options?.data) {
-    const jsonData = JSON.stringify(options.data).replace(/'/g, "'\\''");
-    cmd += ` -d '${jsonData}'`;
-  }
 
-  // Add headers
-  if (options?.headers) {
-    for (const [key, value] of Object.entries(options.headers)) {
-      cmd += ` -H "${key}: ${value}"`;
+    let error: ZohoError;
+    try {
+      const { body, httpStatus, headers } = await transport.request({
+        method,
+        path,
+        query: options?.query,
+        data: options?.data,
+        headers: options?.headers,
+        body: options?.body,
+        responseType: options?.responseType,
+      });
+
+      if (options?.responseType === 'binary' && Buffer.isBuffer(body) && (!httpStatus || httpStatus < 300)) {
+        return body as T;
+      }
+
+      const response = body as ZohoApiResponse<T>;
+      if (response?.status?.code === 200 && (!httpStatus || httpStatus < 300)) {
+        return response.data;
+      }
+      if (!response?.status && (!httpStatus || httpStatus < 300)) {
+        throw new ZohoError('No JSON response from API');
+      }
+      error = fromApiResponse(body as ZohoApiError, httpStatus, headers);
+    } catch (err) {
+      error = fromTransportError(err);
     }
-  }
-
-  if (DEBUG) {
-    console.error(`[DEBUG] ${cmd}`);
-  }
 
-  try {
-    const result = execSync(cmd, {
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-      maxBuffer: 10 * 1024 * 1024, // 10MB
-    });
-
-    // Find the JSON in the output (skip spinner lines)
-    const jsonMatch = result.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON response from API');
+    if (isDebug()) {
+      console.error(`[DEBUG] ${error.name}: ${error.message}`);
     }
 
-    const response = JSON.parse(jsonMatch[0]) as ZohoApiResponse<T>;
+    // A token can be revoked or expire early; refresh once before giving up
+    if (error instanceof AuthExpiredError && transport.name === 'http' && !refreshedToken) {
+      refreshedToken = invalidateAccessToken();
+      if (refreshedToken) continue;
+    }
 
-    if (response.status.code !== 200) {
-      throw new Error(`API error: ${response.status.description}`);
+    if (!shouldRetry(error, method, attempt)) {
+      throw error;
     }
 
-    return response.data;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    if (DEBUG) {
-      console.error(`[DEBUG] Error: ${message}`);
+    const delay = retryDelay(error, attempt);
+    if (isDebug()) {
+      console.error(`[DEBUG] Retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxRetries()})`);
     }
-    throw new Error(`Zoho API call failed: ${message}`);
+    await sleep(delay);
   }
 }
 
@@ -98,14 +175,27 @@ export async function getAccounts(): Promise<ZohoAccount[]> {
 }
 
 /**
- * Get account ID (first account)
+ * Get account ID, matching an account ID or email address when a selector
+ * is given (first account otherwise)
  */
-export async function getAccountId(): Promise<string> {
+export async function getAccountId(selector?: string): Promise<string> {
   const accounts = await getAccounts();
   if (accounts.length === 0) {
     throw new Error('No Zoho Mail accounts found');
   }
-  return accounts[0].accountId;
+  if (!selector) {
+    return accounts[0].accountId;
+  }
+
+  const match = accounts.find(a =>
+    a.accountId === selector || a.emailAddress.toLowerCase() === selector.toLowerCase()
+  );
+  if (!match) {
+    throw new NotFoundError(`No account matches "${selector}"`, {
+      hint: 'Run `zoho-mail auth accounts` to list your accounts',
+    });
+  }
+  return match.accountId;
 }
 
 /**
@@ -181,6 +271,61 @@ export async function deleteLabel(accountId: string, labelId: string): Promise<b
   return true;
 }
 
+/**
+ * List signatures
+ */
+export async function getSignatures(): Promise<ZohoSignature[]> {
+  return proxyCall<ZohoSignature[]>('GET', '/api/accounts/signature');
+}
+
+/**
+ * Create a signature
+ */
+export async function createSignature(options: {
+  name: string;
+  content: string;
+  mode?: 'html' | 'plaintext';
+  isDefault?: boolean;
+}): Promise<ZohoSignature> {
+  const data: Record<string, unknown> = {
+    name: options.name,
+    content: options.content,
+    mode: options.mode || 'html',
+  };
+  if (options.isDefault !== undefined) data.isDefault = options.isDefault;
+
+  return proxyCall<ZohoSignature>('POST', '/api/accounts/signature', { data });
+}
+
+/**
+ * Update a signature
+ */
+export async function updateSignature(
+  signatureId: string,
+  updates: {
+    name?: string;
+    content?: string;
+    mode?: 'html' | 'plaintext';
+    isDefault?: boolean;
+  }
+): Promise<ZohoSignature> {
+  const data: Record<string, unknown> = { id: signatureId };
+  if (updates.name !== undefined) data.name = updates.name;
+  if (updates.content !== undefined) data.content = updates.content;
+  if (updates.mode !== undefined) data.mode = updates.mode;
+  if (updates.isDefault !== undefined) data.isDefault = updates.isDefault;
+
+  return proxyCall<ZohoSignature>('PUT', '/api/accounts/signature', { data });
+}
+
+/**
+ * Delete a signature
+ */
+export async function deleteSignature(signatureId: string): Promise<boolean> {
+  await proxyCall<unknown>('DELETE', '/api/accounts/signature', { data: { id: signatureId } });
+  return true;
+}
+
 /**
  * List emails in a folder
  */
@@ -234,6 +379,7 @@ export async function searchEmails(
   query: string,
   options?: {
     limit?: number;
+    start?: number;
     folderId?: string;
   }
 ): Promise<ZohoEmail[]> {
@@ -242,6 +388,9 @@ export async function searchEmails(
     limit: String(options?.limit || 50),
   };
 
+  if (options?.start) {
+    params.start = String(options.start);
+  }
   if (options?.folderId) {
     params.folderId = options.folderId;
   }
@@ -251,20 +400,170 @@ export async function searchEmails(
   });
 }
 
+/** Zoho's largest page for messages/view and messages/search */
+export const MAX_PAGE_SIZE = 200;
+
+export interface PageOptions {
+  /** Position of the first message, 1-based like Zoho's `start` */
+  start?: number;
+  /** Stop after this many messages (default: all of them) */
+  max?: number;
+  /** Messages per request (default and ceiling: MAX_PAGE_SIZE) */
+  pageSize?: number;
+}
+
 /**
- * Send an email
+ * Walk a paged listing, yielding each page as it arrives, until a short
+ * page says the results ran out or `max` messages have been yielded
  */
-export async function sendEmail(
-  accountId: string,
-  options: {
-    to: string;
-    subject: string;
-    content: string;
-    cc?: string;
-    bcc?: string;
-    isHtml?: boolean;
+export async function* paginate<T>(
+  fetchPage: (start: number, limit: number) => Promise<T[]>,
+  options: PageOptions = {}
+): AsyncGenerator<T[]> {
+  const pageSize = Math.min(options.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+  let remaining = options.max ?? Infinity;
+  let start = options.start ?? 1;
+  while (remaining > 0) {
+    const limit = Math.min(pageSize, remaining);
+    const page = await fetchPage(start, limit);
+    if (page.length) yield page;
+    if (page.length < limit) return;
+    remaining -= page.length;
+    start += page.length;
   }
-): Promise<boolean> {
+}
+
+/**
+ * Every email in a folder, page by page (see paginate)
+ */
+export function emailPages(
+  accountId: string,
+  folderId: string,
+  options: PageOptions & { status?: 'read' | 'unread'; flagged?: boolean } = {}
+): AsyncGenerator<ZohoEmail[]> {
+  return paginate(
+    (start, limit) => getEmails(accountId, folderId, { status: options.status, flagged: options.flagged, start, limit }),
+    options
+  );
+}
+
+/**
+ * Every search match, page by page (see paginate)
+ */
+export function searchPages(
+  accountId: string,
+  query: string,
+  options: PageOptions & { folderId?: string } = {}
+): AsyncGenerator<ZohoEmail[]> {
+  return paginate(
+    (start, limit) => searchEmails(accountId, query, { folderId: options.folderId, start, limit }),
+    options
+  );
+}
+
+/**
+ * Get email metadata (sender, recipients, subject, dates)
+ */
+export async function getEmailDetails(
+  accountId: string,
+  folderId: string,
+  messageId: string
+): Promise<ZohoEmail> {
+  return proxyCall<ZohoEmail>(
+    'GET',
+    `/api/accounts/${accountId}/folders/${folderId}/messages/${messageId}/details`
+  );
+}
+
+/**
+ * Get an email's raw header block
+ */
+export async function getEmailHeaders(
+  accountId: string,
+  folderId: string,
+  messageId: string
+): Promise<string> {
+  const data = await proxyCall<{ headerContent: string }>(
+    'GET',
+    `/api/accounts/${accountId}/folders/${folderId}/messages/${messageId}/header`,
+    { query: { raw: 'true' } }
+  );
+  return data.headerContent;
+}
+
+/**
+ * Get the full RFC 822 source of an email
+ */
+export async function getOriginalMessage(
+  accountId: string,
+  folderId: string,
+  messageId: string
+): Promise<string> {
+  const data = await proxyCall<{ content: string }>(
+    'GET',
+    `/api/accounts/${accountId}/folders/${folderId}/messages/${messageId}/originalmessage`
+  );
+  return data.content;
+}
+
+/**
+ * List the attachments of an email
+ */
+export async function getAttachmentInfo(
+  accountId: string,
+  folderId: string,
+  messageId: string
+): Promise<ZohoAttachmentInfo> {
+  return proxyCall<ZohoAttachmentInfo>(
+    'GET',
+    `/api/accounts/${accountId}/folders/${folderId}/messages/${messageId}/attachmentinfo`
+  );
+}
+
+/**
+ * Download an attachment's content
+ */
+export async function downloadAttachment(
+  accountId: string,
+  folderId: string,
+  messageId: string,
+  attachmentId: string
+): Promise<Buffer> {
+  return proxyCall<Buffer>(
+    'GET',
+    `/api/accounts/${accountId}/folders/${folderId}/messages/${messageId}/attachments/${attachmentId}`,
+    { responseType: 'binary' }
+  );
+}
+
+/**
+ * Upload a file so it can be attached to an outgoing email
+ */
+export async function uploadAttachment(
+  accountId: string,
+  fileName: string,
+  content: Buffer
+): Promise<ZohoUploadedAttachment> {
+  const uploaded = await proxyCall<ZohoUploadedAttachment | ZohoUploadedAttachment[]>(
+    'POST',
+    `/api/accounts/${accountId}/messages/attachments`,
+    { query: { fileName }, body: content }
+  );
+  // Zoho answers with a one-element array for single uploads
+  return Array.isArray(uploaded) ? uploaded[0] : uploaded;
+}
+
+interface OutgoingEmail {
+  to: string;
+  subject: string;
+  content: string;
+  cc?: string;
+  bcc?: string;
+  isHtml?: boolean;
+  attachments?: ZohoUploadedAttachment[];
+}
+
+function outgoingData(options: OutgoingEmail): Record<string, unknown> {
   const data: Record<string, unknown> = {
     toAddress: options.to,
     subject: options.subject,
@@ -274,36 +573,128 @@ export async function sendEmail(
 
   if (options.cc) data.ccAddress = options.cc;
   if (options.bcc) data.bccAddress = options.bcc;
+  if (options.attachments?.length) data.attachments = options.attachments;
+
+  return data;
+}
 
-  await proxyCall<unknown>('POST', `/api/accounts/${accountId}/messages`, { data });
+/**
+ * Send an email
+ */
+export async function sendEmail(accountId: string, options: OutgoingEmail): Promise<boolean> {
+  await proxyCall<unknown>('POST', `/api/accounts/${accountId}/messages`, {
+    data: outgoingData(options),
+  });
+  return true;
+}
+
+/**
+ * Reply to or forward an email, keeping it in the original's thread
+ */
+export async function replyToEmail(
+  accountId: string,
+  messageId: string,
+  action: 'reply' | 'forward',
+  options: OutgoingEmail
+): Promise<boolean> {
+  await proxyCall<unknown>('POST', `/api/accounts/${accountId}/messages/${messageId}`, {
+    data: { ...outgoingData(options), action },
+  });
   return true;
 }
 
+export interface MessageUpdate {
+  mode: 'markAsRead' | 'markAsUnread' | 'moveToFolder' | 'addFlag' | 'removeFlag' |
+        'addTag' | 'removeTag' | 'archive' | 'unarchive' | 'spam' | 'notSpam';
+  folderId?: string;
+  tagId?: string;
+}
+
 /**
  * Update message (move, flag, label, read/unread, archive, spam)
  */
 export async function updateMessage(
   accountId: string,
   messageId: string,
+  action: MessageUpdate
+): Promise<boolean> {
+  return updateMessages(accountId, [messageId], action);
+}
+
+/**
+ * Apply one update to several messages in a single call
+ */
+export async function updateMessages(
+  accountId: string,
+  messageIds: string[],
+  action: MessageUpdate
+): Promise<boolean> {
+  const data: Record<string, unknown> = {
+    mode: action.mode,
+    messageId: messageIds,
+  };
+
+  if (action.folderId) data.destFolderId = action.folderId;
+  if (action.tagId) data.tagId = action.tagId;
+
+  await proxyCall<unknown>('PUT', `/api/accounts/${accountId}/updatemessage`, { data });
+  return true;
+}
+
+/**
+ * Update thread (move, flag, label, read/unread, spam)
+ */
+export async function updateThread(
+  accountId: string,
+  threadId: string,
   action: {
     mode: 'markAsRead' | 'markAsUnread' | 'moveToFolder' | 'addFlag' | 'removeFlag' |
-          'addTag' | 'removeTag' | 'archive' | 'unarchive' | 'spam' | 'notSpam';
+          'addTag' | 'removeTag' | 'spam' | 'notSpam';
     folderId?: string;
     tagId?: string;
   }
 ): Promise<boolean> {
   const data: Record<string, unknown> = {
     mode: action.mode,
-    messageId: [messageId],
+    threadId: [threadId],
   };
 
   if (action.folderId) data.destFolderId = action.folderId;
   if (action.tagId) data.tagId = action.tagId;
 
-  await proxyCall<unknown>('PUT', `/api/accounts/${accountId}/updatemessage`, { data });
+  await proxyCall<unknown>('PUT', `/api/accounts/${accountId}/updatethread`, { data });
   return true;
 }
 
+/**
+ * List every message of a conversation (newest first, like any listing),
+ * page by page (see paginate)
+ */
+export async function getThreadEmails(
+  accountId: string,
+  threadId: string,
+  options?: {
+    folderId?: string;
+  }
+): Promise<ZohoEmail[]> {
+  const emails: ZohoEmail[] = [];
+  const pages = paginate((start, limit) => {
+    const query: Record<string, string> = {
+      threadId,
+      start: String(start),
+      limit: String(limit),
+    };
+    if (options?.folderId) {
+      query.folderId = options.folderId;
+    }
+    return proxyCall<ZohoEmail[]>('GET', `/api/accounts/${accountId}/messages/view`, { query });
+  });
+  for await (const page of pages) {
+    emails.push(...page);
+  }
+  return emails;
+}
+
 /**
  * Delete an email
  */
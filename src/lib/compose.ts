@@ -0,0 +1,304 @@
+import { getSignatures } from './client.js';
+import { NotFoundError, ValidationError } from './errors.js';
+import { escapeHtml, isHtml, textToHtml } from './html.js';
+import { htmlToText } from './render.js';
+import type { ZohoSignature } from '../types/zoho.js';
+
+/**
+ * Pick the signature for an outgoing message.
+ * `selector` is a signature name or ID, `false` for none (--no-signature),
+ * or undefined for the account's default signature.
+ */
+export async function resolveSignature(selector?: string | false): Promise<ZohoSignature | null> {
+  if (selector === false) {
+    return null;
+  }
+
+  const signatures = await getSignatures();
+  if (selector === undefined) {
+    return signatures.find(s => s.isDefault) || null;
+  }
+
+  const match = signatures.find(s =>
+    s.signatureId === selector || s.signatureName.toLowerCase() === selector.toLowerCase()
+  );
+  if (!match) {
+    throw new NotFoundError(`No signature named "${selector}"`, {
+      hint: 'Run `zoho-mail signatures list` to see your signatures',
+    });
+  }
+  return match;
+}
+
+function isHtmlSignature(signature: ZohoSignature): boolean {
+  return signature.mode ? signature.mode === 'html' : isHtml(signature.content);
+}
+
+/**
+ * Append a signature in the body's own format, converting between
+ * plaintext and HTML so neither side shows up as raw markup
+ */
+export function appendSignature(body: string, isHtmlBody: boolean, signature: ZohoSignature | null): string {
+  if (!signature || !signature.content.trim()) {
+    return body;
+  }
+
+  const sigIsHtml = isHtmlSignature(signature);
+  if (isHtmlBody) {
+    const html = sigIsHtml ? signature.content : textToHtml(signature.content);
+    return `${body}<br><br><div class="zmail_signature">${html}</div>`;
+  }
+
+  const text = sigIsHtml ? htmlToText(signature.content) : signature.content;
+  // "-- " is the standard plaintext signature separator
+  return `${body}\n\n-- \n${text}`;
+}
+
+export interface Address {
+  name?: string;
+  email: string;
+}
+
+/**
+ * Parse a comma-separated address list ("Sam <sam@x.com>, jo@x.com").
+ * Zoho sometimes returns the angle brackets HTML-escaped.
+ */
+export function parseAddressList(list?: string): Address[] {
+  if (!list) return [];
+  const decoded = list.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"');
+
+  // Split on commas outside quotes and angle brackets
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let bracketed = false;
+  for (const char of decoded) {
+    if (char === '"') quoted = !quoted;
+    if (char === '<') bracketed = true;
+    if (char === '>') bracketed = false;
+    if ((char === ',' || char === ';') && !quoted && !bracketed) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^(.*?)\s*<([^>]+)>$/);
+      if (!match) return { email: part };
+      const name = match[1].replace(/^"|"$/g, '').trim();
+      return name ? { name, email: match[2].trim() } : { email: match[2].trim() };
+    });
+}
+
+export function formatAddressList(addresses: Address[]): string {
+  return addresses
+    .map(a => (a.name ? `"${a.name.replace(/"/g, '')}" <${a.email}>` : a.email))
+    .join(', ');
+}
+
+function uniqueAddresses(addresses: Address[], exclude: Address[] = []): Address[] {
+  const seen = new Set(exclude.map(a => a.email.toLowerCase()));
+  return addresses.filter(a => {
+    const key = a.email.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Recipients of a reply. Reply goes to the sender; reply-all adds the
+ * original To and keeps the original Cc, minus our own addresses.
+ * Replying to our own sent message goes back to its recipients.
+ */
+export function computeReplyRecipients(
+  original: { fromAddress: string; toAddress?: string; ccAddress?: string },
+  ownAddresses: string[],
+  replyAll: boolean
+): { to: Address[]; cc: Address[] } {
+  const own = ownAddresses.map(email => ({ email }));
+  const from = parseAddressList(original.fromAddress);
+  const originalTo = parseAddressList(original.toAddress);
+  const originalCc = parseAddressList(original.ccAddress);
+
+  const fromIsUs = from.some(a => ownAddresses.some(o => o.toLowerCase() === a.email.toLowerCase()));
+  const primary = fromIsUs ? originalTo : from;
+
+  const to = uniqueAddresses(replyAll ? [...primary, ...originalTo] : primary, own);
+  const cc = replyAll ? uniqueAddresses(originalCc, [...own, ...to]) : [];
+
+  // Replying to a message we sent only to ourselves
+  if (to.length === 0 && primary.length > 0) {
+    return { to: primary.slice(0, 1), cc };
+  }
+  return { to, cc };
+}
+
+const REPLY_PREFIX = /^\s*(re|aw|sv)\s*(\[\d+\])?\s*:\s*/i;
+const FORWARD_PREFIX = /^\s*(fwd?|wg|tr)\s*(\[\d+\])?\s*:\s*/i;
+
+/**
+ * "Re: " + subject, without stacking "Re: Re: Re:"
+ */
+export function replySubject(subject?: string): string {
+  let base = subject || '';
+  while (REPLY_PREFIX.test(base)) {
+    base = base.replace(REPLY_PREFIX, '');
+  }
+  return `Re: ${base}`;
+}
+
+/**
+ * "Fwd: " + subject, without stacking "Fwd: Fwd:"
+ */
+export function forwardSubject(subject?: string): string {
+  let base = subject || '';
+  while (FORWARD_PREFIX.test(base)) {
+    base = base.replace(FORWARD_PREFIX, '');
+  }
+  return `Fwd: ${base}`;
+}
+
+interface OriginalMessage {
+  fromAddress: string;
+  toAddress?: string;
+  ccAddress?: string;
+  subject?: string;
+  receivedTime: number | string;
+  content: string;
+}
+
+function originalDate(original: OriginalMessage): string {
+  return new Date(Number(original.receivedTime)).toUTCString();
+}
+
+/**
+ * Quote the original below a reply, in the reply's format
+ */
+export function quoteOriginal(original: OriginalMessage, isHtmlReply: boolean): string {
+  const attribution = `On ${originalDate(original)}, ${formatAddressList(parseAddressList(original.fromAddress))} wrote:`;
+  const originalIsHtml = isHtml(original.content);
+
+  if (isHtmlReply) {
+    const html = originalIsHtml ? original.content : textToHtml(original.content);
+    return `<br><br><div class="zmail_extra">${escapeHtml(attribution)}<br>` +
+      `<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${html}</blockquote></div>`;
+  }
+
+  const text = originalIsHtml ? htmlToText(original.content) : original.content;
+  const quoted = text.split('\n').map(line => (line.startsWith('>') ? `>${line}` : `> ${line}`)).join('\n');
+  return `\n\n${attribution}\n${quoted}`;
+}
+
+/**
+ * The forwarded-message block appended below a forward
+ */
+export function forwardedBlock(original: OriginalMessage, isHtmlForward: boolean): string {
+  const fields: [string, string | undefined][] = [
+    ['From', original.fromAddress],
+    ['Date', originalDate(original)],
+    ['Subject', original.subject],
+    ['To', original.toAddress],
+    ['Cc', original.ccAddress],
+  ];
+  const header = fields.filter(([, value]) => value).map(([key, value]) => `${key}: ${value}`);
+  const originalIsHtml = isHtml(original.content);
+
+  if (isHtmlForward) {
+    const html = originalIsHtml ? original.content : textToHtml(original.content);
+    return `<br><br>---------- Forwarded message ----------<br>${header.map(escapeHtml).join('<br>')}<br><br>${html}`;
+  }
+
+  const text = originalIsHtml ? htmlToText(original.content) : original.content;
+  return `\n\n---------- Forwarded message ----------\n${header.join('\n')}\n\n${text}`;
+}
+
+export interface Draft {
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+}
+
+type DraftHeader = Exclude<keyof Draft, 'body'>;
+
+/** Header lines of a draft, in order, and how they are written */
+const DRAFT_HEADERS: Record<DraftHeader, string> = {
+  to: 'To',
+  cc: 'Cc',
+  bcc: 'Bcc',
+  subject: 'Subject',
+};
+
+const DRAFT_HELP = [
+  '# Fill in the headers, write the message below the blank line, then save',
+  '# and quit. Addresses are separated by commas; these # lines are dropped.',
+  '# Leave the body empty to cancel.',
+];
+
+/**
+ * A draft as text for the editor: header lines, a blank line, the body
+ */
+export function formatDraft(draft: Draft): string {
+  const headers = Object.entries(DRAFT_HEADERS).map(([key, name]) => `${name}: ${draft[key as DraftHeader]}`);
+  return [...DRAFT_HELP, ...headers, '', draft.body].join('\n');
+}
+
+/**
+ * Read back an edited draft. Header lines run to the first blank line;
+ * indented lines continue the header above, and # lines are comments.
+ */
+export function parseDraft(text: string): Draft {
+  const draft: Draft = { to: '', cc: '', bcc: '', subject: '', body: '' };
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let previous: DraftHeader | undefined;
+  let i = 0;
+  for (; i < lines.length && lines[i].trim() !== ''; i++) {
+    const line = lines[i];
+    if (line.startsWith('#')) continue;
+    if (/^\s/.test(line) && previous) {
+      draft[previous] += ` ${line.trim()}`;
+      continue;
+    }
+    const match = line.match(/^([A-Za-z-]+):\s*(.*)$/);
+    const key = match?.[1].toLowerCase() as DraftHeader | undefined;
+    if (!match || !key || !Object.hasOwn(DRAFT_HEADERS, key)) {
+      throw new ValidationError(`Unexpected header line "${line}"`, {
+        hint: 'Only To, Cc, Bcc and Subject go above the blank line that starts the body',
+      });
+    }
+    draft[key] = match[2].trim();
+    previous = key;
+  }
+  draft.body = lines.slice(i + 1).join('\n').replace(/\s+$/, '');
+  return draft;
+}
+
+/**
+ * Check a draft is ready to send: someone to send it to, a subject, a
+ * body, and addresses that look like addresses
+ */
+export function validateDraft(draft: Draft): void {
+  if (!draft.to.trim()) {
+    throw new ValidationError('No recipient', { hint: 'Fill in the To: line (or pass --to)' });
+  }
+  for (const key of ['to', 'cc', 'bcc'] as const) {
+    const bad = parseAddressList(draft[key]).find(a => !/^[^\s@]+@[^\s@]+$/.test(a.email));
+    if (bad) {
+      throw new ValidationError(`Invalid address "${bad.email}" in ${DRAFT_HEADERS[key]}`);
+    }
+  }
+  if (!draft.subject.trim()) {
+    throw new ValidationError('No subject', { hint: 'Fill in the Subject: line (or pass --subject)' });
+  }
+  if (!draft.body.trim()) {
+    throw new ValidationError('The message body is empty');
+  }
+}
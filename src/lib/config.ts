@@ -1,34 +1,108 @@
 import Conf from 'conf';
-import type { ZohoConfig } from '../types/zoho.js';
+import type { ZohoConfig, ZohoOAuthTokens } from '../types/zoho.js';
 
-const config = new Conf<ZohoConfig>({
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_DEFAULTS: ZohoConfig = {
+  region: 'zoho.com',
+  accountId: '',
+  userId: '',
+  defaultFolder: 'Inbox',
+  transport: 'pdauth',
+};
+
+interface ConfigStore {
+  currentProfile: string;
+  profiles: Record<string, ZohoConfig>;
+}
+
+// ZOHO_CONFIG_DIR relocates every store (used by the offline test suite)
+const cwd = process.env.ZOHO_CONFIG_DIR || undefined;
+
+const config = new Conf<ConfigStore>({
+  projectName: 'zoho-mail-cli',
+  cwd,
+  defaults: {
+    currentProfile: DEFAULT_PROFILE,
+    profiles: {},
+  },
+});
+
+// OAuth tokens live in their own file, readable only by the owner
+const credentials = new Conf<{ profiles: Record<string, ZohoOAuthTokens> }>({
   projectName: 'zoho-mail-cli',
+  cwd,
+  configName: 'credentials',
+  configFileMode: 0o600,
   defaults: {
-    region: 'zoho.com',
-    accountId: '',
-    userId: '',
-    defaultFolder: 'Inbox',
+    profiles: {},
   },
 });
 
-export function getConfig(): ZohoConfig {
-  return {
-    region: config.get('region'),
-    accountId: config.get('accountId'),
-    userId: config.get('userId'),
-    defaultFolder: config.get('defaultFolder'),
-  };
+migrateLegacyConfig();
+
+/**
+ * Move a pre-profiles config (flat region/accountId/userId keys) into the
+ * "default" profile
+ */
+function migrateLegacyConfig(): void {
+  const legacy = config as unknown as Conf<Record<string, unknown>>;
+  const keys = Object.keys(PROFILE_DEFAULTS) as (keyof ZohoConfig)[];
+  if (!keys.some(key => legacy.has(key))) return;
+
+  const profile: Record<string, unknown> = { ...PROFILE_DEFAULTS };
+  for (const key of keys) {
+    if (legacy.has(key)) {
+      profile[key] = legacy.get(key);
+      legacy.delete(key);
+    }
+  }
+  config.set('profiles', { ...config.get('profiles'), [DEFAULT_PROFILE]: profile as unknown as ZohoConfig });
+}
+
+/**
+ * Profile used by this invocation: --profile (ZOHO_PROFILE) or the one
+ * selected with `auth use`
+ */
+export function getActiveProfile(): string {
+  return process.env.ZOHO_PROFILE || config.get('currentProfile') || DEFAULT_PROFILE;
 }
 
-export function setConfig(updates: Partial<ZohoConfig>): void {
-  if (updates.region !== undefined) config.set('region', updates.region);
-  if (updates.accountId !== undefined) config.set('accountId', updates.accountId);
-  if (updates.userId !== undefined) config.set('userId', updates.userId);
-  if (updates.defaultFolder !== undefined) config.set('defaultFolder', updates.defaultFolder);
+export function setActiveProfile(profile: string): void {
+  config.set('currentProfile', profile);
 }
 
-export function clearConfig(): void {
-  config.clear();
+export function listProfiles(): Record<string, ZohoConfig> {
+  return config.get('profiles');
+}
+
+export function profileExists(profile: string): boolean {
+  return profile in config.get('profiles');
+}
+
+export function getConfig(profile: string = getActiveProfile()): ZohoConfig {
+  return { ...PROFILE_DEFAULTS, ...config.get('profiles')[profile] };
+}
+
+export function setConfig(updates: Partial<ZohoConfig>, profile: string = getActiveProfile()): void {
+  const defined = Object.fromEntries(
+    Object.entries(updates).filter(([, value]) => value !== undefined)
+  ) as Partial<ZohoConfig>;
+  config.set('profiles', {
+    ...config.get('profiles'),
+    [profile]: { ...getConfig(profile), ...defined },
+  });
+}
+
+/**
+ * Remove a profile's settings (the active one by default)
+ */
+export function clearConfig(profile: string = getActiveProfile()): void {
+  const { [profile]: _removed, ...rest } = config.get('profiles');
+  config.set('profiles', rest);
+  if (config.get('currentProfile') === profile) {
+    config.set('currentProfile', DEFAULT_PROFILE);
+  }
 }
 
 export function isConfigured(): boolean {
@@ -39,3 +113,16 @@ export function isConfigured(): boolean {
 export function getConfigPath(): string {
   return config.path;
 }
+
+export function getTokens(profile: string = getActiveProfile()): ZohoOAuthTokens | undefined {
+  return credentials.get('profiles')[profile];
+}
+
+export function setTokens(profile: string, tokens: ZohoOAuthTokens): void {
+  credentials.set('profiles', { ...credentials.get('profiles'), [profile]: tokens });
+}
+
+export function clearTokens(profile: string = getActiveProfile()): void {
+  const { [profile]: _removed, ...rest } = credentials.get('profiles');
+  credentials.set('profiles', rest);
+}
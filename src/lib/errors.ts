@@ -0,0 +1,170 @@
+import axios from 'axios';
+import type { ZohoApiError } from '../types/zoho.js';
+
+/**
+ * Base class for every failure talking to Zoho Mail
+ */
+export class ZohoError extends Error {
+  /** Zoho `errorCode`, when the API returned one */
+  readonly errorCode?: string;
+  readonly httpStatus?: number;
+  /** Suggested fix shown to the user */
+  readonly hint?: string;
+
+  constructor(
+    message: string,
+    options: { errorCode?: string; httpStatus?: number; hint?: string; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.errorCode = options.errorCode;
+    this.httpStatus = options.httpStatus;
+    this.hint = options.hint;
+  }
+
+  /** Whether repeating the same request may succeed */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+export class AuthExpiredError extends ZohoError {}
+
+export class RateLimitError extends ZohoError {
+  /** Delay requested by the server via Retry-After */
+  retryAfterMs?: number;
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class NotFoundError extends ZohoError {}
+
+export class PermissionError extends ZohoError {}
+
+export class ValidationError extends ZohoError {}
+
+export class ServerError extends ZohoError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class NetworkError extends ZohoError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+const LOGIN_HINT = 'Run `zoho-mail auth login` to re-authenticate';
+
+const ERROR_CODE_HINTS: Record<string, { type: typeof ZohoError; hint: string }> = {
+  INVALID_OAUTHTOKEN: { type: AuthExpiredError, hint: LOGIN_HINT },
+  INVALID_TICKET: { type: AuthExpiredError, hint: LOGIN_HINT },
+  OAUTH_SCOPE_MISMATCH: {
+    type: PermissionError,
+    hint: 'The token lacks a required scope; run `zoho-mail auth login` again to grant it',
+  },
+  INVALID_OAUTHSCOPE: {
+    type: PermissionError,
+    hint: 'The token lacks a required scope; run `zoho-mail auth login` again to grant it',
+  },
+  NO_PERMISSION: {
+    type: PermissionError,
+    hint: 'Your Zoho account is not allowed to perform this operation',
+  },
+  URL_RULE_NOT_CONFIGURED: {
+    type: NotFoundError,
+    hint: 'This endpoint does not exist for your account or region; check `zoho-mail auth set-region`',
+  },
+  EXTRA_KEY_FOUND_IN_JSON: { type: ValidationError, hint: 'Run with --debug to see the request sent' },
+  JSON_PARSE_ERROR: { type: ValidationError, hint: 'Run with --debug to see the request sent' },
+  PATTERN_NOT_MATCHED: {
+    type: ValidationError,
+    hint: 'An ID or value has the wrong format; IDs must be copied in full',
+  },
+  INVALID_INPUT: { type: ValidationError, hint: 'Check the IDs and values you passed' },
+  MAIL_NOT_FOUND: {
+    type: NotFoundError,
+    hint: "If the message isn't in the Inbox, pass --folder <folderId>",
+  },
+  FOLDER_NOT_FOUND: { type: NotFoundError, hint: 'Run `zoho-mail folders list` to see folder IDs' },
+  LABEL_NOT_FOUND: { type: NotFoundError, hint: 'Run `zoho-mail labels list` to see label IDs' },
+  TOO_MANY_REQUESTS: { type: RateLimitError, hint: 'Wait a moment and try again' },
+};
+
+function typeForStatus(httpStatus?: number): { type: typeof ZohoError; hint?: string } {
+  if (httpStatus === 401) return { type: AuthExpiredError, hint: LOGIN_HINT };
+  if (httpStatus === 403) {
+    return { type: PermissionError, hint: 'Check that your login granted the required ZohoMail scopes' };
+  }
+  if (httpStatus === 404) {
+    return { type: NotFoundError, hint: "If the message isn't in the Inbox, pass --folder <folderId>" };
+  }
+  if (httpStatus === 429) return { type: RateLimitError, hint: 'Wait a moment and try again' };
+  if (httpStatus !== undefined && httpStatus >= 500) return { type: ServerError };
+  if (httpStatus !== undefined && httpStatus >= 400) return { type: ValidationError };
+  return { type: ZohoError };
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Build a typed error from a failed Zoho API response
+ */
+export function fromApiResponse(
+  body: ZohoApiError | undefined,
+  httpStatus?: number,
+  headers: Record<string, string> = {}
+): ZohoError {
+  // Zoho mirrors the HTTP status in the body; pdauth only gives us the body
+  const status = httpStatus && httpStatus !== 200 ? httpStatus : body?.status?.code;
+  const errorCode = body?.data?.errorCode;
+  const byCode = errorCode ? ERROR_CODE_HINTS[errorCode] : undefined;
+  const { type, hint } = byCode || typeForStatus(status);
+
+  const description = body?.data?.moreInfo || body?.data?.message || body?.status?.description || 'Unknown error';
+  const message = `Zoho API error${status ? ` ${status}` : ''}: ${description}${errorCode ? ` (${errorCode})` : ''}`;
+
+  const err = new type(message, { errorCode, httpStatus: status, hint });
+  if (err instanceof RateLimitError) {
+    err.retryAfterMs = parseRetryAfter(headers['retry-after']);
+  }
+  return err;
+}
+
+/**
+ * Wrap anything thrown while sending a request (DNS, timeouts, missing pdauth)
+ */
+export function fromTransportError(error: unknown): ZohoError {
+  if (error instanceof ZohoError) return error;
+
+  const code = (error as { code?: string }).code;
+  if (code === 'ENOENT') {
+    return new ZohoError('pdauth is not installed', {
+      cause: error,
+      hint: 'Run `npm install -g pdauth && pdauth config`, or `zoho-mail auth set-transport http`',
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (axios.isAxiosError(error) || typeof code === 'string') {
+    return new NetworkError(`Network error: ${message}`, {
+      cause: error,
+      hint: 'Check your internet connection and region (`zoho-mail auth status`)',
+    });
+  }
+  return new ZohoError(message, { cause: error });
+}
@@ -0,0 +1,247 @@
+import { mkdir, open, readFile, rename, stat, truncate, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { emailPages, getOriginalMessage } from './client.js';
+import { ValidationError } from './errors.js';
+import type { ZohoEmail, ZohoFolder } from '../types/zoho.js';
+
+export type ExportFormat = 'mbox' | 'maildir';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['mbox', 'maildir'];
+
+const MANIFEST_NAME = '.zoho-mail-export.json';
+
+/** Messages written between manifest saves */
+const MANIFEST_BATCH = 50;
+
+interface FolderProgress {
+  path: string;
+  /** Messages already written, so a resumed export skips them */
+  exported: string[];
+  /** mbox only: file size after the last complete message */
+  size?: number;
+  complete: boolean;
+}
+
+/**
+ * Written next to the export every MANIFEST_BATCH messages and when a
+ * folder stops. An interrupted run picks up from here instead of starting
+ * over; messages written after the last save are written again.
+ */
+export interface ExportManifest {
+  version: 1;
+  accountId: string;
+  format: ExportFormat;
+  startedAt: number;
+  updatedAt: number;
+  folders: Record<string, FolderProgress>;
+}
+
+export interface ExportResult {
+  folderId: string;
+  folderName: string;
+  exported: number;
+  skipped: number;
+  path: string;
+}
+
+export async function loadManifest(
+  out: string,
+  accountId: string,
+  format: ExportFormat
+): Promise<ExportManifest> {
+  let manifest: ExportManifest;
+  try {
+    manifest = JSON.parse(await readFile(join(out, MANIFEST_NAME), 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: 1, accountId, format, startedAt: Date.now(), updatedAt: Date.now(), folders: {} };
+    }
+    throw err;
+  }
+
+  if (manifest.accountId !== accountId || manifest.format !== format) {
+    throw new ValidationError(
+      `${out} holds a ${manifest.format} export of account ${manifest.accountId}`,
+      { hint: 'Export to an empty directory, or resume with the same account and --format' }
+    );
+  }
+  return manifest;
+}
+
+async function saveManifest(out: string, manifest: ExportManifest): Promise<void> {
+  manifest.updatedAt = Date.now();
+  const path = join(out, MANIFEST_NAME);
+  const temp = `${path}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(manifest, null, 2));
+  await rename(temp, path);
+}
+
+/**
+ * Turn a Zoho folder path (/Clients/Acme) into relative path segments,
+ * keeping names readable but safe on every filesystem
+ */
+function folderSegments(folder: ZohoFolder): string[] {
+  const path = folder.path || `/${folder.folderName}`;
+  return path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.replace(/[\\:*?"<>|\x00-\x1f]/g, '_').replace(/^\.+/, '_'));
+}
+
+function isRead(email: ZohoEmail): boolean {
+  return String(email.status) !== '0';
+}
+
+function isFlagged(email: ZohoEmail): boolean {
+  return Boolean(email.flagid) && email.flagid !== 'flag_not_set' && email.flagid !== '0';
+}
+
+/**
+ * Split raw RFC 822 text into its header block and body, normalised to LF
+ */
+function splitMessage(raw: string): { head: string; body: string } {
+  const text = raw.replace(/\r\n/g, '\n');
+  const end = text.indexOf('\n\n');
+  return end === -1
+    ? { head: text.replace(/\n$/, ''), body: '' }
+    : { head: text.slice(0, end), body: text.slice(end + 2) };
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** asctime()-style UTC date used on mbox "From " lines */
+function asctime(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, ' ');
+  const time = date.toISOString().slice(11, 19);
+  return `${WEEKDAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${day} ${time} ${date.getUTCFullYear()}`;
+}
+
+/**
+ * One mboxrd entry: a "From " separator, the original headers with
+ * Status/X-Status carrying read and flagged state, and the body with
+ * "From " lines quoted so readers don't split the message there
+ */
+export function toMboxEntry(email: ZohoEmail, raw: string): string {
+  const { head, body } = splitMessage(raw);
+  const headers = head
+    .split('\n')
+    .filter((_, i, lines) => {
+      // Drop existing Status/X-Status headers along with their folded lines
+      let start = i;
+      while (start > 0 && /^[ \t]/.test(lines[start])) start--;
+      return !/^(x-)?status:/i.test(lines[start]);
+    });
+  headers.push(`Status: ${isRead(email) ? 'RO' : 'O'}`);
+  if (isFlagged(email)) {
+    headers.push('X-Status: F');
+  }
+
+  const sender = (email.fromAddress || 'MAILER-DAEMON').replace(/\s+/g, '');
+  const quoted = body.replace(/^(>*From )/gm, '>$1');
+  const separator = `From ${sender} ${asctime(new Date(Number(email.receivedTime)))}`;
+  return `${separator}\n${headers.join('\n')}\n\n${quoted.replace(/\n*$/, '\n')}\n`;
+}
+
+/**
+ * Maildir file name: unique per message, with the read/flagged state in
+ * the standard ":2," info suffix (flags in ASCII order)
+ */
+export function maildirName(email: ZohoEmail): string {
+  const flags = `${isFlagged(email) ? 'F' : ''}${isRead(email) ? 'S' : ''}`;
+  const seconds = Math.floor(Number(email.receivedTime) / 1000);
+  return `${seconds}.${email.messageId}.zoho-mail:2,${flags}`;
+}
+
+async function listFolderMessages(accountId: string, folderId: string): Promise<ZohoEmail[]> {
+  const messages: ZohoEmail[] = [];
+  for await (const page of emailPages(accountId, folderId)) {
+    messages.push(...page);
+  }
+  // Oldest first, the order mail clients expect inside an mbox
+  return messages.sort((a, b) => Number(a.receivedTime) - Number(b.receivedTime));
+}
+
+/**
+ * Export one folder, skipping messages the manifest says are done.
+ * mbox folders become `<out>/<path>.mbox`; Maildir folders become
+ * `<out>/<path>/{cur,new,tmp}`, so the folder tree survives either way.
+ */
+export async function exportFolder(
+  accountId: string,
+  folder: ZohoFolder,
+  out: string,
+  manifest: ExportManifest,
+  options: { onProgress?: (done: number, total: number) => void } = {}
+): Promise<ExportResult> {
+  const segments = folderSegments(folder);
+  const target = manifest.format === 'mbox'
+    ? join(out, ...segments.slice(0, -1), `${segments[segments.length - 1]}.mbox`)
+    : join(out, ...segments);
+
+  const progress = manifest.folders[folder.folderId] ??= {
+    path: folder.path || folder.folderName,
+    exported: [],
+    complete: false,
+  };
+  const done = new Set(progress.exported);
+
+  if (manifest.format === 'mbox') {
+    await mkdir(dirname(target), { recursive: true });
+    // Cut off a message that was half-written when the last run stopped
+    const size = await stat(target).then(s => s.size, () => 0);
+    if (size > (progress.size ?? 0)) {
+      await truncate(target, progress.size ?? 0);
+    }
+  } else {
+    for (const sub of ['cur', 'new', 'tmp']) {
+      await mkdir(join(target, sub), { recursive: true });
+    }
+  }
+
+  const messages = await listFolderMessages(accountId, folder.folderId);
+  const pending = messages.filter(m => !done.has(m.messageId));
+  let exported = 0;
+
+  try {
+    for (const email of pending) {
+      const raw = await getOriginalMessage(accountId, folder.folderId, email.messageId);
+
+      if (manifest.format === 'mbox') {
+        const handle = await open(target, 'a');
+        try {
+          await handle.write(toMboxEntry(email, raw));
+          await handle.sync();
+        } finally {
+          await handle.close();
+        }
+        progress.size = (await stat(target)).size;
+      } else {
+        // Deliver through tmp/ so readers never see a partial file
+        const name = maildirName(email);
+        const temp = join(target, 'tmp', name);
+        await writeFile(temp, raw.replace(/\r\n/g, '\n'));
+        await rename(temp, join(target, 'cur', name));
+      }
+
+      progress.exported.push(email.messageId);
+      exported++;
+      if (exported % MANIFEST_BATCH === 0) {
+        await saveManifest(out, manifest);
+      }
+      options.onProgress?.(exported, pending.length);
+    }
+    progress.complete = true;
+  } finally {
+    // Also on failure, so the next run skips what was written
+    await saveManifest(out, manifest);
+  }
+
+  return {
+    folderId: folder.folderId,
+    folderName: folder.path || folder.folderName,
+    exported,
+    skipped: messages.length - pending.length,
+    path: target,
+  };
+}
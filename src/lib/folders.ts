@@ -0,0 +1,106 @@
+import { getFolders } from './client.js';
+import { loadFolders, saveFolders } from './store.js';
+import { NotFoundError, ValidationError, ZohoError } from './errors.js';
+import type { ZohoFolder } from '../types/zoho.js';
+
+/**
+ * Words that pick a system folder by its type, whatever it is called
+ * in the mailbox's language
+ */
+const SYSTEM_FOLDERS: Record<string, string> = {
+  inbox: 'Inbox',
+  drafts: 'Drafts',
+  templates: 'Templates',
+  sent: 'Sent',
+  spam: 'Spam',
+  junk: 'Spam',
+  trash: 'Trash',
+  outbox: 'Outbox',
+};
+
+function pathOf(folder: ZohoFolder): string {
+  return folder.path || `/${folder.folderName}`;
+}
+
+/**
+ * Find a folder in a list by ID, path (`/Clients/Acme`), system type
+ * (`inbox`, `sent`, `trash`, ...) or name. Names and paths ignore case;
+ * a name shared by several folders is an error listing their paths.
+ */
+export function findFolder(folders: ZohoFolder[], selector: string): ZohoFolder {
+  const wanted = selector.trim();
+  const lower = wanted.toLowerCase();
+
+  const byId = folders.find(f => f.folderId === wanted);
+  if (byId) return byId;
+
+  if (wanted.includes('/')) {
+    const path = `/${lower.replace(/^\/+|\/+$/g, '')}`;
+    const byPath = folders.find(f => pathOf(f).toLowerCase() === path);
+    if (byPath) return byPath;
+  } else {
+    const type = SYSTEM_FOLDERS[lower];
+    const system = folders.filter(f => type && f.folderType === type);
+    // Custom folders may share a system type, so prefer the one named after it
+    const bySystem = system.find(f => f.folderName.toLowerCase() === type.toLowerCase()) ?? system[0];
+    if (bySystem) return bySystem;
+
+    const byName = folders.filter(f => f.folderName.toLowerCase() === lower);
+    if (byName.length === 1) return byName[0];
+    if (byName.length > 1) {
+      throw new ValidationError(`Folder name "${wanted}" is ambiguous`, {
+        hint: `Matches ${byName.map(pathOf).join(', ')}; pass the path or folder ID instead`,
+      });
+    }
+  }
+
+  throw new NotFoundError(`Folder "${wanted}" not found`, {
+    hint: 'Run `zoho-mail folders list` to see folders',
+  });
+}
+
+/**
+ * Fetch the folder list and update the cached copy
+ */
+export async function refreshFolders(accountId: string): Promise<ZohoFolder[]> {
+  const folders = await getFolders(accountId);
+  await saveFolders(accountId, folders);
+  return folders;
+}
+
+/**
+ * Look up a folder in the cached folder list, fetching a fresh one when
+ * nothing is cached or the cache doesn't know the folder yet
+ */
+export async function resolveFolder(
+  accountId: string,
+  selector: string,
+  options: { offline?: boolean } = {}
+): Promise<ZohoFolder> {
+  const cached = await loadFolders(accountId);
+  if (cached) {
+    try {
+      return findFolder(cached, selector);
+    } catch (err) {
+      if (options.offline || !(err instanceof NotFoundError)) throw err;
+    }
+  } else if (options.offline) {
+    throw new ZohoError('Nothing cached for this account yet', {
+      hint: 'Run `zoho-mail sync` while online to fill the local cache',
+    });
+  }
+  return findFolder(await refreshFolders(accountId), selector);
+}
+
+/**
+ * The folder ID for a selector. Numeric selectors are taken as IDs
+ * without a lookup; a folder whose name is all digits needs its path.
+ */
+export async function resolveFolderId(
+  accountId: string,
+  selector: string,
+  options: { offline?: boolean } = {}
+): Promise<string> {
+  if (/^\d+$/.test(selector.trim())) return selector.trim();
+  return (await resolveFolder(accountId, selector, options)).folderId;
+}
@@ -0,0 +1,243 @@
+import Table from 'cli-table3';
+import chalk from 'chalk';
+import { stripVTControlCharacters } from 'util';
+import { ValidationError } from './errors.js';
+
+/**
+ * Output formats shared by the listing commands:
+ *
+ *   table    boxed columns sized to the terminal (default)
+ *   compact  one line per item
+ *   csv/tsv  a header row, then one row per item
+ *   json     the full objects as an array (or just --fields)
+ *   ndjson   one JSON object per line
+ *
+ * or a template such as '{{date}} {{from}} {{subject}}'. Each listing
+ * describes its items as named fields; --fields picks and orders them.
+ */
+
+export type OutputFormat = 'table' | 'compact' | 'csv' | 'tsv' | 'json' | 'ndjson';
+
+const FORMATS: OutputFormat[] = ['table', 'compact', 'csv', 'tsv', 'json', 'ndjson'];
+
+export interface FormatSpec {
+  format: OutputFormat | 'template';
+  template?: string;
+  /** Field names from --fields, in the order given */
+  fields?: string[];
+}
+
+export interface Field<T> {
+  /** Name for --fields and {{name}} */
+  name: string;
+  /** Table and CSV heading */
+  header: string;
+  /** Plain text value */
+  value: (item: T) => string;
+  /** Styled value for tables and compact lines */
+  cell?: (item: T) => string;
+  /** Long free text that may be cut to fit the terminal */
+  flexible?: boolean;
+}
+
+/** Terminal width assumed when output isn't a terminal */
+const DEFAULT_WIDTH = 120;
+
+/** Narrowest a flexible column is cut to */
+const MIN_FLEX_WIDTH = 10;
+
+export const FORMAT_HELP = 'table, compact, csv, tsv, json, ndjson, or a template like \'{{date}} {{from}} {{subject}}\'';
+
+/** Help for the --format and --fields options */
+export const FORMAT_OPTION = 'Output format: table, compact, csv, tsv, json, ndjson, or a \'{{field}} ...\' template';
+export const FIELDS_OPTION = 'Comma-separated fields to show, in order';
+
+/**
+ * Read --format, --fields and --json. Anything containing `{{` is a
+ * template; `\t` and `\n` in it stand for tab and newline.
+ */
+export function parseFormat(options: { format?: string; fields?: string; json?: boolean }): FormatSpec {
+  if (options.json && options.format && options.format !== 'json') {
+    throw new ValidationError('Use --json or --format, not both');
+  }
+  const fields = options.fields
+    ?.split(',')
+    .map(field => field.trim())
+    .filter(Boolean);
+
+  const format = options.json ? 'json' : options.format ?? 'table';
+  if (format.includes('{{')) {
+    if (fields?.length) {
+      throw new ValidationError('A template picks its own fields; drop --fields');
+    }
+    return { format: 'template', template: format.replace(/\\t/g, '\t').replace(/\\n/g, '\n') };
+  }
+  if (!FORMATS.includes(format as OutputFormat)) {
+    throw new ValidationError(`Unknown format "${format}"`, { hint: `Use ${FORMAT_HELP}` });
+  }
+  return { format: format as OutputFormat, fields: fields?.length ? fields : undefined };
+}
+
+/** Human formats get summaries and handles; the rest are data for other tools */
+export function isHumanFormat(spec: FormatSpec): boolean {
+  return spec.format === 'table' || spec.format === 'compact';
+}
+
+export function isJsonFormat(spec: FormatSpec): boolean {
+  return spec.format === 'json' || spec.format === 'ndjson';
+}
+
+function lookupField<T>(fields: Field<T>[], name: string): Field<T> {
+  const field = fields.find(f => f.name === name.toLowerCase());
+  if (!field) {
+    throw new ValidationError(`Unknown field "${name}"`, {
+      hint: `Fields: ${fields.map(f => f.name).join(', ')}`,
+    });
+  }
+  return field;
+}
+
+/**
+ * The fields to show: --fields if given, else the listing's defaults
+ */
+export function selectFields<T>(fields: Field<T>[], spec: FormatSpec, defaults: string[]): Field<T>[] {
+  return (spec.fields ?? defaults).map(name => lookupField(fields, name));
+}
+
+/**
+ * Fail on unknown fields in --fields or a template before anything is
+ * fetched
+ */
+export function checkFields<T>(fields: Field<T>[], spec: FormatSpec): void {
+  spec.fields?.forEach(name => lookupField(fields, name));
+  if (spec.template) renderTemplate([], fields, spec.template);
+}
+
+/**
+ * An item as JSON: the whole object, or only the chosen fields' values
+ */
+export function toRecord<T>(item: T, fields: Field<T>[], spec: FormatSpec): unknown {
+  if (!spec.fields) return item;
+  return Object.fromEntries(selectFields(fields, spec, []).map(f => [f.name, f.value(item)]));
+}
+
+/** Columns in a terminal, for sizing tables */
+export function terminalWidth(): number {
+  return process.stdout.isTTY && process.stdout.columns ? process.stdout.columns : DEFAULT_WIDTH;
+}
+
+/** Width on screen: escape codes take none, emoji two, combining marks none */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of stripVTControlCharacters(text)) {
+    if (/\p{Extended_Pictographic}/u.test(char)) width += 2;
+    else if (!/[\p{Mn}\u200b-\u200f\ufe0f]/u.test(char)) width++;
+  }
+  return width;
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function cut(text: string, width: number): string {
+  if (displayWidth(text) <= width) return text;
+  const chars = [...text];
+  while (chars.length && displayWidth(chars.join('')) > width - 1) chars.pop();
+  return `${chars.join('')}…`;
+}
+
+/**
+ * Column widths that fit `width`: columns keep their natural width when
+ * everything fits, otherwise the flexible ones share what is left
+ */
+function fitColumns(natural: number[], flexible: boolean[], width: number): number[] {
+  // Each column has a space either side and a border after it, plus one
+  const available = width - 1 - natural.length * 3;
+  if (natural.reduce((sum, w) => sum + w, 0) <= available) return natural;
+  const fixed = natural.reduce((sum, w, i) => sum + (flexible[i] ? 0 : w), 0);
+  let room = available - fixed;
+
+  const widths = [...natural];
+  // Narrowest first, so short columns keep their width and the rest share the remainder
+  const flex = natural.map((_, i) => i).filter(i => flexible[i]).sort((a, b) => natural[a] - natural[b]);
+  flex.forEach((column, index) => {
+    const share = Math.floor(room / (flex.length - index));
+    widths[column] = Math.max(Math.min(natural[column], MIN_FLEX_WIDTH), Math.min(natural[column], share));
+    room -= widths[column];
+  });
+  return widths;
+}
+
+function renderTable<T>(items: T[], fields: Field<T>[]): string {
+  const rows = items.map(item => fields.map(f => singleLine(f.cell ? f.cell(item) : f.value(item)) || '-'));
+  const natural = fields.map((f, i) => Math.max(displayWidth(f.header), ...rows.map(row => displayWidth(row[i]))));
+  const widths = fitColumns(natural, fields.map(f => Boolean(f.flexible)), terminalWidth());
+
+  const table = new Table({
+    head: fields.map(f => chalk.cyan(f.header)),
+    style: { head: [], border: [] },
+    colWidths: widths.map(w => w + 2),
+  });
+  for (const row of rows) {
+    table.push(row.map((cell, i) => fields[i].flexible ? cut(cell, widths[i]) : cell));
+  }
+  return table.toString();
+}
+
+function renderCompact<T>(items: T[], fields: Field<T>[]): string {
+  const width = process.stdout.isTTY ? terminalWidth() : Infinity;
+  return items.map(item => {
+    const line = fields
+      .map((f, i) => {
+        const text = singleLine(f.cell ? f.cell(item) : f.value(item)) || '-';
+        return i === 0 ? chalk.gray(text) : text;
+      })
+      .join('  ');
+    return displayWidth(line) > width ? cut(stripVTControlCharacters(line), width) : line;
+  }).join('\n');
+}
+
+function csvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderDelimited<T>(items: T[], fields: Field<T>[], separator: ',' | '\t'): string {
+  const escape = separator === ','
+    ? csvValue
+    : (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+  const lines = [fields.map(f => f.name), ...items.map(item => fields.map(f => f.value(item)))];
+  return lines.map(line => line.map(escape).join(separator)).join('\n');
+}
+
+function renderTemplate<T>(items: T[], fields: Field<T>[], template: string): string {
+  const parts = template.split(/\{\{\s*([\w-]+)\s*\}\}/);
+  // Odd parts are field names; check them before printing anything
+  const used = parts.map((part, i) => i % 2 ? lookupField(fields, part) : undefined);
+  return items
+    .map(item => parts.map((part, i) => used[i] ? used[i]!.value(item) : part).join(''))
+    .join('\n');
+}
+
+/**
+ * Render items in any format. `defaults` are the fields shown when
+ * --fields isn't given; JSON without --fields prints the whole objects.
+ */
+export function renderItems<T>(items: T[], fields: Field<T>[], spec: FormatSpec, defaults: string[]): string {
+  switch (spec.format) {
+    case 'json':
+      return JSON.stringify(items.map(item => toRecord(item, fields, spec)), null, 2);
+    case 'ndjson':
+      return items.map(item => JSON.stringify(toRecord(item, fields, spec))).join('\n');
+    case 'template':
+      return renderTemplate(items, fields, spec.template!);
+    case 'csv':
+      return renderDelimited(items, selectFields(fields, spec, defaults), ',');
+    case 'tsv':
+      return renderDelimited(items, selectFields(fields, spec, defaults), '\t');
+    case 'compact':
+      return renderCompact(items, selectFields(fields, spec, defaults));
+    case 'table':
+      return renderTable(items, selectFields(fields, spec, defaults));
+  }
+}
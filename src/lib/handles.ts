@@ -0,0 +1,112 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { getActiveProfile, getConfigPath } from './config.js';
+import { ValidationError } from './errors.js';
+import type { ZohoEmail } from '../types/zoho.js';
+
+/**
+ * Short handles (1, 2, 3...) for the messages of the last table listing,
+ * so `mail read 3` or `mail archive 1 4 7` work without copying IDs.
+ * The map is kept per profile and records the account it was made for;
+ * handles from another account or an old listing are refused rather
+ * than guessed at.
+ */
+
+/** How long a listing's handles stay usable */
+const HANDLE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Handles are small numbers; Zoho message IDs are far longer */
+const HANDLE_PATTERN = /^\d{1,6}$/;
+
+export interface MessageRef {
+  messageId: string;
+  /** Folder the listing found the message in */
+  folderId?: string;
+}
+
+interface HandleMap {
+  accountId: string;
+  /** When the listing was made (epoch milliseconds) */
+  createdAt: number;
+  handles: Record<string, MessageRef>;
+}
+
+function handlesPath(): string {
+  return join(dirname(getConfigPath()), 'handles', `${getActiveProfile()}.json`);
+}
+
+export function isHandle(ref: string): boolean {
+  return HANDLE_PATTERN.test(ref);
+}
+
+async function loadHandleMap(): Promise<HandleMap | undefined> {
+  try {
+    return JSON.parse(await readFile(handlesPath(), 'utf-8')) as HandleMap;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw err;
+  }
+}
+
+/**
+ * Number a listing's messages from 1 and remember the numbers, replacing
+ * the previous listing's. Returns each message's handle by message ID.
+ */
+export async function saveHandles(
+  accountId: string,
+  emails: ZohoEmail[],
+  folderId?: string
+): Promise<Map<string, string>> {
+  const map: HandleMap = { accountId, createdAt: Date.now(), handles: {} };
+  const byMessage = new Map<string, string>();
+  emails.forEach((email, index) => {
+    const handle = String(index + 1);
+    map.handles[handle] = { messageId: email.messageId, folderId: email.folderId || folderId };
+    byMessage.set(email.messageId, handle);
+  });
+
+  const path = handlesPath();
+  await mkdir(dirname(path), { recursive: true });
+  const temp = `${path}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(map, null, 2));
+  await rename(temp, path);
+  return byMessage;
+}
+
+/**
+ * Turn a message argument into a message ID: handles are looked up in the
+ * last listing, anything else is taken as an ID
+ */
+export async function resolveMessageRef(accountId: string, ref: string): Promise<MessageRef> {
+  if (!isHandle(ref)) {
+    return { messageId: ref };
+  }
+
+  const hint = 'Run `zoho-mail mail list` (or `mail search`) again, or pass the full message ID';
+  const map = await loadHandleMap();
+  if (!map) {
+    throw new ValidationError(`No listing to look up handle ${ref} in`, { hint });
+  }
+  if (map.accountId !== accountId) {
+    throw new ValidationError(`Handle ${ref} is from a listing of another account`, { hint });
+  }
+  if (Date.now() - map.createdAt > HANDLE_TTL_MS) {
+    throw new ValidationError(`Handle ${ref} has expired`, { hint });
+  }
+  const message = map.handles[ref];
+  if (!message) {
+    throw new ValidationError(`No message ${ref} in the last listing`, { hint });
+  }
+  return message;
+}
+
+/**
+ * The folder the last listing found a message in, if it was listed
+ */
+export async function listedFolderOf(accountId: string, messageId: string): Promise<string | undefined> {
+  const map = await loadHandleMap();
+  if (!map || map.accountId !== accountId || Date.now() - map.createdAt > HANDLE_TTL_MS) {
+    return undefined;
+  }
+  return Object.values(map.handles).find(m => m.messageId === messageId)?.folderId;
+}
@@ -0,0 +1,184 @@
+/**
+ * RFC 822 header parsing, for `mail read --headers`
+ */
+
+export interface MessageHeader {
+  name: string;
+  value: string;
+}
+
+/** One hop of the Received chain, newest first as in the message */
+export interface ReceivedHop {
+  from?: string;
+  by?: string;
+  with?: string;
+  id?: string;
+  for?: string;
+  date?: string;
+  raw: string;
+}
+
+/** One method verdict from an Authentication-Results header */
+export interface AuthResult {
+  method: string;
+  result: string;
+  /** e.g. smtp.mailfrom, header.d, header.from */
+  properties: Record<string, string>;
+  comment?: string;
+  /** Server that produced the verdict (authserv-id) */
+  authority: string;
+}
+
+export interface HeaderReport {
+  headers: MessageHeader[];
+  received: ReceivedHop[];
+  authentication: AuthResult[];
+  list: Record<string, string>;
+}
+
+/**
+ * Split a header block into fields, unfolding continuation lines and
+ * decoding RFC 2047 encoded-words. Parsing stops at the first blank line,
+ * so a whole message can be passed in.
+ */
+export function parseHeaders(raw: string): MessageHeader[] {
+  const headers: MessageHeader[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if (line === '') break;
+    if (/^[ \t]/.test(line) && headers.length) {
+      headers[headers.length - 1].value += ' ' + line.trim();
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    headers.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+  }
+  return headers.map(h => ({ name: h.name, value: decodeEncodedWords(h.value) }));
+}
+
+/**
+ * Decode `=?charset?B|Q?...?=` words; unknown charsets are left as-is
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    // Whitespace between adjacent encoded words is not part of the text
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (word, charset: string, encoding: string, text: string) => {
+      const label = charset.toLowerCase().split('*')[0];
+      const bytes = encoding.toLowerCase() === 'b'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(
+          text.replace(/_/g, ' ').replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+          'latin1'
+        );
+      try {
+        return new TextDecoder(label).decode(bytes);
+      } catch {
+        return word;
+      }
+    });
+}
+
+export function getHeaders(headers: MessageHeader[], name: string): string[] {
+  return headers.filter(h => h.name.toLowerCase() === name.toLowerCase()).map(h => h.value);
+}
+
+/**
+ * Break a Received header into its from/by/with/id/for clauses and date
+ */
+export function parseReceived(value: string): ReceivedHop {
+  const semicolon = value.lastIndexOf(';');
+  const clauses = semicolon === -1 ? value : value.slice(0, semicolon);
+  const hop: ReceivedHop = { raw: value };
+  if (semicolon !== -1) {
+    hop.date = value.slice(semicolon + 1).trim();
+  }
+
+  // Each clause runs until the next keyword; parenthesised comments stay with their clause
+  const pattern = /\b(from|by|with|id|for|via)\s+([\s\S]*?)(?=\s+\b(?:from|by|with|id|for|via)\s+[^\s(]|$)/gi;
+  for (const match of clauses.matchAll(pattern)) {
+    const key = match[1].toLowerCase() as 'from' | 'by' | 'with' | 'id' | 'for' | 'via';
+    if (key !== 'via' && !hop[key]) {
+      hop[key] = match[2].trim();
+    }
+  }
+  return hop;
+}
+
+/**
+ * Parse one Authentication-Results header (RFC 8601) into per-method verdicts
+ */
+export function parseAuthenticationResults(value: string): AuthResult[] {
+  // Semicolons inside comments would split a result in two
+  const parts = splitOutsideComments(value, ';').map(p => p.trim()).filter(Boolean);
+  const authority = (parts.shift() || '').split(/\s/)[0];
+
+  const results: AuthResult[] = [];
+  for (const part of parts) {
+    const match = part.match(/^([\w-]+)\s*=\s*([\w-]+)\s*([\s\S]*)$/);
+    if (!match) continue;
+
+    let rest = match[3];
+    let comment: string | undefined;
+    const commentMatch = rest.match(/^\(([^)]*)\)/);
+    if (commentMatch) {
+      comment = commentMatch[1].trim();
+      rest = rest.slice(commentMatch[0].length);
+    }
+
+    const properties: Record<string, string> = {};
+    for (const prop of rest.matchAll(/([\w-]+\.[\w-]+)\s*=\s*("[^"]*"|[^\s;]+)/g)) {
+      properties[prop[1].toLowerCase()] = prop[2].replace(/^"|"$/g, '');
+    }
+
+    results.push({
+      method: match[1].toLowerCase(),
+      result: match[2].toLowerCase(),
+      properties,
+      comment,
+      authority,
+    });
+  }
+  return results;
+}
+
+function splitOutsideComments(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of value) {
+    if (char === '"' && depth === 0) quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')' && depth > 0) depth--;
+    if (char === separator && depth === 0 && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Pull out the headers worth reading when judging where a message came from
+ */
+export function analyzeHeaders(raw: string): HeaderReport {
+  const headers = parseHeaders(raw);
+
+  const list: Record<string, string> = {};
+  for (const header of headers) {
+    if (/^list-/i.test(header.name)) {
+      list[header.name] = header.value;
+    }
+  }
+
+  return {
+    headers,
+    received: getHeaders(headers, 'Received').map(parseReceived),
+    authentication: getHeaders(headers, 'Authentication-Results').flatMap(parseAuthenticationResults),
+    list,
+  };
+}
@@ -0,0 +1,31 @@
+/** Elements that mark a body as HTML; `<sam@example.com>` in plain text is not one */
+const HTML_TAGS = [
+  'html', 'head', 'body', 'div', 'p', 'br', 'span', 'a', 'b', 'i', 'u', 'em', 'strong',
+  'table', 'thead', 'tbody', 'tr', 'td', 'th', 'ul', 'ol', 'li', 'img', 'blockquote',
+  'pre', 'code', 'hr', 'font', 'center', 'style', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+];
+
+const HTML_TAG = new RegExp(`<\\/?(${HTML_TAGS.join('|')})(\\s[^<>]*)?\\/?>|<!doctype html`, 'i');
+
+/**
+ * Whether a body looks like HTML rather than plain text
+ */
+export function isHtml(text: string): boolean {
+  return HTML_TAG.test(text);
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Plain text as HTML, keeping line breaks
+ */
+export function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\r?\n/g, '<br>');
+}
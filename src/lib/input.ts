@@ -0,0 +1,69 @@
+import { spawn } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createInterface } from 'readline/promises';
+import { ZohoError } from './errors.js';
+
+/**
+ * Reading from the user: piped stdin, an editor session, and questions
+ * at the terminal
+ */
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/** Whether we can open an editor and ask questions */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+/** $VISUAL, else $EDITOR, else vi */
+export function editorCommand(): string {
+  return process.env.VISUAL || process.env.EDITOR || 'vi';
+}
+
+/**
+ * Open `text` in the user's editor and return what they saved. The
+ * editor command may carry arguments (`code --wait`), so it runs through
+ * the shell.
+ */
+export async function editText(text: string, fileName: string): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'zoho-mail-'));
+  const path = join(dir, fileName);
+  try {
+    await writeFile(path, text, { mode: 0o600 });
+    const command = editorCommand();
+    const code = await new Promise<number>((resolve, reject) => {
+      const child = spawn(`${command} "${path}"`, { shell: true, stdio: 'inherit' });
+      child.on('error', reject);
+      child.on('close', (status, signal) => resolve(status ?? (signal ? 128 : 1)));
+    });
+    if (code !== 0) {
+      throw new ZohoError(`Editor "${command}" exited with status ${code}`, {
+        hint: 'Set $EDITOR to the editor you want, e.g. export EDITOR=nano',
+      });
+    }
+    return await readFile(path, 'utf-8');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Ask a question at the terminal and return the first letter of the
+ * answer, lowercased ('' for just Enter)
+ */
+export async function ask(question: string): Promise<string> {
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return (await prompt.question(question)).trim().charAt(0).toLowerCase();
+  } finally {
+    prompt.close();
+  }
+}
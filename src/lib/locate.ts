@@ -0,0 +1,149 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { emailPages, searchEmails } from './client.js';
+import { NotFoundError } from './errors.js';
+import { refreshFolders } from './folders.js';
+import { listedFolderOf } from './handles.js';
+import { getStoreDir, loadFolders, loadMessages } from './store.js';
+
+/**
+ * Finding which folder a message is in. Zoho wants the folder for almost
+ * every call on a message, so lookups are remembered in
+ * cache/<accountId>/locations.json and a message only has to be hunted
+ * down once.
+ */
+
+/** Locations kept; the oldest are dropped beyond this */
+const MAX_LOCATIONS = 5000;
+
+function locationsPath(accountId: string): string {
+  return join(getStoreDir(accountId), 'locations.json');
+}
+
+async function loadLocations(accountId: string): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await readFile(locationsPath(accountId), 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw err;
+  }
+}
+
+async function saveLocations(accountId: string, locations: Record<string, string>): Promise<void> {
+  const entries = Object.entries(locations);
+  const kept = Object.fromEntries(entries.slice(Math.max(0, entries.length - MAX_LOCATIONS)));
+
+  const path = locationsPath(accountId);
+  await mkdir(getStoreDir(accountId), { recursive: true });
+  const temp = `${path}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(kept));
+  await rename(temp, path);
+}
+
+/**
+ * Record where messages are (a folder ID), or that they are gone (undefined)
+ */
+export async function rememberLocations(
+  accountId: string,
+  messages: { messageId: string; folderId?: string }[]
+): Promise<void> {
+  if (messages.length === 0) return;
+  const locations = await loadLocations(accountId);
+  for (const { messageId, folderId } of messages) {
+    // Re-inserting moves the entry to the end, so recent lookups are kept longest
+    delete locations[messageId];
+    if (folderId) locations[messageId] = folderId;
+  }
+  await saveLocations(accountId, locations);
+}
+
+/**
+ * Where the local state last saw a message: the location cache, the last
+ * listing, or the offline store
+ */
+async function knownFolderOf(accountId: string, messageId: string): Promise<string | undefined> {
+  const remembered = (await loadLocations(accountId))[messageId];
+  if (remembered) return remembered;
+
+  const listed = await listedFolderOf(accountId, messageId);
+  if (listed) return listed;
+
+  const synced = (await loadMessages(accountId)).find(e => e.messageId === messageId);
+  return synced?.folderId || undefined;
+}
+
+/**
+ * The folder a search for the ID turns up, if any. Zoho may not index IDs
+ * and may refuse the search outright; either way the scan still runs.
+ */
+async function searchFolderOf(accountId: string, messageId: string): Promise<string | undefined> {
+  try {
+    const hits = await searchEmails(accountId, `entire:${messageId}`, { limit: 50 });
+    return hits.find(e => e.messageId === messageId)?.folderId || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function scanFolders(
+  accountId: string,
+  messageId: string,
+  onScan?: (folderName: string) => void
+): Promise<string | undefined> {
+  const folders = await loadFolders(accountId) ?? await refreshFolders(accountId);
+  // Most mail sits in the Inbox, so look there first
+  const ordered = [...folders].sort((a, b) => Number(b.folderType === 'Inbox') - Number(a.folderType === 'Inbox'));
+  for (const folder of ordered) {
+    onScan?.(folder.path || folder.folderName);
+    for await (const page of emailPages(accountId, folder.folderId)) {
+      if (page.some(e => e.messageId === messageId)) return folder.folderId;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The folder holding a message: what local state last recorded, else a
+ * search for the ID, else a scan of every folder. `fresh` skips the
+ * local state, for when it turned out to be stale.
+ */
+export async function findMessageFolder(
+  accountId: string,
+  messageId: string,
+  options: { fresh?: boolean; onScan?: (folderName: string) => void } = {}
+): Promise<string> {
+  if (!options.fresh) {
+    const known = await knownFolderOf(accountId, messageId);
+    if (known) return known;
+  }
+
+  const folderId = await searchFolderOf(accountId, messageId) || await scanFolders(accountId, messageId, options.onScan);
+  if (!folderId) {
+    throw new NotFoundError(`Message ${messageId} not found in any folder`);
+  }
+  await rememberLocations(accountId, [{ messageId, folderId }]);
+  return folderId;
+}
+
+/**
+ * Run `action` with the folder holding a message (`folderId` if given,
+ * else findMessageFolder). If that folder no longer has the message,
+ * for example because it was moved in another client, look it up afresh
+ * and try once more.
+ */
+export async function withMessageFolder<T>(
+  accountId: string,
+  messageId: string,
+  action: (folderId: string) => Promise<T>,
+  options: { folderId?: string; onScan?: (folderName: string) => void } = {}
+): Promise<T> {
+  const folderId = options.folderId ?? await findMessageFolder(accountId, messageId, options);
+  try {
+    return await action(folderId);
+  } catch (err) {
+    if (!(err instanceof NotFoundError)) throw err;
+    const current = await findMessageFolder(accountId, messageId, { fresh: true, onScan: options.onScan });
+    if (current === folderId) throw err;
+    return action(current);
+  }
+}
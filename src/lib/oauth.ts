@@ -0,0 +1,251 @@
+import { createServer } from 'http';
+import { randomBytes } from 'crypto';
+import axios from 'axios';
+import type { ZohoOAuthTokens } from '../types/zoho.js';
+
+export const DEFAULT_SCOPES = [
+  'ZohoMail.accounts.ALL',
+  'ZohoMail.folders.ALL',
+  'ZohoMail.tags.ALL',
+  'ZohoMail.messages.ALL',
+];
+
+export const DEFAULT_CALLBACK_PORT = 8765;
+
+// Refresh slightly early so a token never expires mid-request
+const EXPIRY_MARGIN_MS = 60_000;
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+  error?: string;
+}
+
+/**
+ * Accounts server (OAuth endpoint) for a Zoho region, e.g. https://accounts.zoho.eu.
+ * ZOHO_ACCOUNTS_URL overrides it (used by the test suite).
+ */
+export function getAccountsServer(region: string): string {
+  return process.env.ZOHO_ACCOUNTS_URL || `https://accounts.${region || 'zoho.com'}`;
+}
+
+/** Zoho's own accounts servers: accounts.zoho.com, accounts.zoho.com.au, ... */
+const ZOHO_ACCOUNTS_HOST = /^accounts\.zoho\.[a-z]{2,3}(\.[a-z]{2})?$/;
+
+/**
+ * The origin of an accounts server named in the authorization redirect,
+ * if it is one of Zoho's or the region's own. The client secret and the
+ * code are sent there, so any other host is refused.
+ */
+function trustedAccountsServer(server: string, region: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(server);
+  } catch {
+    return undefined;
+  }
+  if (url.origin === new URL(getAccountsServer(region)).origin) return url.origin;
+  const isZoho = url.protocol === 'https:' && !url.port && !url.username && ZOHO_ACCOUNTS_HOST.test(url.hostname);
+  return isZoho ? url.origin : undefined;
+}
+
+/**
+ * Region of an accounts server URL, e.g. https://accounts.zoho.eu -> zoho.eu
+ */
+export function getRegionFromAccountsServer(accountsServer: string): string {
+  return new URL(accountsServer).hostname.replace(/^accounts\./, '');
+}
+
+export function isTokenExpired(tokens: ZohoOAuthTokens): boolean {
+  return Date.now() >= tokens.expiresAt - EXPIRY_MARGIN_MS;
+}
+
+async function requestToken(
+  accountsServer: string,
+  params: Record<string, string>
+): Promise<TokenResponse> {
+  const response = await axios.post<TokenResponse>(
+    `${accountsServer}/oauth/v2/token`,
+    new URLSearchParams(params).toString(),
+    {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 30_000,
+      validateStatus: () => true,
+    }
+  );
+
+  // Zoho answers 200 with an "error" field for rejected grants
+  if (response.data?.error || !response.data?.access_token) {
+    throw new Error(`OAuth token request failed: ${response.data?.error || `HTTP ${response.status}`}`);
+  }
+  return response.data;
+}
+
+/**
+ * Wait for the authorization redirect on a loopback listener.
+ * `onListening` runs once the redirect can be received.
+ */
+function waitForAuthorizationCode(
+  port: number,
+  state: string,
+  region: string,
+  timeoutMs: number,
+  onListening: () => void
+): Promise<{ code: string; accountsServer?: string }> {
+  return new Promise((resolve, reject) => {
+    const server = createServer((req, res) => {
+      const url = new URL(req.url || '/', `http://127.0.0.1:${port}`);
+      if (url.pathname !== '/callback') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const finish = (err: Error | null, message: string) => {
+        clearTimeout(timer);
+        res.writeHead(err ? 400 : 200, { 'Content-Type': 'text/plain; charset=utf-8' });
+        // Let the page reach the browser before a failure ends the process
+        res.end(message, () => {
+          server.close();
+          if (err) reject(err);
+        });
+      };
+
+      const errorParam = url.searchParams.get('error');
+      if (errorParam) {
+        finish(new Error(`Authorization denied: ${errorParam}`), 'Authorization failed. You can close this window.');
+        return;
+      }
+      if (url.searchParams.get('state') !== state) {
+        finish(new Error('OAuth state mismatch'), 'Invalid state. You can close this window.');
+        return;
+      }
+      const code = url.searchParams.get('code');
+      if (!code) {
+        finish(new Error('No authorization code in redirect'), 'Missing code. You can close this window.');
+        return;
+      }
+
+      // Zoho tells us which data center the user actually belongs to
+      const named = url.searchParams.get('accounts-server');
+      const accountsServer = named ? trustedAccountsServer(named, region) : undefined;
+      if (named && !accountsServer) {
+        finish(new Error(`Refusing to send the authorization code to ${named}: not a Zoho accounts server`),
+          'Unexpected accounts server. You can close this window.');
+        return;
+      }
+
+      finish(null, 'Zoho Mail CLI authorized. You can close this window.');
+      resolve({ code, accountsServer });
+    });
+
+    const timer = setTimeout(() => {
+      server.close();
+      reject(new Error('Timed out waiting for authorization'));
+    }, timeoutMs);
+
+    server.on('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    server.listen(port, '127.0.0.1', onListening);
+  });
+}
+
+/**
+ * Run the OAuth 2.0 authorization-code flow against Zoho Accounts.
+ * `onAuthorizeUrl` receives the URL the user has to open in a browser.
+ */
+export async function authorize(options: {
+  clientId: string;
+  clientSecret: string;
+  region: string;
+  port?: number;
+  scopes?: string[];
+  timeoutMs?: number;
+  onAuthorizeUrl: (url: string) => void;
+}): Promise<ZohoOAuthTokens> {
+  const port = options.port || DEFAULT_CALLBACK_PORT;
+  const scopes = options.scopes || DEFAULT_SCOPES;
+  const redirectUri = `http://127.0.0.1:${port}/callback`;
+  const state = randomBytes(16).toString('hex');
+
+  const authorizeUrl = new URL(`${getAccountsServer(options.region)}/oauth/v2/auth`);
+  authorizeUrl.search = new URLSearchParams({
+    scope: scopes.join(','),
+    client_id: options.clientId,
+    response_type: 'code',
+    access_type: 'offline',
+    prompt: 'consent',
+    redirect_uri: redirectUri,
+    state,
+  }).toString();
+
+  const { code, accountsServer: redirectServer } = await waitForAuthorizationCode(
+    port,
+    state,
+    options.region,
+    options.timeoutMs || 5 * 60_000,
+    () => options.onAuthorizeUrl(authorizeUrl.toString())
+  );
+
+  const accountsServer = redirectServer || getAccountsServer(options.region);
+  const token = await requestToken(accountsServer, {
+    grant_type: 'authorization_code',
+    client_id: options.clientId,
+    client_secret: options.clientSecret,
+    redirect_uri: redirectUri,
+    code,
+  });
+
+  if (!token.refresh_token) {
+    throw new Error('Zoho did not return a refresh token');
+  }
+
+  return {
+    accessToken: token.access_token!,
+    refreshToken: token.refresh_token,
+    expiresAt: Date.now() + (token.expires_in || 3600) * 1000,
+    scopes: token.scope ? token.scope.split(/[ ,]+/) : scopes,
+    accountsServer,
+    clientId: options.clientId,
+    clientSecret: options.clientSecret,
+  };
+}
+
+/**
+ * Exchange the refresh token for a new access token
+ */
+export async function refreshTokens(tokens: ZohoOAuthTokens): Promise<ZohoOAuthTokens> {
+  const token = await requestToken(tokens.accountsServer, {
+    grant_type: 'refresh_token',
+    client_id: tokens.clientId,
+    client_secret: tokens.clientSecret,
+    refresh_token: tokens.refreshToken,
+  });
+
+  return {
+    ...tokens,
+    accessToken: token.access_token!,
+    expiresAt: Date.now() + (token.expires_in || 3600) * 1000,
+  };
+}
+
+/**
+ * Revoke the refresh token (and with it every access token issued from it)
+ */
+export async function revokeTokens(tokens: ZohoOAuthTokens): Promise<void> {
+  const response = await axios.post(
+    `${tokens.accountsServer}/oauth/v2/token/revoke`,
+    undefined,
+    {
+      params: { token: tokens.refreshToken },
+      timeout: 30_000,
+      validateStatus: () => true,
+    }
+  );
+  if (response.status !== 200 || response.data?.error) {
+    throw new Error(`Token revocation failed: ${response.data?.error || `HTTP ${response.status}`}`);
+  }
+}
@@ -1,62 +1,53 @@
-import Table from 'cli-table3';
 import chalk from 'chalk';
-import type { ZohoFolder, ZohoLabel, ZohoEmail, ZohoAccount } from '../types/zoho.js';
+import { ZohoError } from './errors.js';
+import { isHtml } from './html.js';
+import { htmlToText, renderHtml } from './render.js';
+import { formatBytes, type LocalAttachment } from './attachments.js';
+import type { HeaderReport } from './headers.js';
+import type { SyncResult } from './sync.js';
+import type { ExportResult } from './export.js';
+import type { BulkOutcome } from './bulk.js';
+import type { Draft } from './compose.js';
+import { describeAction, type RuleHit, type ActionResult } from './rules.js';
+import { checkFields, isHumanFormat, renderItems, toRecord, type Field, type FormatSpec } from './format.js';
+import type {
+  ZohoFolder,
+  ZohoLabel,
+  ZohoEmail,
+  ZohoAccount,
+  ZohoSignature,
+  ZohoAttachment,
+} from '../types/zoho.js';
 
-export function formatAccounts(accounts: ZohoAccount[], json: boolean = false): string {
-  if (json) {
-    return JSON.stringify(accounts, null, 2);
-  }
-
-  const table = new Table({
-    head: [
-      chalk.cyan('Account ID'),
-      chalk.cyan('Email'),
-      chalk.cyan('Display Name'),
-      chalk.cyan('Type'),
-    ],
-    style: { head: [], border: [] },
-  });
+const TABLE: FormatSpec = { format: 'table' };
 
-  for (const account of accounts) {
-    table.push([
-      account.accountId,
-      account.emailAddress,
-      account.displayName || '-',
-      account.type || '-',
-    ]);
-  }
+const ACCOUNT_FIELDS: Field<ZohoAccount>[] = [
+  { name: 'id', header: 'Account ID', value: a => a.accountId },
+  { name: 'email', header: 'Email', value: a => a.emailAddress },
+  { name: 'name', header: 'Display Name', value: a => a.displayName || '', flexible: true },
+  { name: 'type', header: 'Type', value: a => a.type || '' },
+];
 
-  return table.toString();
+export function formatAccounts(accounts: ZohoAccount[], spec: FormatSpec = TABLE): string {
+  return renderItems(accounts, ACCOUNT_FIELDS, spec, ['id', 'email', 'name', 'type']);
 }
 
-export function formatFolders(folders: ZohoFolder[], json: boolean = false): string {
-  if (json) {
-    return JSON.stringify(folders, null, 2);
-  }
-
-  const table = new Table({
-    head: [
-      chalk.cyan('Folder ID'),
-      chalk.cyan('Name'),
-      chalk.cyan('Type'),
-      chalk.cyan('Path'),
-      chalk.cyan('Unread'),
-    ],
-    style: { head: [], border: [] },
-  });
+const FOLDER_FIELDS: Field<ZohoFolder>[] = [
+  { name: 'id', header: 'Folder ID', value: f => f.folderId },
+  {
+    name: 'name',
+    header: 'Name',
+    value: f => f.folderName,
+    cell: f => `${getFolderIcon(f.folderType)} ${f.folderName}`,
+    flexible: true,
+  },
+  { name: 'type', header: 'Type', value: f => f.folderType },
+  { name: 'path', header: 'Path', value: f => f.path || '', flexible: true },
+  { name: 'unread', header: 'Unread', value: f => f.unreadCount?.toString() || '' },
+];
 
-  for (const folder of folders) {
-    const typeIcon = getFolderIcon(folder.folderType);
-    table.push([
-      folder.folderId,
-      `${typeIcon} ${folder.folderName}`,
-      folder.folderType,
-      folder.path,
-      folder.unreadCount?.toString() || '-',
-    ]);
-  }
-
-  return table.toString();
+export function formatFolders(folders: ZohoFolder[], spec: FormatSpec = TABLE): string {
+  return renderItems(folders, FOLDER_FIELDS, spec, ['id', 'name', 'type', 'path', 'unread']);
 }
 
 function getFolderIcon(type: string): string {
@@ -73,69 +64,258 @@ function getFolderIcon(type: string): string {
   return icons[type] || '📁';
 }
 
-export function formatLabels(labels: ZohoLabel[], json: boolean = false): string {
-  if (json) {
-    return JSON.stringify(labels, null, 2);
-  }
+const LABEL_FIELDS: Field<ZohoLabel>[] = [
+  { name: 'id', header: 'Label ID', value: l => l.labelId },
+  { name: 'name', header: 'Name', value: l => l.labelName, flexible: true },
+  { name: 'color', header: 'Color', value: l => l.color || '', cell: l => l.color ? chalk.hex(l.color)('■') : '-' },
+];
 
-  const table = new Table({
-    head: [
-      chalk.cyan('Label ID'),
-      chalk.cyan('Name'),
-      chalk.cyan('Color'),
-    ],
-    style: { head: [], border: [] },
-  });
+export function formatLabels(labels: ZohoLabel[], spec: FormatSpec = TABLE): string {
+  return renderItems(labels, LABEL_FIELDS, spec, ['id', 'name', 'color']);
+}
+
+const SIGNATURE_FIELDS: Field<ZohoSignature>[] = [
+  { name: 'id', header: 'Signature ID', value: s => s.signatureId },
+  { name: 'name', header: 'Name', value: s => s.signatureName },
+  { name: 'format', header: 'Format', value: s => s.mode || (isHtml(s.content || '') ? 'html' : 'plaintext') },
+  { name: 'default', header: 'Default', value: s => String(Boolean(s.isDefault)), cell: s => s.isDefault ? chalk.green('✓') : '-' },
+  { name: 'preview', header: 'Preview', value: s => htmlToText(s.content || '').replace(/\s+/g, ' ').trim(), flexible: true },
+  { name: 'content', header: 'Content', value: s => s.content || '', flexible: true },
+];
+
+export function formatSignatures(signatures: ZohoSignature[], spec: FormatSpec = TABLE): string {
+  return renderItems(signatures, SIGNATURE_FIELDS, spec, ['id', 'name', 'format', 'default', 'preview']);
+}
+
+const ATTACHMENT_FIELDS: Field<ZohoAttachment>[] = [
+  { name: 'id', header: 'Attachment ID', value: a => a.attachmentId },
+  { name: 'name', header: 'Name', value: a => a.attachmentName, flexible: true },
+  {
+    name: 'size',
+    header: 'Size',
+    value: a => String(Number(a.attachmentSize) || 0),
+    cell: a => formatBytes(Number(a.attachmentSize) || 0),
+  },
+  { name: 'type', header: 'Type', value: a => a.contentType || '' },
+];
+
+export function formatAttachments(attachments: ZohoAttachment[], spec: FormatSpec = TABLE): string {
+  return renderItems(attachments, ATTACHMENT_FIELDS, spec, ['id', 'name', 'size', 'type']);
+}
 
-  for (const label of labels) {
-    const colorBox = label.color ? chalk.hex(label.color)('■') : '-';
-    table.push([
-      label.labelId,
-      label.labelName,
-      colorBox,
-    ]);
+/** A count, green in tables when there is something to report */
+function countCell(count: number, color: (text: string) => string): string {
+  return count ? color(String(count)) : '0';
+}
+
+const SYNC_FIELDS: Field<SyncResult>[] = [
+  { name: 'folder', header: 'Folder', value: r => r.folderName, flexible: true },
+  { name: 'id', header: 'Folder ID', value: r => r.folderId },
+  { name: 'new', header: 'New', value: r => String(r.added), cell: r => countCell(r.added, chalk.green) },
+  { name: 'updated', header: 'Updated', value: r => String(r.updated) },
+  { name: 'cached', header: 'Cached', value: r => String(r.total) },
+  { name: 'bodies', header: 'Bodies', value: r => String(r.bodies) },
+  { name: 'newest', header: 'Newest', value: r => r.highWaterMark ? new Date(r.highWaterMark).toLocaleString() : '' },
+];
+
+export function formatSyncResults(results: SyncResult[], spec: FormatSpec = TABLE): string {
+  return renderItems(results, SYNC_FIELDS, spec, ['folder', 'new', 'updated', 'cached', 'bodies', 'newest']);
+}
+
+export function checkSyncFormat(spec: FormatSpec): void {
+  checkFields(SYNC_FIELDS, spec);
+}
+
+const EXPORT_FIELDS: Field<ExportResult>[] = [
+  { name: 'folder', header: 'Folder', value: r => r.folderName, flexible: true },
+  { name: 'id', header: 'Folder ID', value: r => r.folderId },
+  { name: 'exported', header: 'Exported', value: r => String(r.exported), cell: r => countCell(r.exported, chalk.green) },
+  { name: 'skipped', header: 'Skipped', value: r => String(r.skipped) },
+  { name: 'path', header: 'Path', value: r => r.path, cell: r => chalk.gray(r.path), flexible: true },
+];
+
+export function formatExportResults(results: ExportResult[], spec: FormatSpec = TABLE): string {
+  return renderItems(results, EXPORT_FIELDS, spec, ['folder', 'exported', 'skipped', 'path']);
+}
+
+export function checkExportFormat(spec: FormatSpec): void {
+  checkFields(EXPORT_FIELDS, spec);
+}
+
+const BULK_FIELDS: Field<BulkOutcome>[] = [
+  { name: 'id', header: 'Message ID', value: o => o.messageId },
+  { name: 'ok', header: 'OK', value: o => String(o.ok) },
+  { name: 'error', header: 'Error', value: o => o.error || '', cell: o => chalk.red(o.error || 'Failed'), flexible: true },
+];
+
+/**
+ * Per-message report of a bulk command. Tables and compact lines list
+ * only failures; the other formats have every message.
+ */
+export function formatBulkResults(outcomes: BulkOutcome[], spec: FormatSpec = TABLE): string {
+  if (!isHumanFormat(spec)) {
+    return renderItems(outcomes, BULK_FIELDS, spec, ['id', 'ok', 'error']);
   }
+  const failed = outcomes.filter(o => !o.ok);
+  return failed.length ? renderItems(failed, BULK_FIELDS, spec, ['id', 'error']) : '';
+}
 
-  return table.toString();
+export function checkBulkFormat(spec: FormatSpec): void {
+  checkFields(BULK_FIELDS, spec);
 }
 
-export function formatEmails(emails: ZohoEmail[], json: boolean = false): string {
-  if (json) {
-    return JSON.stringify(emails, null, 2);
-  }
-
-  const table = new Table({
-    head: [
-      chalk.cyan('ID'),
-      chalk.cyan('From'),
-      chalk.cyan('Subject'),
-      chalk.cyan('Date'),
-      chalk.cyan('Status'),
-    ],
-    style: { head: [], border: [] },
-    colWidths: [20, 25, 40, 20, 10],
-    wordWrap: true,
-  });
+/** A rule hit as reported: the message, the rules and actions, and how they went */
+interface RuleHitRecord {
+  messageId: string;
+  folderId?: string;
+  from?: string;
+  subject?: string;
+  rules: string[];
+  actions: string[];
+  results?: ActionResult[];
+}
+
+/** An action, in red with its error if it failed */
+function actionCell(hit: RuleHitRecord, action: string): string {
+  const result = hit.results?.find(r => r.action === action);
+  return result && !result.ok ? chalk.red(`${action} (${result.error})`) : action;
+}
+
+const RULE_HIT_FIELDS: Field<RuleHitRecord>[] = [
+  { name: 'id', header: 'ID', value: h => h.messageId },
+  { name: 'folder', header: 'Folder ID', value: h => h.folderId || '' },
+  { name: 'from', header: 'From', value: h => h.from || '', flexible: true },
+  { name: 'subject', header: 'Subject', value: h => h.subject || '(no subject)', flexible: true },
+  { name: 'rules', header: 'Rules', value: h => h.rules.join(', '), flexible: true },
+  {
+    name: 'actions',
+    header: 'Actions',
+    value: h => h.actions.join(', '),
+    cell: h => h.actions.map(action => actionCell(h, action)).join(', '),
+    flexible: true,
+  },
+];
+
+/**
+ * Which rule hit which message and what it does (or did, once results
+ * are in: failed actions are shown in red)
+ */
+export function formatRuleHits(hits: RuleHit[], results?: ActionResult[], spec: FormatSpec = TABLE): string {
+  const records = hits.map((hit): RuleHitRecord => ({
+    messageId: hit.email.messageId,
+    folderId: hit.email.folderId,
+    from: hit.email.fromAddress,
+    subject: hit.email.subject,
+    rules: hit.rules,
+    actions: hit.actions.map(describeAction),
+    ...(results ? { results: results.filter(r => r.messageId === hit.email.messageId) } : {}),
+  }));
+  return renderItems(records, RULE_HIT_FIELDS, spec, ['id', 'from', 'subject', 'rules', 'actions']);
+}
+
+export function checkRuleFormat(spec: FormatSpec): void {
+  checkFields(RULE_HIT_FIELDS, spec);
+}
+
+function isFlagged(email: ZohoEmail): boolean {
+  return Boolean(email.flagid && email.flagid !== 'flag_not_set' && email.flagid !== '0');
+}
+
+function hasAttachment(email: ZohoEmail): boolean {
+  // hasAttachment can be boolean, string "0"/"1", or "true"/"false"
+  const value = email.hasAttachment;
+  return value === true || value === '1' || value === 'true';
+}
+
+/** receivedTime can be a string (milliseconds) or number */
+function receivedAt(email: ZohoEmail): Date {
+  return new Date(Number(email.receivedTime));
+}
+
+/**
+ * Fields of a listed email. `handles` (message ID to short handle, see
+ * lib/handles.ts) fills the handle field.
+ */
+function emailFields(handles?: Map<string, string>): Field<ZohoEmail>[] {
+  return [
+    { name: 'handle', header: '#', value: e => handles?.get(e.messageId) ?? '' },
+    { name: 'id', header: 'ID', value: e => e.messageId },
+    { name: 'from', header: 'From', value: e => e.fromAddress || '', flexible: true },
+    { name: 'sender', header: 'Sender', value: e => e.sender || '', flexible: true },
+    { name: 'to', header: 'To', value: e => e.toAddress || '', flexible: true },
+    { name: 'cc', header: 'Cc', value: e => e.ccAddress || '', flexible: true },
+    { name: 'subject', header: 'Subject', value: e => e.subject || '(no subject)', flexible: true },
+    { name: 'summary', header: 'Summary', value: e => e.summary || '', flexible: true },
+    { name: 'date', header: 'Date', value: e => receivedAt(e).toLocaleString() },
+    { name: 'timestamp', header: 'Received', value: e => receivedAt(e).toISOString() },
+    { name: 'status', header: 'Status', value: e => getEmailStatusIcon(e) },
+    { name: 'unread', header: 'Unread', value: e => String(e.status === '0' || e.status2 === '0') },
+    { name: 'flagged', header: 'Flagged', value: e => String(isFlagged(e)) },
+    { name: 'attachment', header: 'Attachment', value: e => String(hasAttachment(e)) },
+    { name: 'folder', header: 'Folder ID', value: e => e.folderId || '' },
+    { name: 'thread', header: 'Thread ID', value: e => e.threadId || '' },
+  ];
+}
+
+/**
+ * Email listing. With `handles` the first column shows the handle,
+ * otherwise the full ID.
+ */
+export function formatEmails(emails: ZohoEmail[], spec: FormatSpec = TABLE, handles?: Map<string, string>): string {
+  return renderItems(emails, emailFields(handles), spec, [handles ? 'handle' : 'id', 'from', 'subject', 'date', 'status']);
+}
+
+export function checkEmailFormat(spec: FormatSpec): void {
+  checkFields(emailFields(), spec);
+}
+
+/**
+ * Emails as JSON records: whole, or only the --fields chosen
+ */
+export function emailRecords(emails: ZohoEmail[], spec: FormatSpec): unknown[] {
+  const fields = emailFields();
+  return emails.map(email => toRecord(email, fields, spec));
+}
+
+/**
+ * Writes a JSON array a batch at a time, so a long listing can be piped
+ * on while later pages are still loading. The output is exactly what
+ * JSON.stringify(items, null, 2) prints for the whole array.
+ */
+export class JsonArrayWriter {
+  private count = 0;
 
-  for (const email of emails) {
-    // receivedTime can be a string (milliseconds) or number
-    const timestamp = typeof email.receivedTime === 'string' 
-      ? parseInt(email.receivedTime, 10) 
-      : email.receivedTime;
-    const date = new Date(timestamp).toLocaleString();
-    const status = getEmailStatusIcon(email);
-    const subject = email.subject || '(no subject)';
-    
-    table.push([
-      email.messageId.substring(0, 18) + '...',
-      truncate(email.fromAddress, 23),
-      truncate(subject, 38),
-      date,
-      status,
-    ]);
+  constructor(private readonly out: NodeJS.WritableStream = process.stdout) {}
+
+  write(items: unknown[]): void {
+    for (const item of items) {
+      const json = JSON.stringify(item, null, 2).replace(/\n/g, '\n  ');
+      this.out.write(`${this.count === 0 ? '[\n' : ',\n'}  ${json}`);
+      this.count++;
+    }
+  }
+
+  end(): void {
+    this.out.write(this.count === 0 ? '[]\n' : '\n]\n');
   }
+}
 
-  return table.toString();
+/**
+ * One line per message for `mail watch`: a JSON object with --json
+ * (NDJSON), otherwise date, status, sender, subject and ID
+ */
+export function formatWatchLine(email: ZohoEmail, json: boolean = false): string {
+  if (json) {
+    return JSON.stringify(email);
+  }
+  const date = new Date(Number(email.receivedTime)).toLocaleString();
+  return [
+    chalk.gray(date),
+    getEmailStatusIcon(email),
+    chalk.bold(email.fromAddress || email.sender || ''),
+    email.subject || '(no subject)',
+    chalk.gray(email.messageId),
+  ].join('  ');
 }
 
 function getEmailStatusIcon(email: ZohoEmail): string {
@@ -144,34 +324,59 @@ function getEmailStatusIcon(email: ZohoEmail): string {
   if (email.status === '0' || email.status2 === '0') {
     icons += '●';
   }
-  if (email.flagid && email.flagid !== 'flag_not_set' && email.flagid !== '0') {
+  if (isFlagged(email)) {
     icons += '⭐';
   }
-  // hasAttachment can be boolean, string "0"/"1", or "true"/"false"
-  const hasAtt = email.hasAttachment;
-  if (hasAtt === true || hasAtt === '1' || hasAtt === 'true') {
+  if (hasAttachment(email)) {
     icons += '📎';
   }
   return icons || '-';
 }
 
-function truncate(str: string, length: number): string {
-  if (str.length <= length) return str;
-  return str.substring(0, length - 3) + '...';
+export type BodyFormat = 'text' | 'html' | 'markdown';
+
+export interface BodyOptions {
+  format?: BodyFormat;
+  /** Show quoted reply history instead of collapsing it */
+  full?: boolean;
 }
 
-export function formatEmailContent(email: ZohoEmail & { content?: string }): string {
+/**
+ * A message body for display: HTML rendered for the terminal or as
+ * Markdown, with quoted history collapsed unless `full` is set
+ */
+export function formatBody(content: string, options: BodyOptions = {}): string {
+  const format = options.format || 'text';
+  if (format === 'html') {
+    return content;
+  }
+  const text = isHtml(content)
+    ? renderHtml(content, { format, full: options.full })
+    : content.replace(/\r\n/g, '\n').trim();
+  return options.full ? text : collapseQuotedText(text);
+}
+
+export function formatEmailContent(
+  email: ZohoEmail & { content?: string },
+  options: BodyOptions = {}
+): string {
+  const body = formatBody(email.content || email.summary || '(no content)', options);
+  // html and markdown are for piping elsewhere: body only
+  if (options.format && options.format !== 'text') {
+    return body;
+  }
+
   const divider = chalk.gray('─'.repeat(60));
   
   let output = `
 ${divider}
 ${chalk.bold('From:')} ${email.fromAddress}
 ${chalk.bold('To:')} ${email.toAddress}
-${email.ccAddress ? chalk.bold('Cc:') + ' ' + email.ccAddress + '\n' : ''}${chalk.bold('Date:')} ${new Date(email.receivedTime).toLocaleString()}
+${email.ccAddress ? chalk.bold('Cc:') + ' ' + email.ccAddress + '\n' : ''}${chalk.bold('Date:')} ${new Date(Number(email.receivedTime)).toLocaleString()}
 ${chalk.bold('Subject:')} ${email.subject || '(no subject)'}
 ${divider}
 
-${email.content || email.summary || '(no content)'}
+${body}
 
 ${divider}
 `;
@@ -179,6 +384,144 @@ ${divider}
   return output;
 }
 
+/**
+ * An outgoing message as it will be sent, for confirmation
+ */
+export function formatDraftPreview(draft: Draft, content: string, attachments: LocalAttachment[] = []): string {
+  const divider = chalk.gray('─'.repeat(60));
+  const header = [
+    `${chalk.bold('To:')} ${draft.to}`,
+    draft.cc && `${chalk.bold('Cc:')} ${draft.cc}`,
+    draft.bcc && `${chalk.bold('Bcc:')} ${draft.bcc}`,
+    `${chalk.bold('Subject:')} ${draft.subject}`,
+    attachments.length && `${chalk.bold('Attachments:')} ${attachments.map(a => `${a.name} (${formatBytes(a.size)})`).join(', ')}`,
+  ].filter(Boolean);
+
+  return `
+${divider}
+${header.join('\n')}
+${divider}
+
+${formatBody(content, { full: true })}
+
+${divider}
+`;
+}
+
+function colorVerdict(result: string): string {
+  if (result === 'pass') return chalk.green(result);
+  if (['fail', 'softfail', 'permerror', 'temperror'].includes(result)) return chalk.red(result);
+  return chalk.yellow(result);
+}
+
+/**
+ * Print parsed headers: authentication verdicts, the Received chain,
+ * mailing-list headers, then every header as sent
+ */
+export function formatHeaderReport(report: HeaderReport): string {
+  const lines: string[] = [];
+
+  lines.push(chalk.bold('Authentication'));
+  if (report.authentication.length === 0) {
+    lines.push(chalk.gray('  No Authentication-Results header'));
+  }
+  for (const auth of report.authentication) {
+    const properties = Object.entries(auth.properties).map(([key, value]) => `${key}=${value}`).join(' ');
+    lines.push(`  ${auth.method.toUpperCase().padEnd(6)} ${colorVerdict(auth.result)}  ${properties}` +
+      chalk.gray(auth.authority ? ` (${auth.authority})` : ''));
+  }
+
+  lines.push('', chalk.bold(`Received (${report.received.length} hop(s), most recent first)`));
+  report.received.forEach((hop, index) => {
+    const route = [
+      hop.from && `from ${hop.from}`,
+      hop.by && `by ${hop.by}`,
+      hop.with && `with ${hop.with}`,
+    ].filter(Boolean).join(' ');
+    lines.push(`  ${chalk.cyan(`${index + 1}.`)} ${route || hop.raw}`);
+    if (hop.date) {
+      lines.push(`     ${chalk.gray(hop.date)}`);
+    }
+  });
+
+  const list = Object.entries(report.list);
+  if (list.length) {
+    lines.push('', chalk.bold('Mailing list'));
+    for (const [name, value] of list) {
+      lines.push(`  ${chalk.cyan(name)}: ${value}`);
+    }
+  }
+
+  lines.push('', chalk.bold('All headers'));
+  for (const header of report.headers) {
+    lines.push(`  ${chalk.cyan(header.name)}: ${header.value}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Replace quoted reply history ("> ..." lines and the "On ... wrote:"
+ * line introducing them) with a one-line marker
+ */
+export function collapseQuotedText(text: string): string {
+  const lines = text.split('\n');
+  const output: string[] = [];
+  let hidden = 0;
+
+  const flush = () => {
+    if (hidden > 0) {
+      output.push(chalk.gray(`[… ${hidden} quoted line(s) hidden]`));
+      hidden = 0;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const introducesQuote = /^On .+wrote:\s*$/.test(line.trim()) && lines[i + 1]?.startsWith('>');
+    if (line.startsWith('>') || introducesQuote) {
+      hidden++;
+    } else {
+      flush();
+      output.push(line);
+    }
+  }
+  flush();
+
+  return output.join('\n').trim();
+}
+
+/**
+ * Print a conversation oldest-first with quoted history collapsed
+ */
+export function formatThread(
+  emails: (ZohoEmail & { content?: string })[],
+  json: boolean = false,
+  options: BodyOptions = {}
+): string {
+  const sorted = [...emails].sort((a, b) => Number(a.receivedTime) - Number(b.receivedTime));
+  if (json) {
+    return JSON.stringify(sorted, null, 2);
+  }
+
+  const divider = chalk.gray('─'.repeat(60));
+  const subject = sorted[0]?.subject || '(no subject)';
+  let output = `${chalk.bold(subject)} ${chalk.gray(`(${sorted.length} message(s))`)}\n`;
+
+  sorted.forEach((email, index) => {
+    const body = formatBody(email.content || email.summary || '(no content)', options);
+    output += `
+${divider}
+${chalk.cyan(`[${index + 1}]`)} ${chalk.bold(email.fromAddress)} ${chalk.gray(new Date(Number(email.receivedTime)).toLocaleString())}
+${chalk.gray(`ID: ${email.messageId}`)}
+
+${body}
+`;
+  });
+
+  return output + divider;
+}
+
 export function success(message: string): void {
   console.log(chalk.green('✓'), message);
 }
@@ -187,6 +530,17 @@ export function error(message: string): void {
   console.error(chalk.red('✗'), message);
 }
 
+/**
+ * Print a caught error, with the suggested fix for Zoho API errors
+ */
+export function reportError(err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err);
+  error(message);
+  if (err instanceof ZohoError && err.hint) {
+    console.error(`  ${chalk.gray(err.hint)}`);
+  }
+}
+
 export function warn(message: string): void {
   console.warn(chalk.yellow('⚠'), message);
 }
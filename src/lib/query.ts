@@ -0,0 +1,419 @@
+import { emailPages, getLabels, searchPages, MAX_PAGE_SIZE, type PageOptions } from './client.js';
+import { ValidationError } from './errors.js';
+import { resolveFolderId } from './folders.js';
+import type { ZohoEmail, ZohoLabel } from '../types/zoho.js';
+
+/**
+ * Gmail-style search queries for `mail search` and `--query`:
+ *
+ *   from:alice subject:"weekly report" has:attachment -is:read
+ *   from:alice OR from:bob newer_than:7d in:/Clients/Acme label:Urgent
+ *
+ * Terms are ANDed; `OR` joins the terms either side of it; `-` or `NOT`
+ * negates a term. Zoho's searchKey can only AND a few fields together,
+ * so the plain positive terms go to the server and everything else (OR,
+ * negation, is:, label:, dates) is checked here against each result.
+ * Parentheses are ignored: OR binds the terms right next to it.
+ *
+ * Any other `field:value` (sender:, entire:, content:...) is Zoho's own
+ * search syntax and goes to the server as written.
+ */
+
+export type TermKey =
+  | 'text' | 'from' | 'to' | 'subject' | 'has' | 'is' | 'label' | 'in'
+  | 'before' | 'after' | 'newer_than' | 'older_than'
+  /** Zoho search syntax passed through, value and all (`sender:alice`) */
+  | 'raw';
+
+export interface QueryTerm {
+  key: TermKey;
+  value: string;
+  negated: boolean;
+  /** Resolved bound for the date terms (epoch ms) */
+  time?: number;
+}
+
+/** Terms joined by OR; a query is a list of these, all of which must hold */
+export type QueryClause = QueryTerm[];
+
+export interface CompiledQuery {
+  /** Zoho searchKey for the server-side part, if any */
+  searchKey?: string;
+  /** Folder selector from in: */
+  folder?: string;
+  /** Clauses checked client-side */
+  filters: QueryClause[];
+  /** Nothing older than this can match (epoch ms) */
+  after?: number;
+}
+
+const OPERATORS: TermKey[] = ['from', 'to', 'subject', 'has', 'is', 'label', 'in', 'before', 'after', 'newer_than', 'older_than'];
+
+const IS_VALUES = ['unread', 'read', 'flagged', 'starred'];
+
+/** Units for newer_than/older_than, as in Gmail (m is months) */
+const AGE_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  m: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+};
+
+/** Terms Zoho's searchKey can express, and the field it calls them */
+const SERVER_FIELDS: Partial<Record<TermKey, string>> = {
+  text: 'entire',
+  from: 'sender',
+  to: 'to',
+  subject: 'subject',
+};
+
+const HINT = 'Operators: from:, to:, subject:, has:attachment, is:unread|read|flagged, label:, in:, ' +
+  'before:, after:, newer_than:, older_than:; OR between terms, - or NOT to negate; ' +
+  'other field:value terms go to Zoho as written';
+
+/** `-`, an optional `key:`, then a quoted phrase or a bare word */
+const TOKEN_PATTERN = /(-?)(?:([a-z_]+):)?("(?:[^"\\]|\\.)*"?|[^\s()]+)/gi;
+
+/** A date like 2026/01/31 or 2026-01-31, at local midnight */
+function parseDate(value: string): number | undefined {
+  const match = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+function parseTerm(key: TermKey, value: string, negated: boolean, now: number): QueryTerm {
+  const term: QueryTerm = { key, value, negated };
+  if (!value) {
+    throw new ValidationError(`Missing value after ${key}:`, { hint: HINT });
+  }
+  switch (key) {
+    case 'is':
+      term.value = value.toLowerCase();
+      if (!IS_VALUES.includes(term.value)) {
+        throw new ValidationError(`Unknown is:${value}`, { hint: `Use is:${IS_VALUES.join(', is:')}` });
+      }
+      break;
+    case 'has':
+      if (!/^attachments?$/i.test(value)) {
+        throw new ValidationError(`Unknown has:${value}`, { hint: 'Only has:attachment is supported' });
+      }
+      term.value = 'attachment';
+      break;
+    case 'before':
+    case 'after':
+      term.time = parseDate(value);
+      if (term.time === undefined) {
+        throw new ValidationError(`Invalid date in ${key}:${value}`, { hint: 'Use YYYY/MM/DD or YYYY-MM-DD' });
+      }
+      break;
+    case 'newer_than':
+    case 'older_than': {
+      const match = value.match(/^(\d+)([hdwmy])$/i);
+      if (!match) {
+        throw new ValidationError(`Invalid age in ${key}:${value}`, { hint: 'Use a number and h, d, w, m (months) or y, like 7d' });
+      }
+      term.time = now - Number(match[1]) * AGE_UNITS[match[2].toLowerCase()];
+      break;
+    }
+  }
+  return term;
+}
+
+/**
+ * Parse a query into clauses (see the module comment for the syntax)
+ */
+export function parseQuery(query: string, now: number = Date.now()): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  let negateNext = false;
+  let orPending = false;
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [raw, dash, rawKey, rawValue] = match;
+    if (raw === 'OR') {
+      if (!clauses.length || orPending || negateNext) {
+        throw new ValidationError('OR needs a term on each side');
+      }
+      orPending = true;
+      continue;
+    }
+    if (raw === 'AND') continue;
+    if (raw === 'NOT') {
+      negateNext = true;
+      continue;
+    }
+
+    const quoted = rawValue.startsWith('"');
+    if (quoted && (rawValue.length < 2 || !rawValue.endsWith('"'))) {
+      throw new ValidationError(`Unterminated quote in ${raw}`);
+    }
+    let value = quoted ? rawValue.slice(1, -1).replace(/\\(.)/g, '$1') : rawValue;
+
+    let key: TermKey = 'text';
+    if (rawKey && value.startsWith('//')) {
+      // A URL like https://..., not an operator
+      value = `${rawKey}:${value}`;
+    } else if (rawKey) {
+      const lower = rawKey.toLowerCase() as TermKey;
+      if (OPERATORS.includes(lower)) {
+        key = lower;
+      } else {
+        key = 'raw';
+        value = `${rawKey}:${value}`;
+      }
+    } else if (!quoted && /^[a-z_]+:$/i.test(value) && OPERATORS.includes(value.slice(0, -1).toLowerCase() as TermKey)) {
+      // "from: alice" - the value has to follow the colon directly
+      throw new ValidationError(`Missing value after ${value}`, { hint: 'Write from:alice, without a space' });
+    }
+
+    const term = parseTerm(key, value, Boolean(dash) || negateNext, now);
+    negateNext = false;
+    if (orPending) {
+      clauses[clauses.length - 1].push(term);
+      orPending = false;
+    } else {
+      clauses.push([term]);
+    }
+  }
+
+  if (orPending) throw new ValidationError('OR needs a term on each side');
+  if (negateNext) throw new ValidationError('NOT needs a term after it');
+  if (!clauses.length) throw new ValidationError('Empty search query', { hint: HINT });
+  return clauses;
+}
+
+/**
+ * Split parsed clauses into Zoho's searchKey, the in: folder and the
+ * filters left for the client
+ */
+export function compileQuery(clauses: QueryClause[]): CompiledQuery {
+  const compiled: CompiledQuery = { filters: [] };
+  const server: string[] = [];
+
+  for (const clause of clauses) {
+    const [term] = clause;
+    if (clause.some(t => t.key === 'in')) {
+      if (clause.length > 1 || term.negated) {
+        throw new ValidationError('in: can\'t be negated or combined with OR');
+      }
+      if (compiled.folder !== undefined) {
+        throw new ValidationError('Only one in: per query');
+      }
+      compiled.folder = term.value;
+      continue;
+    }
+
+    const raw = clause.find(t => t.key === 'raw');
+    if (raw) {
+      if (clause.length > 1 || raw.negated) {
+        throw new ValidationError(`${raw.value} goes to Zoho as written, so it can't be negated or combined with OR`, {
+          hint: HINT,
+        });
+      }
+      server.push(raw.value);
+      continue;
+    }
+
+    if (clause.length === 1 && !term.negated) {
+      const field = SERVER_FIELDS[term.key];
+      if (field) {
+        server.push(`${field}:${term.value}`);
+        continue;
+      }
+      if (term.key === 'has') {
+        server.push('has:attachment');
+        continue;
+      }
+      if (term.key === 'after' || term.key === 'newer_than') {
+        compiled.after = Math.max(compiled.after ?? 0, term.time!);
+      }
+    }
+    compiled.filters.push(clause);
+  }
+
+  if (server.length) compiled.searchKey = server.join('::');
+  return compiled;
+}
+
+/**
+ * Replace label names in label: terms with IDs, as stored on messages
+ */
+export function resolveQueryLabels(clauses: QueryClause[], labels: ZohoLabel[]): QueryClause[] {
+  const resolve = (selector: string): string => {
+    const label = labels.find(l => l.labelId === selector) ??
+      labels.find(l => l.labelName.toLowerCase() === selector.toLowerCase());
+    if (!label) {
+      throw new ValidationError(`Unknown label "${selector}"`, { hint: 'Run `zoho-mail labels list` to see labels' });
+    }
+    return label.labelId;
+  };
+  return clauses.map(clause => clause.map(term =>
+    term.key === 'label' ? { ...term, value: resolve(term.value) } : term
+  ));
+}
+
+export function queryUsesLabels(clauses: QueryClause[]): boolean {
+  return clauses.some(clause => clause.some(term => term.key === 'label'));
+}
+
+function contains(value: string, ...fields: (string | undefined)[]): boolean {
+  const wanted = value.toLowerCase();
+  return fields.some(field => (field || '').toLowerCase().includes(wanted));
+}
+
+function termMatches(term: QueryTerm, email: ZohoEmail): boolean {
+  const received = Number(email.receivedTime);
+  switch (term.key) {
+    case 'text':
+      return contains(term.value, email.subject, email.fromAddress, email.sender,
+        email.toAddress, email.ccAddress, email.summary);
+    case 'from':
+      return contains(term.value, email.fromAddress, email.sender);
+    case 'to':
+      return contains(term.value, email.toAddress, email.ccAddress);
+    case 'subject':
+      return contains(term.value, email.subject);
+    case 'has':
+      return email.hasAttachment === true || email.hasAttachment === '1';
+    case 'is':
+      if (term.value === 'unread') return email.status === '0';
+      if (term.value === 'read') return email.status !== '0';
+      return Boolean(email.flagid && email.flagid !== 'flag_not_set');
+    case 'label':
+      return Boolean(email.labels?.includes(term.value));
+    case 'in':
+      return email.folderId === term.value;
+    case 'before':
+    case 'older_than':
+      return received < term.time!;
+    case 'after':
+    case 'newer_than':
+      return received >= term.time!;
+    case 'raw':
+      // Only Zoho can judge these; compileQuery never leaves one to filter
+      return true;
+  }
+}
+
+/**
+ * Whether an email satisfies every clause
+ */
+export function matchesQuery(email: ZohoEmail, clauses: QueryClause[]): boolean {
+  return clauses.every(clause => clause.some(term => termMatches(term, email) !== term.negated));
+}
+
+function formatTerm(term: QueryTerm): string {
+  const value = /[\s"]/.test(term.value) ? JSON.stringify(term.value) : term.value;
+  const key = term.key === 'text' || term.key === 'raw' ? '' : `${term.key}:`;
+  return `${term.negated ? '-' : ''}${key}${value}`;
+}
+
+/**
+ * Clauses written back out in query syntax, for --explain
+ */
+export function formatClauses(clauses: QueryClause[]): string {
+  return clauses
+    .map(clause => clause.length > 1 ? `(${clause.map(formatTerm).join(' OR ')})` : formatTerm(clause[0]))
+    .join(' ');
+}
+
+/**
+ * The query for the offline store's ranked search: its positive words and
+ * phrases, with every other clause left to filter the hits
+ */
+export function splitOfflineQuery(clauses: QueryClause[]): { text: string; filters: QueryClause[] } {
+  const words: string[] = [];
+  const filters: QueryClause[] = [];
+  for (const clause of clauses) {
+    const [term] = clause;
+    const raw = clause.find(t => t.key === 'raw');
+    if (raw) {
+      throw new ValidationError(`${raw.value} is Zoho search syntax and needs a search online`, {
+        hint: 'Drop --offline, or use from:, to:, subject: and plain words',
+      });
+    }
+    if (clause.length === 1 && term.key === 'text' && !term.negated) {
+      words.push(/\s/.test(term.value) ? `"${term.value}"` : term.value);
+    } else if (term.key !== 'in') {
+      filters.push(clause);
+    }
+  }
+  return { text: words.join(' '), filters };
+}
+
+/**
+ * Filter pages client-side, then page the matches, so --limit, --start
+ * and --max count matching emails. Newest-first listings stop once they
+ * are older than `after`.
+ */
+async function* filterPages(
+  pages: AsyncIterable<ZohoEmail[]>,
+  clauses: QueryClause[],
+  paging: PageOptions,
+  after?: number
+): AsyncGenerator<ZohoEmail[]> {
+  let skip = (paging.start ?? 1) - 1;
+  let remaining = paging.max ?? Infinity;
+  for await (const page of pages) {
+    let kept = page.filter(email => matchesQuery(email, clauses));
+    const skipped = Math.min(skip, kept.length);
+    skip -= skipped;
+    kept = kept.slice(skipped, skipped + remaining);
+    remaining -= kept.length;
+    if (kept.length) yield kept;
+    if (remaining <= 0) return;
+    if (after !== undefined && Number(page[page.length - 1].receivedTime) < after) return;
+  }
+}
+
+/**
+ * Run a compiled query, page by page. With a searchKey this is a Zoho
+ * search; a query with only client-side terms lists the folder instead
+ * (so it needs one). Client-side filters are applied before paging.
+ */
+export function queryPages(
+  accountId: string,
+  compiled: CompiledQuery,
+  options: PageOptions & { folderId?: string }
+): AsyncGenerator<ZohoEmail[]> {
+  const { folderId, ...paging } = options;
+  if (compiled.searchKey) {
+    if (!compiled.filters.length) {
+      return searchPages(accountId, compiled.searchKey, { ...paging, folderId });
+    }
+    const pages = searchPages(accountId, compiled.searchKey, { folderId, pageSize: MAX_PAGE_SIZE });
+    return filterPages(pages, compiled.filters, paging);
+  }
+  if (!folderId) {
+    throw new ValidationError('Zoho can\'t search on is:, label:, dates, OR or negation alone', {
+      hint: 'Add a word, from:, to:, subject: or has:attachment, or in:<folder> to filter one folder',
+    });
+  }
+  const pages = emailPages(accountId, folderId, { pageSize: MAX_PAGE_SIZE });
+  return filterPages(pages, compiled.filters, paging, compiled.after);
+}
+
+/**
+ * Parse and compile a query for an account: label names become IDs and
+ * the folder (`folderId`, or the query's in:) is resolved
+ */
+export async function prepareQuery(
+  accountId: string,
+  query: string,
+  folderId?: string
+): Promise<{ compiled: CompiledQuery; folderId?: string }> {
+  let clauses = parseQuery(query);
+  if (queryUsesLabels(clauses)) {
+    clauses = resolveQueryLabels(clauses, await getLabels(accountId));
+  }
+
+  const compiled = compileQuery(clauses);
+  if (compiled.folder !== undefined) {
+    if (folderId) {
+      throw new ValidationError('Give --folder or in:, not both');
+    }
+    folderId = await resolveFolderId(accountId, compiled.folder);
+  }
+  return { compiled, folderId };
+}
@@ -0,0 +1,529 @@
+import chalk from 'chalk';
+
+/**
+ * HTML email bodies rendered for the terminal (styled text with link
+ * footnotes) or as Markdown
+ */
+
+export type RenderFormat = 'text' | 'markdown';
+
+export interface RenderOptions {
+  format?: RenderFormat;
+  /** Keep quoted reply history instead of collapsing it */
+  full?: boolean;
+  /** Style headings, emphasis and links with terminal colors */
+  color?: boolean;
+}
+
+interface ElementNode {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+interface TextNode {
+  type: 'text';
+  text: string;
+}
+
+type HtmlNode = ElementNode | TextNode;
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'title', 'meta', 'link', 'noscript', 'template', 'object']);
+
+// Opening one of these closes an unclosed sibling, searching no further
+// up the stack than the scope tags
+const IMPLIED_END: Record<string, { closes: string[]; scope: string[] }> = {
+  p: { closes: ['p'], scope: ['div', 'td', 'th', 'li', 'blockquote', 'body'] },
+  li: { closes: ['li'], scope: ['ul', 'ol'] },
+  dt: { closes: ['dt', 'dd'], scope: ['dl'] },
+  dd: { closes: ['dt', 'dd'], scope: ['dl'] },
+  tr: { closes: ['tr', 'td', 'th'], scope: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], scope: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], scope: ['tr', 'table'] },
+  option: { closes: ['option'], scope: ['select'] },
+};
+
+const BLOCK_TAGS = new Set([
+  'div', 'section', 'article', 'header', 'footer', 'main', 'nav', 'aside', 'address', 'figure',
+  'figcaption', 'form', 'fieldset', 'center', 'dl', 'dt', 'dd', 'tr', 'body', 'html',
+]);
+
+// Markers that survive whitespace cleanup; turned into spaces at the end
+const NBSP = '\u00a0';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: NBSP, copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•',
+  middot: '·', laquo: '«', raquo: '»', euro: '€', pound: '£', yen: '¥', cent: '¢', deg: '°',
+  times: '×', divide: '÷', zwnj: '', zwj: '', shy: '',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      try {
+        return String.fromCodePoint(code);
+      } catch {
+        return entity;
+      }
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Forgiving HTML parser: unclosed and stray tags are tolerated the way
+ * mail clients tolerate them
+ */
+export function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: ElementNode[] = [root];
+  const current = () => stack[stack.length - 1];
+  const addText = (text: string) => {
+    if (text) current().children.push({ type: 'text', text: decodeEntities(text) });
+  };
+
+  let pos = 0;
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      addText(html.slice(pos));
+      break;
+    }
+    addText(html.slice(pos, lt));
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      pos = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      pos = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const closing = html.slice(lt).match(/^<\/([a-zA-Z][\w:-]*)[^>]*>/);
+    if (closing) {
+      const tag = closing[1].toLowerCase();
+      const index = stack.map(n => n.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      pos = lt + closing[0].length;
+      continue;
+    }
+
+    const opening = html.slice(lt).match(/^<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/);
+    if (!opening) {
+      addText('<');
+      pos = lt + 1;
+      continue;
+    }
+
+    const tag = opening[1].toLowerCase();
+    pos = lt + opening[0].length;
+
+    const implied = IMPLIED_END[tag];
+    if (implied) {
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (implied.scope.includes(stack[i].tag)) break;
+        if (implied.closes.includes(stack[i].tag)) {
+          stack.length = i;
+          break;
+        }
+      }
+    }
+
+    const element: ElementNode = { type: 'element', tag, attrs: parseAttributes(opening[2]), children: [] };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, pos);
+      const text = html.slice(pos, end === -1 ? html.length : end);
+      element.children.push({ type: 'text', text });
+      const close = end === -1 ? -1 : html.indexOf('>', end);
+      pos = close === -1 ? html.length : close + 1;
+    } else if (!VOID_TAGS.has(tag) && !opening[3]) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+interface Styles {
+  bold: (s: string) => string;
+  italic: (s: string) => string;
+  underline: (s: string) => string;
+  dim: (s: string) => string;
+  code: (s: string) => string;
+  link: (s: string) => string;
+}
+
+const PLAIN: Styles = {
+  bold: s => s,
+  italic: s => s,
+  underline: s => s,
+  dim: s => s,
+  code: s => s,
+  link: s => s,
+};
+
+const COLORED: Styles = {
+  bold: s => chalk.bold(s),
+  italic: s => chalk.italic(s),
+  underline: s => chalk.underline(s),
+  dim: s => chalk.gray(s),
+  code: s => chalk.cyan(s),
+  link: s => chalk.blue(s),
+};
+
+interface Context {
+  markdown: boolean;
+  full: boolean;
+  style: Styles;
+  links: string[];
+  pre: boolean;
+}
+
+function styleAttr(el: ElementNode): string {
+  return (el.attrs.style || '').toLowerCase().replace(/\s+/g, '');
+}
+
+function isHidden(el: ElementNode): boolean {
+  const style = styleAttr(el);
+  return 'hidden' in el.attrs ||
+    style.includes('display:none') ||
+    style.includes('visibility:hidden') ||
+    (/(^|;)max-height:0(px)?(;|$)/.test(style) && style.includes('overflow:hidden'));
+}
+
+function isTrackingPixel(el: ElementNode): boolean {
+  const style = styleAttr(el);
+  const tiny = (value?: string) => value !== undefined && parseFloat(value) <= 1;
+  return tiny(el.attrs.width) || tiny(el.attrs.height) ||
+    /(^|;)(width|height):[01](px)?(;|$)/.test(style) ||
+    style.includes('display:none');
+}
+
+/** Reply history wrappers used by common mail clients */
+function isQuoteContainer(el: ElementNode): boolean {
+  if (el.tag === 'blockquote') return true;
+  const marker = `${el.attrs.class || ''} ${el.attrs.id || ''}`;
+  return el.tag === 'div' && /gmail_quote|zmail_extra|yahoo_quoted/i.test(marker);
+}
+
+/** Visible width, ignoring terminal escape codes */
+function visibleLength(text: string): number {
+  return text.replace(/\x1b\[[0-9;]*m/g, '').length;
+}
+
+/**
+ * Trim each line and squeeze blank runs; indentation is made of NBSP
+ * so it survives
+ */
+function clean(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^[ \t\r\f]+|[ \t\r\f]+$/g, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+function block(text: string): string {
+  return `\n\n${text}\n\n`;
+}
+
+function indent(text: string, first: string, rest: string = NBSP.repeat(first.length)): string {
+  return text.split('\n').map((line, i) => (i === 0 ? first : rest) + line).join('\n');
+}
+
+/**
+ * Apply an inline style to the non-blank middle of a run, keeping its
+ * surrounding whitespace outside the markup
+ */
+function wrapInline(text: string, wrap: (s: string) => string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? match[1] + wrap(match[2]) + match[3] : text;
+}
+
+function renderChildren(el: ElementNode, ctx: Context): string {
+  return el.children.map(child => renderNode(child, ctx)).join('');
+}
+
+function renderNode(node: HtmlNode, ctx: Context): string {
+  if (node.type === 'text') {
+    if (ctx.pre) {
+      return node.text.replace(/\t/g, '    ').replace(/ /g, NBSP);
+    }
+    // Zero-width characters pad preheaders; drop them
+    return node.text.replace(/[\u200b-\u200d\u2060\ufeff\u034f]/g, '').replace(/[ \t\r\n\f]+/g, ' ');
+  }
+
+  const el = node;
+  if (SKIPPED_TAGS.has(el.tag) || isHidden(el)) {
+    return '';
+  }
+
+  if (isQuoteContainer(el)) {
+    return renderQuote(el, ctx);
+  }
+
+  switch (el.tag) {
+    case 'br':
+      return '\n';
+    case 'p':
+      return block(renderChildren(el, ctx));
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = clean(renderChildren(el, ctx)).replace(/\n+/g, ' ');
+      if (!text) return '';
+      if (ctx.markdown) return block(`${'#'.repeat(Number(el.tag[1]))} ${text}`);
+      return block(el.tag === 'h1' ? ctx.style.bold(ctx.style.underline(text)) : ctx.style.bold(text));
+    }
+    case 'strong':
+    case 'b':
+      return wrapInline(renderChildren(el, ctx), s => (ctx.markdown ? `**${s}**` : ctx.style.bold(s)));
+    case 'em':
+    case 'i':
+      return wrapInline(renderChildren(el, ctx), s => (ctx.markdown ? `*${s}*` : ctx.style.italic(s)));
+    case 'code':
+    case 'kbd':
+    case 'samp':
+      if (ctx.pre) return renderChildren(el, ctx);
+      return wrapInline(renderChildren(el, ctx), s => (ctx.markdown ? `\`${s}\`` : ctx.style.code(s)));
+    case 'pre':
+      return renderPre(el, ctx);
+    case 'hr':
+      return block(ctx.markdown ? '---' : ctx.style.dim('─'.repeat(40)));
+    case 'ul':
+    case 'ol':
+      return renderList(el, ctx);
+    case 'li':
+      // A stray <li> outside a list
+      return block(indent(clean(renderChildren(el, ctx)), ctx.markdown ? '- ' : '• '));
+    case 'table':
+      return renderTable(el, ctx);
+    case 'a':
+      return renderLink(el, ctx);
+    case 'img':
+      return renderImage(el, ctx);
+    default:
+      if (BLOCK_TAGS.has(el.tag)) {
+        return `\n${renderChildren(el, ctx)}\n`;
+      }
+      return renderChildren(el, ctx);
+  }
+}
+
+function renderQuote(el: ElementNode, ctx: Context): string {
+  const content = clean(renderChildren(el, ctx));
+  if (!content) return '';
+
+  if (!ctx.full) {
+    const count = content.split('\n').filter(line => line.trim()).length;
+    return block(ctx.style.dim(`[… ${count} quoted line(s) hidden]`));
+  }
+  if (el.tag !== 'blockquote') {
+    return block(content);
+  }
+  const prefix = ctx.markdown ? `>${NBSP}` : ctx.style.dim(`│${NBSP}`);
+  return block(content.split('\n').map(line => prefix + line).join('\n'));
+}
+
+function renderPre(el: ElementNode, ctx: Context): string {
+  const text = renderChildren(el, { ...ctx, pre: true }).replace(/^\n/, '').replace(/\n+$/, '');
+  if (ctx.markdown) {
+    return block(`\`\`\`\n${text}\n\`\`\``);
+  }
+  return block(text.split('\n').map(line => NBSP.repeat(4) + line).join('\n'));
+}
+
+function renderList(el: ElementNode, ctx: Context): string {
+  const ordered = el.tag === 'ol';
+  let number = parseInt(el.attrs.start || '1', 10) || 1;
+  const items: string[] = [];
+
+  for (const child of el.children) {
+    if (child.type === 'text') {
+      if (child.text.trim()) items.push(child.text.trim());
+      continue;
+    }
+    if (child.tag !== 'li') {
+      const rendered = clean(renderNode(child, ctx));
+      if (rendered) items.push(rendered);
+      continue;
+    }
+    // Items are kept tight: a nested list sits directly under its parent item
+    const content = clean(renderChildren(child, ctx)).replace(/\n\n+/g, '\n');
+    const bullet = ordered ? `${number++}. ` : ctx.markdown ? '- ' : '• ';
+    items.push(indent(content, bullet));
+  }
+
+  return block(items.join('\n'));
+}
+
+function collectRows(el: ElementNode): ElementNode[][] {
+  const rows: ElementNode[][] = [];
+  for (const child of el.children) {
+    if (child.type !== 'element') continue;
+    if (child.tag === 'tr') {
+      rows.push(child.children.filter((c): c is ElementNode =>
+        c.type === 'element' && (c.tag === 'td' || c.tag === 'th')));
+    } else if (['thead', 'tbody', 'tfoot'].includes(child.tag)) {
+      rows.push(...collectRows(child));
+    }
+  }
+  return rows;
+}
+
+function containsTag(el: ElementNode, tags: string[]): boolean {
+  return el.children.some(child =>
+    child.type === 'element' && (tags.includes(child.tag) || containsTag(child, tags)));
+}
+
+/** Widest data table drawn as columns; wider ones are listed row by row */
+const MAX_TABLE_WIDTH = 110;
+
+/**
+ * Data tables become aligned columns (or a Markdown table); layout tables,
+ * which most HTML mail is built from, are flattened into blocks
+ */
+function renderTable(el: ElementNode, ctx: Context): string {
+  if (isHidden(el)) return '';
+  const rows = collectRows(el);
+  const cells = rows.map(row => row.map(cell => clean(renderChildren(cell, ctx))));
+  const columns = Math.max(0, ...cells.map(row => row.length));
+
+  const isLayout = columns < 2 ||
+    rows.some(row => row.some(cell => containsTag(cell, ['table', 'p', 'div', 'ul', 'ol', 'h1', 'h2', 'h3', 'img']))) ||
+    cells.some(row => row.some(cell => cell.includes('\n')));
+
+  if (isLayout) {
+    return block(cells.map(row => row.filter(Boolean).join('\n')).filter(Boolean).join('\n'));
+  }
+
+  const header = rows[0].length > 0 && rows[0].every(cell => cell.tag === 'th');
+  if (ctx.markdown) {
+    const line = (row: string[]) =>
+      `| ${Array.from({ length: columns }, (_, i) => (row[i] || '').replace(/\|/g, '\\|')).join(' | ')} |`;
+    const [first, ...rest] = cells;
+    return block([line(first), `|${' --- |'.repeat(columns)}`, ...rest.map(line)].join('\n'));
+  }
+
+  const widths = Array.from({ length: columns }, (_, i) =>
+    Math.max(...cells.map(row => visibleLength(row[i] || ''))));
+  if (widths.reduce((sum, width) => sum + width + 2, 0) > MAX_TABLE_WIDTH) {
+    return block(cells.map(row => row.filter(Boolean).join(' · ')).join('\n'));
+  }
+
+  const lines = cells.map((row, r) => {
+    const line = widths.map((width, i) => {
+      const cell = row[i] || '';
+      const padded = cell + NBSP.repeat(width - visibleLength(cell));
+      return header && r === 0 ? ctx.style.bold(padded) : padded;
+    }).join(NBSP.repeat(2));
+    return line;
+  });
+  if (header) {
+    lines.splice(1, 0, ctx.style.dim(widths.map(w => '─'.repeat(w)).join(NBSP.repeat(2))));
+  }
+  return block(lines.join('\n'));
+}
+
+function renderLink(el: ElementNode, ctx: Context): string {
+  const inner = renderChildren(el, ctx);
+  const href = (el.attrs.href || '').trim();
+  const text = clean(inner).replace(/\n+/g, ' ');
+
+  if (!href || href.startsWith('#') || /^javascript:/i.test(href)) {
+    return inner;
+  }
+  if (/^mailto:/i.test(href)) {
+    const address = decodeURIComponent(href.slice(7).split('?')[0]);
+    if (!text || text === address) return ctx.markdown ? `<${address}>` : ctx.style.link(address);
+    return ctx.markdown ? `[${text}](${href})` : `${inner} <${ctx.style.link(address)}>`;
+  }
+
+  if (ctx.markdown) {
+    return text ? `[${text}](${href})` : `<${href}>`;
+  }
+
+  // A bare URL as its own text needs no footnote
+  const bare = (url: string) => url.replace(/^https?:\/\//i, '').replace(/\/$/, '');
+  if (!text || bare(text) === bare(href)) {
+    return ctx.style.link(href);
+  }
+
+  let number = ctx.links.indexOf(href) + 1;
+  if (number === 0) {
+    ctx.links.push(href);
+    number = ctx.links.length;
+  }
+  return wrapInline(inner, s => `${s}${ctx.style.dim(`[${number}]`)}`);
+}
+
+function renderImage(el: ElementNode, ctx: Context): string {
+  if (isTrackingPixel(el)) return '';
+  const alt = (el.attrs.alt || el.attrs.title || '').trim();
+  if (!alt) return '';
+  if (ctx.markdown) {
+    return el.attrs.src ? `![${alt}](${el.attrs.src})` : alt;
+  }
+  return ctx.style.dim(`[image: ${alt}]`);
+}
+
+/**
+ * Render an HTML body as readable text or Markdown
+ */
+export function renderHtml(html: string, options: RenderOptions = {}): string {
+  const color = options.color ?? true;
+  const ctx: Context = {
+    markdown: options.format === 'markdown',
+    full: options.full ?? false,
+    style: color && options.format !== 'markdown' ? COLORED : PLAIN,
+    links: [],
+    pre: false,
+  };
+
+  let output = clean(renderNode(parseHtml(html), ctx));
+
+  if (ctx.links.length) {
+    const footnotes = ctx.links.map((url, i) => `${ctx.style.dim(`[${i + 1}]`)} ${url}`);
+    output += `\n\n${ctx.style.dim('Links:')}\n${footnotes.join('\n')}`;
+  }
+
+  return output
+    .replace(new RegExp(NBSP, 'g'), ' ')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n');
+}
+
+/**
+ * Plain-text version of an HTML body, with nothing collapsed or styled
+ * (quoting in replies, signature previews)
+ */
+export function htmlToText(html: string): string {
+  return renderHtml(html, { full: true, color: false });
+}
@@ -0,0 +1,418 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { extname, join } from 'path';
+import { emailPages, type MessageUpdate } from './client.js';
+import { ValidationError } from './errors.js';
+import { parseYaml } from './yaml.js';
+import { deleteEach, updateInBatches, type BulkTarget } from './bulk.js';
+import { getStoreDir } from './store.js';
+import type { ZohoEmail, ZohoLabel } from '../types/zoho.js';
+
+/**
+ * Local triage rules for `zoho-mail rules run`. A rules file (YAML or
+ * JSON) holds an ordered list:
+ *
+ *   rules:
+ *     - name: GitHub
+ *       match: { from: "@github.com", subject: "^\\[PR\\]", olderThan: 2d }
+ *       actions: [{ label: Dev }, mark-read]
+ *       stop: true
+ *
+ * Every condition of a rule must hold; list values match if any entry does.
+ */
+
+export type RuleAction =
+  | { type: 'move'; folderId: string }
+  | { type: 'label'; label: string }
+  | { type: 'flag' | 'mark-read' | 'archive' | 'spam' | 'delete' };
+
+export interface Rule {
+  name: string;
+  from?: string[];
+  to?: string[];
+  subject?: RegExp;
+  hasAttachment?: boolean;
+  /** Minimum / maximum age in milliseconds */
+  olderThan?: number;
+  newerThan?: number;
+  labels?: string[];
+  actions: RuleAction[];
+  /** Skip the remaining rules for a message this rule matched */
+  stop: boolean;
+}
+
+export interface RuleHit {
+  email: ZohoEmail;
+  rules: string[];
+  actions: RuleAction[];
+}
+
+export interface ActionResult {
+  messageId: string;
+  action: string;
+  ok: boolean;
+  error?: string;
+}
+
+const SIMPLE_ACTIONS = ['flag', 'mark-read', 'archive', 'spam', 'delete'] as const;
+
+/** Actions that take a message out of the folder; only the first one applies */
+const TERMINAL_ACTIONS = new Set(['move', 'spam', 'delete']);
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * "30m", "12h", "7d", "2w"
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  return match ? Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()] : undefined;
+}
+
+function toList(value: unknown, where: string): string[] {
+  const items = Array.isArray(value) ? value : [value];
+  if (items.some(item => typeof item !== 'string' && typeof item !== 'number')) {
+    throw new ValidationError(`${where} must be a string or a list of strings`);
+  }
+  return items.map(item => String(item));
+}
+
+function parseAction(value: unknown, where: string): RuleAction {
+  if (typeof value === 'string' && (SIMPLE_ACTIONS as readonly string[]).includes(value)) {
+    return { type: value as typeof SIMPLE_ACTIONS[number] };
+  }
+  const entries = value && typeof value === 'object' && !Array.isArray(value) ? Object.entries(value) : [];
+  if (entries.length === 1) {
+    const [[key, arg]] = entries;
+    if (key === 'move' && arg !== null) return { type: 'move', folderId: String(arg) };
+    if (key === 'label' && arg !== null) return { type: 'label', label: String(arg) };
+    // `flag: true` reads naturally in YAML
+    if ((SIMPLE_ACTIONS as readonly string[]).includes(key) && arg === true) {
+      return { type: key as typeof SIMPLE_ACTIONS[number] };
+    }
+  }
+  throw new ValidationError(
+    `${where}: unknown action ${JSON.stringify(value)}`,
+    { hint: `Actions: move: <folder>, label: <label>, ${SIMPLE_ACTIONS.join(', ')}` }
+  );
+}
+
+function parseRule(value: unknown, index: number): Rule {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`Rule ${index + 1} must be a mapping`);
+  }
+  const raw = value as Record<string, unknown>;
+  const name = raw.name ? String(raw.name) : `Rule ${index + 1}`;
+  const match = (raw.match ?? {}) as Record<string, unknown>;
+  if (typeof match !== 'object' || Array.isArray(match)) {
+    throw new ValidationError(`${name}: match must be a mapping`);
+  }
+
+  const known = ['from', 'to', 'subject', 'hasAttachment', 'olderThan', 'newerThan', 'labels'];
+  const unknown = Object.keys(match).filter(key => !known.includes(key));
+  if (unknown.length) {
+    throw new ValidationError(`${name}: unknown condition ${unknown.join(', ')}`, {
+      hint: `Conditions: ${known.join(', ')}`,
+    });
+  }
+
+  const rule: Rule = { name, actions: [], stop: raw.stop === true };
+  if (match.from !== undefined) rule.from = toList(match.from, `${name}: from`).map(s => s.toLowerCase());
+  if (match.to !== undefined) rule.to = toList(match.to, `${name}: to`).map(s => s.toLowerCase());
+  if (match.labels !== undefined) rule.labels = toList(match.labels, `${name}: labels`);
+  if (match.subject !== undefined) {
+    try {
+      rule.subject = new RegExp(String(match.subject), 'i');
+    } catch (err) {
+      throw new ValidationError(`${name}: bad subject pattern: ${(err as Error).message}`);
+    }
+  }
+  if (match.hasAttachment !== undefined) {
+    if (typeof match.hasAttachment !== 'boolean') {
+      throw new ValidationError(`${name}: hasAttachment must be true or false`);
+    }
+    rule.hasAttachment = match.hasAttachment;
+  }
+  for (const key of ['olderThan', 'newerThan'] as const) {
+    if (match[key] === undefined) continue;
+    const ms = parseDuration(String(match[key]));
+    if (ms === undefined) {
+      throw new ValidationError(`${name}: ${key} must look like 30m, 12h, 7d or 2w`);
+    }
+    rule[key] = ms;
+  }
+
+  const actions = raw.actions === undefined ? [] : Array.isArray(raw.actions) ? raw.actions : [raw.actions];
+  if (actions.length === 0) {
+    throw new ValidationError(`${name}: no actions`);
+  }
+  rule.actions = actions.map(action => parseAction(action, name));
+  return rule;
+}
+
+/**
+ * Parse a rules file: YAML, or JSON for .json files. The rules may be the
+ * whole document or sit under a `rules:` key.
+ */
+export function parseRules(source: string, fileName: string): Rule[] {
+  let document: unknown;
+  try {
+    document = extname(fileName).toLowerCase() === '.json' ? JSON.parse(source) : parseYaml(source);
+  } catch (err) {
+    throw new ValidationError(`${fileName}: ${(err as Error).message}`);
+  }
+
+  const list = Array.isArray(document)
+    ? document
+    : (document as Record<string, unknown> | null)?.rules;
+  if (!Array.isArray(list)) {
+    throw new ValidationError(`${fileName}: expected a list of rules under "rules:"`);
+  }
+  return list.map((rule, index) => parseRule(rule, index));
+}
+
+export async function loadRules(path: string): Promise<Rule[]> {
+  let source: string;
+  try {
+    source = await readFile(path, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ValidationError(`Rules file not found: ${path}`, { hint: 'Pass one with --file <path>' });
+    }
+    throw err;
+  }
+  return parseRules(source, path);
+}
+
+/**
+ * Look up a label by ID or (case-insensitive) name
+ */
+function resolveLabel(labels: ZohoLabel[], selector: string): ZohoLabel {
+  const label = labels.find(l => l.labelId === selector) ??
+    labels.find(l => l.labelName.toLowerCase() === selector.toLowerCase());
+  if (!label) {
+    throw new ValidationError(`Unknown label "${selector}"`, { hint: 'Run `zoho-mail labels list` to see labels' });
+  }
+  return label;
+}
+
+/**
+ * Replace label names with IDs, failing before anything is changed if a
+ * rule names a label that doesn't exist
+ */
+export function resolveRuleLabels(rules: Rule[], labels: ZohoLabel[]): Rule[] {
+  return rules.map(rule => ({
+    ...rule,
+    labels: rule.labels?.map(l => resolveLabel(labels, l).labelId),
+    actions: rule.actions.map(action =>
+      action.type === 'label' ? { type: 'label', label: resolveLabel(labels, action.label).labelId } : action
+    ),
+  }));
+}
+
+/**
+ * Replace move targets given by name, path or type with folder IDs
+ */
+export async function resolveRuleFolders(
+  rules: Rule[],
+  resolveFolderId: (selector: string) => Promise<string>
+): Promise<Rule[]> {
+  const resolved: Rule[] = [];
+  for (const rule of rules) {
+    const actions: RuleAction[] = [];
+    for (const action of rule.actions) {
+      actions.push(action.type === 'move' ? { type: 'move', folderId: await resolveFolderId(action.folderId) } : action);
+    }
+    resolved.push({ ...rule, actions });
+  }
+  return resolved;
+}
+
+export function rulesUseLabels(rules: Rule[]): boolean {
+  return rules.some(rule => rule.labels || rule.actions.some(a => a.type === 'label'));
+}
+
+function isTrue(value: boolean | string): boolean {
+  return value === true || value === '1' || value === 'true';
+}
+
+export function ruleMatches(rule: Rule, email: ZohoEmail, now: number): boolean {
+  const sender = `${email.sender || ''} ${email.fromAddress || ''}`.toLowerCase();
+  const recipients = `${email.toAddress || ''} ${email.ccAddress || ''}`.toLowerCase();
+  const age = now - Number(email.receivedTime);
+
+  if (rule.from && !rule.from.some(p => sender.includes(p))) return false;
+  if (rule.to && !rule.to.some(p => recipients.includes(p))) return false;
+  if (rule.subject && !rule.subject.test(email.subject || '')) return false;
+  if (rule.hasAttachment !== undefined && isTrue(email.hasAttachment) !== rule.hasAttachment) return false;
+  if (rule.olderThan !== undefined && age < rule.olderThan) return false;
+  if (rule.newerThan !== undefined && age > rule.newerThan) return false;
+  if (rule.labels && !rule.labels.some(l => email.labels?.includes(l))) return false;
+  return true;
+}
+
+/**
+ * Run every message through the rules in order. Actions of all matching
+ * rules are collected until a rule says stop; once one rule moves, spams
+ * or deletes a message, later rules can't send it somewhere else.
+ */
+export function planRules(rules: Rule[], emails: ZohoEmail[], now: number = Date.now()): RuleHit[] {
+  const hits: RuleHit[] = [];
+  for (const email of emails) {
+    const hit: RuleHit = { email, rules: [], actions: [] };
+    let terminal = false;
+    for (const rule of rules) {
+      if (!ruleMatches(rule, email, now)) continue;
+      hit.rules.push(rule.name);
+      for (const action of rule.actions) {
+        if (TERMINAL_ACTIONS.has(action.type)) {
+          if (terminal) continue;
+          terminal = true;
+        }
+        if (!hit.actions.some(a => describeAction(a) === describeAction(action))) {
+          hit.actions.push(action);
+        }
+      }
+      if (rule.stop) break;
+    }
+    if (hit.rules.length) hits.push(hit);
+  }
+  return hits;
+}
+
+export function describeAction(action: RuleAction): string {
+  switch (action.type) {
+    case 'move':
+      return `move:${action.folderId}`;
+    case 'label':
+      return `label:${action.label}`;
+    default:
+      return action.type;
+  }
+}
+
+function toUpdate(action: RuleAction): MessageUpdate | undefined {
+  switch (action.type) {
+    case 'move': return { mode: 'moveToFolder', folderId: action.folderId };
+    case 'label': return { mode: 'addTag', tagId: action.label };
+    case 'flag': return { mode: 'addFlag' };
+    case 'mark-read': return { mode: 'markAsRead' };
+    case 'archive': return { mode: 'archive' };
+    case 'spam': return { mode: 'spam' };
+    case 'delete': return undefined;
+  }
+}
+
+/**
+ * Carry out the planned actions, batching each distinct action across
+ * messages. Labels, flags and read state go first so they land before a
+ * message is moved or deleted.
+ */
+export async function applyRuleHits(
+  accountId: string,
+  hits: RuleHit[],
+  folderId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<ActionResult[]> {
+  const groups = new Map<string, { action: RuleAction; targets: BulkTarget[] }>();
+  for (const hit of hits) {
+    for (const action of hit.actions) {
+      const key = describeAction(action);
+      const group = groups.get(key) ?? { action, targets: [] };
+      group.targets.push({ messageId: hit.email.messageId, folderId: hit.email.folderId || folderId });
+      groups.set(key, group);
+    }
+  }
+
+  const ordered = [...groups.entries()].sort(
+    ([, a], [, b]) => Number(TERMINAL_ACTIONS.has(a.action.type)) - Number(TERMINAL_ACTIONS.has(b.action.type))
+  );
+  const total = ordered.reduce((sum, [, g]) => sum + g.targets.length, 0);
+
+  const results: ActionResult[] = [];
+  for (const [key, { action, targets }] of ordered) {
+    const progress = (done: number) => onProgress?.(results.length + done, total);
+    const update = toUpdate(action);
+    const outcomes = update
+      ? await updateInBatches(accountId, targets, update, progress)
+      : await deleteEach(accountId, targets, folderId, progress);
+    results.push(...outcomes.map(o => ({ ...o, action: key })));
+  }
+  return results;
+}
+
+interface Cursor {
+  /** receivedTime of the newest message seen by the last run */
+  receivedTime: number;
+  /** Messages at exactly that time, which the next run must still skip */
+  messageIds: string[];
+}
+
+function cursorPath(accountId: string): string {
+  return join(getStoreDir(accountId), 'rules-cursor.json');
+}
+
+export async function loadCursor(accountId: string, folderId: string): Promise<Cursor | undefined> {
+  try {
+    const cursors = JSON.parse(await readFile(cursorPath(accountId), 'utf-8')) as Record<string, Cursor>;
+    return cursors[folderId];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw err;
+  }
+}
+
+export async function saveCursor(accountId: string, folderId: string, emails: ZohoEmail[]): Promise<void> {
+  const previous = await loadCursor(accountId, folderId);
+  const newest = Math.max(previous?.receivedTime ?? 0, ...emails.map(e => Number(e.receivedTime)));
+  const atNewest = emails.filter(e => Number(e.receivedTime) === newest).map(e => e.messageId);
+  const cursor: Cursor = {
+    receivedTime: newest,
+    messageIds: newest === previous?.receivedTime ? [...new Set([...previous.messageIds, ...atNewest])] : atNewest,
+  };
+
+  let cursors: Record<string, Cursor> = {};
+  try {
+    cursors = JSON.parse(await readFile(cursorPath(accountId), 'utf-8'));
+  } catch {
+    // first run
+  }
+  cursors[folderId] = cursor;
+
+  const path = cursorPath(accountId);
+  await mkdir(getStoreDir(accountId), { recursive: true });
+  const temp = `${path}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(cursors, null, 2));
+  await rename(temp, path);
+}
+
+/**
+ * Messages in a folder, oldest first, optionally only those after a
+ * point in time (epoch ms) or after the saved cursor
+ */
+export async function fetchRuleCandidates(
+  accountId: string,
+  folderId: string,
+  since?: number | Cursor
+): Promise<ZohoEmail[]> {
+  const after = typeof since === 'number' ? since : since?.receivedTime ?? 0;
+  const skip = new Set(typeof since === 'object' ? since.messageIds : []);
+
+  const emails: ZohoEmail[] = [];
+  let reachedCursor = false;
+  for await (const page of emailPages(accountId, folderId)) {
+    for (const email of page) {
+      if (Number(email.receivedTime) < after) {
+        reachedCursor = true;
+        break;
+      }
+      if (!skip.has(email.messageId)) emails.push(email);
+    }
+    if (reachedCursor) break;
+  }
+  return emails.sort((a, b) => Number(a.receivedTime) - Number(b.receivedTime));
+}
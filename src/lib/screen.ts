@@ -0,0 +1,130 @@
+import { emitKeypressEvents } from 'readline';
+import { displayWidth } from './format.js';
+
+/**
+ * Bare-bones full-screen terminal handling for `zoho-mail tui`: the
+ * alternate screen, raw keypresses and lines cut to the screen width.
+ * Text may carry chalk styling; escape codes are kept whole and take no
+ * width.
+ */
+
+export interface Key {
+  /** The character typed, if any */
+  sequence?: string;
+  name?: string;
+  ctrl?: boolean;
+  shift?: boolean;
+}
+
+/** The streams the screen is drawn on; the process's own outside tests */
+export interface Terminal {
+  input: NodeJS.ReadableStream & { isTTY?: boolean; setRawMode?(mode: boolean): unknown };
+  output: NodeJS.WritableStream & { isTTY?: boolean; columns?: number; rows?: number };
+}
+
+export function processTerminal(): Terminal {
+  return { input: process.stdin, output: process.stdout };
+}
+
+const ESCAPE = /^\x1b\[[0-9;]*m/;
+const RESET = '\x1b[0m';
+
+/** Escape codes and single characters, in order */
+function tokens(text: string): string[] {
+  const out: string[] = [];
+  let rest = text;
+  while (rest) {
+    const escape = rest.match(ESCAPE);
+    const token = escape ? escape[0] : String.fromCodePoint(rest.codePointAt(0)!);
+    out.push(token);
+    rest = rest.slice(token.length);
+  }
+  return out;
+}
+
+/**
+ * Exactly `width` columns of `text`: cut with an ellipsis if longer,
+ * padded with spaces if shorter
+ */
+export function fit(text: string, width: number): string {
+  if (width <= 0) return '';
+  const full = displayWidth(text);
+  if (full <= width) return text + ' '.repeat(width - full);
+
+  let out = '';
+  let used = 0;
+  for (const token of tokens(text)) {
+    const w = token.startsWith('\x1b') ? 0 : displayWidth(token);
+    if (used + w > width - 1) break;
+    out += token;
+    used += w;
+  }
+  // Close whatever styling the cut left open
+  const reset = out.includes('\x1b') ? RESET : '';
+  return `${out}${reset}…${' '.repeat(width - 1 - used)}`;
+}
+
+/**
+ * Break a line into pieces no wider than `width`, at spaces where possible
+ */
+export function wrap(line: string, width: number): string[] {
+  if (width <= 0 || displayWidth(line) <= width) return [line];
+  const lines: string[] = [];
+  let current = '';
+  let used = 0;
+  let lastSpace = -1;
+  for (const token of tokens(line)) {
+    const w = token.startsWith('\x1b') ? 0 : displayWidth(token);
+    if (used + w > width) {
+      if (lastSpace > 0) {
+        lines.push(current.slice(0, lastSpace));
+        current = current.slice(lastSpace + 1);
+      } else {
+        lines.push(current);
+        current = '';
+      }
+      used = displayWidth(current);
+      lastSpace = -1;
+    }
+    if (token === ' ') lastSpace = current.length;
+    current += token;
+    used += w;
+  }
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Switch to the alternate screen and raw keypresses. The returned
+ * function puts the terminal back and is safe to call more than once.
+ */
+export function enterScreen(terminal: Terminal, onKey: (key: Key) => void, onResize: () => void): () => void {
+  const { input, output } = terminal;
+  emitKeypressEvents(input);
+  input.setRawMode?.(true);
+  input.resume();
+  output.write('\x1b[?1049h\x1b[?25l');
+
+  const keypress = (sequence: string | undefined, key: Key | undefined) =>
+    onKey({ ...key, sequence: sequence ?? key?.sequence });
+  input.on('keypress', keypress);
+  output.on('resize', onResize);
+
+  let left = false;
+  return () => {
+    if (left) return;
+    left = true;
+    input.off('keypress', keypress);
+    output.off('resize', onResize);
+    input.setRawMode?.(false);
+    input.pause();
+    output.write(`${RESET}\x1b[?25h\x1b[?1049l`);
+  };
+}
+
+/** Redraw the whole screen from a list of lines (cut or padded to fit) */
+export function draw(terminal: Terminal, lines: string[]): void {
+  const { columns = 80, rows = 24 } = terminal.output;
+  const frame = Array.from({ length: rows }, (_, i) => fit(lines[i] ?? '', columns));
+  terminal.output.write(`\x1b[H${frame.join('\r\n')}`);
+}
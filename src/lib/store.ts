@@ -0,0 +1,206 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { getConfigPath } from './config.js';
+import type { ZohoEmail, ZohoFolder, ZohoLabel } from '../types/zoho.js';
+
+/**
+ * On-disk copy of message metadata (and, on request, bodies) kept by
+ * `zoho-mail sync`. One directory per account next to the config file:
+ *
+ *   cache/<accountId>/folders.json         folder list
+ *   cache/<accountId>/labels.json          label list
+ *   cache/<accountId>/folders/<id>.json    messages + high-water mark
+ *   cache/<accountId>/bodies/<id>.txt      message bodies
+ */
+
+export interface FolderState {
+  folderId: string;
+  /** receivedTime of the newest message seen; the next sync stops below it */
+  highWaterMark: number;
+  /** When the folder was last synced (epoch milliseconds) */
+  syncedAt: number;
+  messages: Record<string, ZohoEmail>;
+}
+
+export function getStoreDir(accountId: string): string {
+  return join(dirname(getConfigPath()), 'cache', accountId);
+}
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Write via a temp file and rename, so an interrupted sync never leaves
+ * a truncated store behind
+ */
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const temp = `${path}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(value));
+  await rename(temp, path);
+}
+
+function folderPath(accountId: string, folderId: string): string {
+  return join(getStoreDir(accountId), 'folders', `${folderId}.json`);
+}
+
+function bodyPath(accountId: string, messageId: string): string {
+  return join(getStoreDir(accountId), 'bodies', `${messageId}.txt`);
+}
+
+export async function loadFolders(accountId: string): Promise<ZohoFolder[] | undefined> {
+  return readJson<ZohoFolder[]>(join(getStoreDir(accountId), 'folders.json'));
+}
+
+export async function saveFolders(accountId: string, folders: ZohoFolder[]): Promise<void> {
+  await writeJson(join(getStoreDir(accountId), 'folders.json'), folders);
+}
+
+export async function loadLabels(accountId: string): Promise<ZohoLabel[] | undefined> {
+  return readJson<ZohoLabel[]>(join(getStoreDir(accountId), 'labels.json'));
+}
+
+export async function saveLabels(accountId: string, labels: ZohoLabel[]): Promise<void> {
+  await writeJson(join(getStoreDir(accountId), 'labels.json'), labels);
+}
+
+export async function loadFolderState(accountId: string, folderId: string): Promise<FolderState> {
+  return await readJson<FolderState>(folderPath(accountId, folderId)) ??
+    { folderId, highWaterMark: 0, syncedAt: 0, messages: {} };
+}
+
+export async function saveFolderState(accountId: string, state: FolderState): Promise<void> {
+  await writeJson(folderPath(accountId, state.folderId), state);
+}
+
+export async function loadBody(accountId: string, messageId: string): Promise<string | undefined> {
+  try {
+    return await readFile(bodyPath(accountId, messageId), 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+export async function saveBody(accountId: string, messageId: string, content: string): Promise<void> {
+  await mkdir(dirname(bodyPath(accountId, messageId)), { recursive: true });
+  await writeFile(bodyPath(accountId, messageId), content);
+}
+
+/**
+ * Cached messages of a folder (or of every synced folder), newest first
+ */
+export async function loadMessages(accountId: string, folderId?: string): Promise<ZohoEmail[]> {
+  const folderIds = folderId
+    ? [folderId]
+    : (await loadFolders(accountId) || []).map(f => f.folderId);
+
+  const messages: ZohoEmail[] = [];
+  for (const id of folderIds) {
+    messages.push(...Object.values((await loadFolderState(accountId, id)).messages));
+  }
+  return messages.sort((a, b) => Number(b.receivedTime) - Number(a.receivedTime));
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}@._'-]*/gu) || [];
+}
+
+/**
+ * Split a query into words and "quoted phrases"
+ */
+function parseTerms(query: string): string[] {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = (match[1] ?? match[2]).toLowerCase().trim();
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+const FIELD_WEIGHTS = {
+  subject: 3,
+  from: 2,
+  to: 1.5,
+  summary: 1,
+  body: 1,
+};
+
+export interface SearchHit {
+  email: ZohoEmail;
+  score: number;
+}
+
+/**
+ * Full-text search over the store. Every term must match somewhere;
+ * hits are ranked by where the terms match (subject over sender over body),
+ * how often, and how rare the term is across the store, then by recency.
+ */
+export async function searchStore(
+  accountId: string,
+  query: string,
+  options: { folderId?: string; limit?: number } = {}
+): Promise<SearchHit[]> {
+  const terms = parseTerms(query);
+  const messages = await loadMessages(accountId, options.folderId);
+  if (terms.length === 0) {
+    return messages.slice(0, options.limit).map(email => ({ email, score: 0 }));
+  }
+
+  const documents = await Promise.all(messages.map(async (email) => {
+    const body = await loadBody(accountId, email.messageId);
+    const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+      subject: email.subject || '',
+      from: `${email.sender || ''} ${email.fromAddress || ''}`,
+      to: `${email.toAddress || ''} ${email.ccAddress || ''}`,
+      summary: email.summary || '',
+      body: body ? body.replace(/<[^>]+>/g, ' ') : '',
+    };
+    const lowered = Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [key, value.toLowerCase()])
+    ) as typeof fields;
+    return { email, fields: lowered, tokens: new Set(tokenize(Object.values(fields).join(' '))) };
+  }));
+
+  // Rarer terms count for more (inverse document frequency)
+  const idf = new Map(terms.map(term => {
+    const containing = documents.filter(d => Object.values(d.fields).some(f => f.includes(term))).length;
+    return [term, Math.log(1 + documents.length / (1 + containing))];
+  }));
+
+  const hits: SearchHit[] = [];
+  for (const doc of documents) {
+    let score = 0;
+    let matchedAll = true;
+    for (const term of terms) {
+      let termScore = 0;
+      for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+        const text = doc.fields[field as keyof typeof FIELD_WEIGHTS];
+        const count = text.split(term).length - 1;
+        if (count > 0) {
+          termScore += weight * (1 + Math.log(count));
+        }
+      }
+      if (termScore === 0) {
+        matchedAll = false;
+        break;
+      }
+      // Whole-word matches beat matches inside longer words
+      if (doc.tokens.has(term)) termScore *= 1.5;
+      score += termScore * idf.get(term)!;
+    }
+    if (matchedAll) {
+      hits.push({ email: doc.email, score });
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score || Number(b.email.receivedTime) - Number(a.email.receivedTime));
+  return options.limit ? hits.slice(0, options.limit) : hits;
+}
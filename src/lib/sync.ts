@@ -0,0 +1,91 @@
+import { emailPages, getEmailContent } from './client.js';
+import { loadFolderState, saveFolderState, loadBody, saveBody, type FolderState } from './store.js';
+import type { ZohoFolder } from '../types/zoho.js';
+
+export interface SyncResult {
+  folderId: string;
+  folderName: string;
+  added: number;
+  updated: number;
+  total: number;
+  bodies: number;
+  highWaterMark: number;
+}
+
+/**
+ * Bring the local copy of a folder up to date. Pages newest-first and
+ * stops at the folder's high-water mark, so a routine sync only fetches
+ * what arrived since the last one. `full` rebuilds the folder instead,
+ * which also drops messages deleted or moved away on the server and
+ * refreshes read/flag state.
+ */
+export async function syncFolder(
+  accountId: string,
+  folder: ZohoFolder,
+  options: {
+    full?: boolean;
+    bodies?: boolean;
+    /** Stop after this many messages (first sync of a huge folder) */
+    max?: number;
+    onProgress?: (fetched: number) => void;
+  } = {}
+): Promise<SyncResult> {
+  const previous = await loadFolderState(accountId, folder.folderId);
+  const state: FolderState = options.full
+    ? { folderId: folder.folderId, highWaterMark: 0, syncedAt: 0, messages: {} }
+    : previous;
+  const stopBelow = options.full ? 0 : previous.highWaterMark;
+
+  let added = 0;
+  let updated = 0;
+  let fetched = 0;
+  let highWaterMark = previous.highWaterMark;
+
+  let reachedMark = false;
+  for await (const page of emailPages(accountId, folder.folderId, { max: options.max })) {
+    for (const email of page) {
+      const received = Number(email.receivedTime);
+      // Messages at exactly the mark may be new, so only stop strictly below it
+      if (received < stopBelow) {
+        reachedMark = true;
+        break;
+      }
+      if (previous.messages[email.messageId]) {
+        updated++;
+      } else {
+        added++;
+      }
+      state.messages[email.messageId] = email;
+      highWaterMark = Math.max(highWaterMark, received);
+
+      fetched++;
+    }
+
+    options.onProgress?.(fetched);
+    if (reachedMark) break;
+  }
+
+  let bodies = 0;
+  if (options.bodies) {
+    for (const messageId of Object.keys(state.messages)) {
+      if (await loadBody(accountId, messageId) !== undefined) continue;
+      const { content } = await getEmailContent(accountId, folder.folderId, messageId);
+      await saveBody(accountId, messageId, content || '');
+      bodies++;
+    }
+  }
+
+  state.highWaterMark = highWaterMark;
+  state.syncedAt = Date.now();
+  await saveFolderState(accountId, state);
+
+  return {
+    folderId: folder.folderId,
+    folderName: folder.path || folder.folderName,
+    added,
+    updated,
+    total: Object.keys(state.messages).length,
+    bodies,
+    highWaterMark,
+  };
+}
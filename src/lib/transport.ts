@@ -0,0 +1,149 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import axios from 'axios';
+import { ZohoError } from './errors.js';
+
+const execFileAsync = promisify(execFile);
+
+export type TransportName = 'http' | 'pdauth';
+
+export const TRANSPORTS: TransportName[] = ['http', 'pdauth'];
+
+export interface TransportRequest {
+  method: string;
+  path: string;
+  query?: Record<string, string>;
+  data?: unknown;
+  headers?: Record<string, string>;
+  /** Raw request body (file uploads); sent instead of JSON `data` */
+  body?: Buffer;
+  /** 'binary' returns the body as a Buffer instead of parsed JSON */
+  responseType?: 'json' | 'binary';
+}
+
+export interface TransportResponse {
+  /** HTTP status, when the backend exposes it */
+  httpStatus?: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface Transport {
+  name: TransportName;
+  request(req: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Base URL of the Zoho Mail API for a region, e.g. https://mail.zoho.eu
+ */
+export function getApiBaseUrl(region: string): string {
+  return `https://mail.${region || 'zoho.com'}`;
+}
+
+/**
+ * Call the Zoho Mail REST API directly over HTTPS
+ */
+export function createHttpTransport(options: {
+  baseUrl: string;
+  getAccessToken: () => Promise<string>;
+}): Transport {
+  return {
+    name: 'http',
+    async request(req) {
+      const token = await options.getAccessToken();
+      const response = await axios.request({
+        method: req.method,
+        url: options.baseUrl.replace(/\/+$/, '') + req.path,
+        params: req.query,
+        data: req.body ?? req.data,
+        headers: {
+          Accept: 'application/json',
+          Authorization: `Zoho-oauthtoken ${token}`,
+          ...(req.body ? { 'Content-Type': 'application/octet-stream' } : {}),
+          ...req.headers,
+        },
+        responseType: req.responseType === 'binary' ? 'arraybuffer' : 'json',
+        maxBodyLength: Infinity,
+        timeout: 30_000,
+        // Zoho reports errors in the body; let the caller inspect them
+        validateStatus: () => true,
+      });
+
+      const headers: Record<string, string> = {};
+      for (const [key, value] of Object.entries(response.headers)) {
+        if (value !== undefined && value !== null) {
+          headers[key.toLowerCase()] = String(value);
+        }
+      }
+
+      let body: unknown = response.data;
+      if (req.responseType === 'binary') {
+        const raw = Buffer.from(response.data);
+        body = raw;
+        // Errors still come back as JSON
+        if (response.status >= 400 && headers['content-type']?.includes('json')) {
+          try {
+            body = JSON.parse(raw.toString('utf-8'));
+          } catch {
+            // keep the raw body
+          }
+        }
+      }
+
+      return { httpStatus: response.status, headers, body };
+    },
+  };
+}
+
+/**
+ * Call the Zoho Mail API through `pdauth proxy` (Pipedream OAuth).
+ * Arguments are passed to the process directly, never through a shell.
+ */
+export function createPdauthTransport(options: { userId: string }): Transport {
+  return {
+    name: 'pdauth',
+    async request(req) {
+      if (req.body || req.responseType === 'binary') {
+        throw new ZohoError('File transfers are not supported by the pdauth transport', {
+          hint: 'Run `zoho-mail auth login --native` and `zoho-mail auth set-transport http`',
+        });
+      }
+
+      const args = ['proxy', 'zoho_mail', req.path, '--user', options.userId, '-X', req.method];
+
+      for (const [key, value] of Object.entries(req.query || {})) {
+        args.push('-q', `${key}=${value}`);
+      }
+      if (req.data !== undefined) {
+        args.push('-d', JSON.stringify(req.data));
+      }
+      for (const [key, value] of Object.entries(req.headers || {})) {
+        args.push('-H', `${key}: ${value}`);
+      }
+
+      let stdout: string;
+      try {
+        const result = await execFileAsync('pdauth', args, {
+          encoding: 'utf-8',
+          maxBuffer: 10 * 1024 * 1024, // 10MB
+        });
+        stdout = result.stdout;
+      } catch (err) {
+        // pdauth exits non-zero on API errors but still prints the response body
+        const output = (err as { stdout?: string }).stdout;
+        if (!output || !/\{[\s\S]*\}/.test(output)) {
+          throw err;
+        }
+        stdout = output;
+      }
+
+      // Find the JSON in the output (skip spinner lines)
+      const jsonMatch = stdout.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No JSON response from API');
+      }
+
+      return { headers: {}, body: JSON.parse(jsonMatch[0]) };
+    },
+  };
+}
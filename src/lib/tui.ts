@@ -0,0 +1,631 @@
+import chalk from 'chalk';
+import { stripVTControlCharacters } from 'util';
+import { emailPages, getEmailContent, getLabels, type MessageUpdate } from './client.js';
+import { deleteEach, updateInBatches } from './bulk.js';
+import { findFolder, refreshFolders } from './folders.js';
+import { formatEmailContent } from './output.js';
+import { prepareQuery, queryPages } from './query.js';
+import { draw, enterScreen, fit, processTerminal, wrap, type Key, type Terminal } from './screen.js';
+import { ZohoError } from './errors.js';
+import type { ZohoEmail, ZohoFolder, ZohoLabel } from '../types/zoho.js';
+
+/**
+ * `zoho-mail tui`: folders on the left, the open folder's messages on the
+ * right and, once a message is opened, its body below them. Messages are
+ * fetched a page at a time as the cursor nears the end of the list.
+ */
+
+/** Messages fetched per page */
+const PAGE_SIZE = 50;
+
+/** Fetch the next page when the cursor is this close to the end */
+const PREFETCH = 10;
+
+const HELP = [
+  ['j / k', 'Move down / up (also arrow keys)'],
+  ['g / G', 'First / last'],
+  ['Ctrl-d / Ctrl-u', 'Half a page down / up'],
+  ['Enter, l', 'Open the folder or message'],
+  ['h, Tab', 'Back to the folder pane'],
+  ['J / K', 'Next / previous message while reading'],
+  ['q, Esc', 'Close the message; quit from the lists'],
+  ['a', 'Archive'],
+  ['f', 'Flag or unflag'],
+  ['!', 'Mark as spam'],
+  ['v', 'Move to a folder (name, path or type)'],
+  ['L', 'Add a label'],
+  ['I / U', 'Mark read / unread'],
+  ['d', 'Delete (asks first)'],
+  ['/', 'Search: filters as you type, Enter searches Zoho'],
+  ['r', 'Refresh folders and messages'],
+  ['Ctrl-c', 'Quit'],
+];
+
+type Pane = 'folders' | 'messages' | 'reader';
+
+interface Prompt {
+  label: string;
+  value: string;
+  /** Called after each edit */
+  onChange?: (value: string) => void;
+  onSubmit: (value: string) => Promise<void> | void;
+  onCancel?: () => void;
+}
+
+interface Reader {
+  email: ZohoEmail;
+  lines: string[];
+  top: number;
+}
+
+function isUnread(email: ZohoEmail): boolean {
+  return email.status === '0';
+}
+
+function isFlagged(email: ZohoEmail): boolean {
+  return Boolean(email.flagid && email.flagid !== 'flag_not_set' && email.flagid !== '0');
+}
+
+function hasAttachment(email: ZohoEmail): boolean {
+  return email.hasAttachment === true || email.hasAttachment === '1' || email.hasAttachment === 'true';
+}
+
+/** Time for today's mail, otherwise the date */
+function shortDate(time: number | string): string {
+  const date = new Date(Number(time));
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString(undefined, date.getFullYear() === now.getFullYear()
+    ? { month: 'short', day: 'numeric' }
+    : { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function describe(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err);
+  return err instanceof ZohoError && err.hint ? `${message} (${err.hint})` : message;
+}
+
+/** Keep `cursor` on screen in a window of `height` rows starting at `top` */
+function scrollTo(cursor: number, top: number, height: number): number {
+  if (cursor < top) return cursor;
+  if (cursor >= top + height) return cursor - height + 1;
+  return top;
+}
+
+class Browser {
+  private folders: ZohoFolder[] = [];
+  private folderCursor = 0;
+  private folderTop = 0;
+  private folderId = '';
+
+  private emails: ZohoEmail[] = [];
+  private pages?: AsyncGenerator<ZohoEmail[]>;
+  private exhausted = false;
+  private loading = false;
+  private cursor = 0;
+  private top = 0;
+  /** Filters the loaded messages as a search is typed */
+  private filter = '';
+  /** Query of the Zoho search on show, if any */
+  private search?: string;
+
+  private focus: Pane = 'folders';
+  private reader?: Reader;
+  private prompt?: Prompt;
+  private confirm?: { label: string; onYes: () => Promise<void> };
+  private help = false;
+  private status = '';
+  private labels?: ZohoLabel[];
+
+  private queue: Promise<void> = Promise.resolve();
+  private quit?: () => void;
+
+  constructor(private readonly accountId: string, private readonly terminal: Terminal) {}
+
+  async run(folder?: string): Promise<void> {
+    this.folders = await refreshFolders(this.accountId);
+    const start = findFolder(this.folders, folder || 'inbox');
+    this.folderCursor = Math.max(0, this.folders.indexOf(start));
+
+    const finished = new Promise<void>(resolve => { this.quit = resolve; });
+    const leave = enterScreen(this.terminal, key => this.onKey(key), () => this.render());
+    process.once('exit', leave);
+    try {
+      await this.openFolder(start);
+      await finished;
+    } finally {
+      leave();
+      process.off('exit', leave);
+    }
+  }
+
+  // Keys are handled one at a time, so an action finishes before the next starts
+  private onKey(key: Key): void {
+    if (key.ctrl && key.name === 'c') {
+      this.quit?.();
+      return;
+    }
+    this.queue = this.queue
+      .then(() => this.handleKey(key))
+      .catch(err => { this.status = chalk.red(describe(err)); })
+      .finally(() => this.render());
+  }
+
+  private visible(): ZohoEmail[] {
+    if (!this.filter) return this.emails;
+    const wanted = this.filter.toLowerCase();
+    return this.emails.filter(e =>
+      [e.subject, e.fromAddress, e.sender, e.summary].some(field => (field || '').toLowerCase().includes(wanted)));
+  }
+
+  /** The message an action applies to: the one being read, else the one under the cursor */
+  private current(): ZohoEmail | undefined {
+    if (this.focus === 'reader' && this.reader) return this.reader.email;
+    return this.focus === 'folders' ? undefined : this.visible()[this.cursor];
+  }
+
+  private currentFolder(): ZohoFolder | undefined {
+    return this.folders.find(f => f.folderId === this.folderId);
+  }
+
+  // Loading
+
+  private async openFolder(folder: ZohoFolder): Promise<void> {
+    this.folderId = folder.folderId;
+    this.search = undefined;
+    this.startListing(emailPages(this.accountId, folder.folderId, { pageSize: PAGE_SIZE }));
+    this.focus = 'messages';
+    await this.fillList();
+  }
+
+  private startListing(pages: AsyncGenerator<ZohoEmail[]>): void {
+    void this.pages?.return(undefined);
+    this.pages = pages;
+    this.emails = [];
+    this.exhausted = false;
+    this.cursor = 0;
+    this.top = 0;
+    this.filter = '';
+    this.reader = undefined;
+  }
+
+  private async loadMore(): Promise<void> {
+    if (!this.pages || this.exhausted || this.loading) return;
+    this.loading = true;
+    this.render();
+    try {
+      const next = await this.pages.next();
+      if (next.done) {
+        this.exhausted = true;
+      } else {
+        const known = new Set(this.emails.map(e => e.messageId));
+        this.emails.push(...next.value.filter(e => !known.has(e.messageId)));
+      }
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  /** Fetch further pages while the cursor is near the end of what is loaded */
+  private async fillList(): Promise<void> {
+    while (!this.filter && !this.exhausted && this.cursor >= this.emails.length - PREFETCH) {
+      const before = this.emails.length;
+      await this.loadMore();
+      if (this.emails.length === before && !this.exhausted) break;
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const selected = this.visible()[this.cursor]?.messageId;
+    this.folders = await refreshFolders(this.accountId);
+    const folder = this.currentFolder();
+    if (this.search) {
+      await this.runSearch(this.search);
+    } else if (folder) {
+      await this.openFolder(folder);
+    }
+    const index = this.emails.findIndex(e => e.messageId === selected);
+    if (index > 0) this.cursor = index;
+    this.status = 'Refreshed';
+  }
+
+  private async runSearch(query: string): Promise<void> {
+    const prepared = await prepareQuery(this.accountId, query);
+    // Zoho searches every folder; queries it can't run itself list the open one
+    const folderId = prepared.folderId ?? (prepared.compiled.searchKey ? undefined : this.folderId);
+    this.startListing(queryPages(this.accountId, prepared.compiled, { folderId, pageSize: PAGE_SIZE }));
+    this.search = query;
+    this.focus = 'messages';
+    await this.fillList();
+  }
+
+  private async openMessage(email: ZohoEmail): Promise<void> {
+    this.status = '';
+    const content = await getEmailContent(this.accountId, email.folderId || this.folderId, email.messageId);
+    const text = formatEmailContent({ ...email, ...content, subject: email.subject });
+    this.reader = { email, lines: text.replace(/\t/g, '    ').split('\n'), top: 0 };
+    this.focus = 'reader';
+    if (isUnread(email)) {
+      await this.update(email, { mode: 'markAsRead' });
+      this.setUnread(email, false);
+    }
+  }
+
+  // Actions
+
+  private async update(email: ZohoEmail, action: MessageUpdate): Promise<void> {
+    const [outcome] = await updateInBatches(
+      this.accountId,
+      [{ messageId: email.messageId, folderId: email.folderId || this.folderId }],
+      action
+    );
+    if (!outcome.ok) throw new ZohoError(outcome.error || 'Update failed');
+  }
+
+  private setUnread(email: ZohoEmail, unread: boolean): void {
+    if (isUnread(email) === unread) return;
+    email.status = unread ? '0' : '1';
+    const folder = this.folders.find(f => f.folderId === (email.folderId || this.folderId));
+    if (folder) folder.unreadCount = Math.max(0, (folder.unreadCount ?? 0) + (unread ? 1 : -1));
+  }
+
+  /** Drop a message that left the folder from the list (and the reader) */
+  private remove(email: ZohoEmail): void {
+    if (isUnread(email)) {
+      this.setUnread(email, false);
+    }
+    this.emails = this.emails.filter(e => e.messageId !== email.messageId);
+    if (this.reader?.email.messageId === email.messageId) {
+      this.reader = undefined;
+      this.focus = 'messages';
+    }
+    this.cursor = Math.min(this.cursor, Math.max(0, this.visible().length - 1));
+  }
+
+  private async act(key: string, email: ZohoEmail): Promise<boolean> {
+    const subject = email.subject || '(no subject)';
+    switch (key) {
+      case 'a':
+        await this.update(email, { mode: 'archive' });
+        this.remove(email);
+        this.status = `Archived "${subject}"`;
+        return true;
+      case '!':
+        await this.update(email, { mode: 'spam' });
+        this.remove(email);
+        this.status = `Marked "${subject}" as spam`;
+        return true;
+      case 'f': {
+        const flagged = isFlagged(email);
+        await this.update(email, { mode: flagged ? 'removeFlag' : 'addFlag' });
+        email.flagid = flagged ? 'flag_not_set' : 'important';
+        this.status = flagged ? 'Unflagged' : 'Flagged';
+        return true;
+      }
+      case 'I':
+        await this.update(email, { mode: 'markAsRead' });
+        this.setUnread(email, false);
+        this.status = 'Marked as read';
+        return true;
+      case 'U':
+        await this.update(email, { mode: 'markAsUnread' });
+        this.setUnread(email, true);
+        this.status = 'Marked as unread';
+        return true;
+      case 'd':
+        this.confirm = {
+          label: `Delete "${subject}"? (y/n)`,
+          onYes: async () => {
+            const [outcome] = await deleteEach(this.accountId, [{ messageId: email.messageId, folderId: email.folderId }], this.folderId);
+            if (!outcome.ok) throw new ZohoError(outcome.error || 'Delete failed');
+            this.remove(email);
+            this.status = `Deleted "${subject}"`;
+          },
+        };
+        return true;
+      case 'v':
+        this.prompt = {
+          label: 'Move to folder: ',
+          value: '',
+          onSubmit: async (selector) => {
+            const target = findFolder(this.folders, selector);
+            const unread = isUnread(email);
+            await this.update(email, { mode: 'moveToFolder', folderId: target.folderId });
+            this.remove(email);
+            if (unread) target.unreadCount = (target.unreadCount ?? 0) + 1;
+            this.status = `Moved "${subject}" to ${target.path || target.folderName}`;
+          },
+        };
+        return true;
+      case 'L':
+        this.prompt = {
+          label: 'Add label: ',
+          value: '',
+          onSubmit: async (selector) => {
+            this.labels ??= await getLabels(this.accountId);
+            const label = this.labels.find(l => l.labelId === selector) ??
+              this.labels.find(l => l.labelName.toLowerCase() === selector.toLowerCase());
+            if (!label) {
+              throw new ZohoError(`Unknown label "${selector}"`, { hint: 'Run `zoho-mail labels list` to see labels' });
+            }
+            await this.update(email, { mode: 'addTag', tagId: label.labelId });
+            email.labels = [...new Set([...(email.labels || []), label.labelId])];
+            this.status = `Labelled "${subject}" ${label.labelName}`;
+          },
+        };
+        return true;
+    }
+    return false;
+  }
+
+  private startSearch(): void {
+    const previous = this.filter;
+    this.prompt = {
+      label: '/',
+      value: '',
+      onChange: (value) => {
+        this.filter = value;
+        this.cursor = 0;
+        this.top = 0;
+        this.focus = 'messages';
+      },
+      onSubmit: async (query) => {
+        this.filter = '';
+        if (query.trim()) {
+          await this.runSearch(query);
+          this.status = `${this.emails.length}${this.exhausted ? '' : '+'} result(s)`;
+        } else if (this.search) {
+          const folder = this.currentFolder();
+          if (folder) await this.openFolder(folder);
+        }
+      },
+      onCancel: () => { this.filter = previous; },
+    };
+  }
+
+  // Keys
+
+  private async handleKey(key: Key): Promise<void> {
+    const char = key.sequence ?? '';
+
+    if (this.confirm) {
+      const { onYes } = this.confirm;
+      this.confirm = undefined;
+      if (char.toLowerCase() === 'y') await onYes();
+      else this.status = 'Cancelled';
+      return;
+    }
+    if (this.prompt) {
+      await this.editPrompt(key, char);
+      return;
+    }
+    if (this.help) {
+      this.help = false;
+      return;
+    }
+
+    this.status = '';
+    if (char === '?') {
+      this.help = true;
+      return;
+    }
+    if (char === 'r') return this.refresh();
+    if (char === '/') return this.startSearch();
+
+    const email = this.current();
+    if (email && await this.act(char, email)) {
+      await this.fillList();
+      return;
+    }
+
+    if (this.focus === 'folders') return this.folderKey(key, char);
+    if (this.focus === 'reader') return this.readerKey(key, char);
+    return this.messageKey(key, char);
+  }
+
+  private async editPrompt(key: Key, char: string): Promise<void> {
+    const prompt = this.prompt!;
+    if (key.name === 'escape') {
+      this.prompt = undefined;
+      prompt.onCancel?.();
+      return;
+    }
+    if (key.name === 'return' || key.name === 'enter') {
+      this.prompt = undefined;
+      await prompt.onSubmit(prompt.value.trim());
+      return;
+    }
+    if (key.name === 'backspace') {
+      prompt.value = prompt.value.slice(0, -1);
+    } else if (!key.ctrl && char && !char.startsWith('\x1b') && char >= ' ') {
+      prompt.value += char;
+    } else {
+      return;
+    }
+    prompt.onChange?.(prompt.value);
+  }
+
+  /** Movement shared by the lists: returns the new position */
+  private move(key: Key, char: string, position: number, length: number, height: number): number | undefined {
+    const last = Math.max(0, length - 1);
+    if (char === 'j' || key.name === 'down') return Math.min(last, position + 1);
+    if (char === 'k' || key.name === 'up') return Math.max(0, position - 1);
+    if (char === 'g' || key.name === 'home') return 0;
+    if (char === 'G' || key.name === 'end') return last;
+    if ((key.ctrl && key.name === 'd') || key.name === 'pagedown') return Math.min(last, position + Math.ceil(height / 2));
+    if ((key.ctrl && key.name === 'u') || key.name === 'pageup') return Math.max(0, position - Math.ceil(height / 2));
+    return undefined;
+  }
+
+  private async folderKey(key: Key, char: string): Promise<void> {
+    const moved = this.move(key, char, this.folderCursor, this.folders.length, this.layout().body);
+    if (moved !== undefined) {
+      this.folderCursor = moved;
+    } else if (char === 'l' || key.name === 'return' || key.name === 'right' || key.name === 'tab') {
+      const folder = this.folders[this.folderCursor];
+      if (folder.folderId === this.folderId && !this.search) {
+        this.focus = 'messages';
+      } else {
+        await this.openFolder(folder);
+      }
+    } else if (char === 'q' || key.name === 'escape') {
+      this.quit?.();
+    }
+  }
+
+  private async messageKey(key: Key, char: string): Promise<void> {
+    const list = this.visible();
+    const moved = this.move(key, char, this.cursor, list.length, this.layout().list);
+    if (moved !== undefined) {
+      this.cursor = moved;
+      await this.fillList();
+    } else if ((char === 'l' || key.name === 'return' || key.name === 'right') && list[this.cursor]) {
+      await this.openMessage(list[this.cursor]);
+    } else if (char === 'h' || key.name === 'left' || key.name === 'tab') {
+      this.focus = 'folders';
+    } else if (key.name === 'escape' && (this.filter || this.search)) {
+      this.filter = '';
+      const folder = this.currentFolder();
+      if (this.search && folder) await this.openFolder(folder);
+    } else if (key.name === 'escape' && this.reader) {
+      this.reader = undefined;
+    } else if (char === 'q') {
+      this.quit?.();
+    }
+  }
+
+  private async readerKey(key: Key, char: string): Promise<void> {
+    const reader = this.reader!;
+    const { reader: height, width } = this.layout();
+    const lines = this.readerLines(width).length;
+    const moved = this.move(key, char, reader.top, Math.max(1, lines - height + 1), height);
+    if (moved !== undefined) {
+      reader.top = moved;
+    } else if (key.name === 'space') {
+      reader.top = Math.min(Math.max(0, lines - height), reader.top + height - 1);
+    } else if (char === 'b') {
+      reader.top = Math.max(0, reader.top - height + 1);
+    } else if (char === 'J' || char === 'K') {
+      const list = this.visible();
+      const index = list.findIndex(e => e.messageId === reader.email.messageId);
+      const next = index + (char === 'J' ? 1 : -1);
+      if (index >= 0 && list[next]) {
+        this.cursor = next;
+        await this.openMessage(list[next]);
+        await this.fillList();
+      }
+    } else if (char === 'q' || char === 'h' || key.name === 'escape' || key.name === 'left') {
+      this.reader = undefined;
+      this.focus = 'messages';
+    }
+  }
+
+  // Drawing
+
+  private layout() {
+    const { columns = 80, rows = 24 } = this.terminal.output;
+    const body = Math.max(1, rows - 2);
+    const folders = Math.min(28, Math.max(16, Math.floor(columns / 4)));
+    const width = Math.max(10, columns - folders - 1);
+    const list = this.reader ? Math.max(3, Math.floor(body / 3)) : body;
+    return { columns, body, folders, width, list, reader: Math.max(1, body - list - 1) };
+  }
+
+  private readerLines(width: number): string[] {
+    return this.reader ? this.reader.lines.flatMap(line => wrap(line, width)) : [];
+  }
+
+  private folderLine(folder: ZohoFolder, index: number, width: number): string {
+    const depth = Math.max(0, (folder.path || '').split('/').filter(Boolean).length - 1);
+    const unread = folder.unreadCount ? String(folder.unreadCount) : '';
+    const name = fit(`${'  '.repeat(depth)}${folder.folderName}`, Math.max(1, width - unread.length - 2));
+    const line = ` ${name}${unread} `;
+    if (index === this.folderCursor && this.focus === 'folders') return chalk.inverse(stripVTControlCharacters(line));
+    if (folder.folderId === this.folderId) return chalk.bold.cyan(line);
+    return unread ? chalk.bold(line) : line;
+  }
+
+  private messageLine(email: ZohoEmail, index: number, width: number): string {
+    const marks = `${isUnread(email) ? '●' : ' '}${isFlagged(email) ? '★' : ' '}${hasAttachment(email) ? '📎' : '  '}`;
+    const date = shortDate(email.receivedTime).padStart(12);
+    const from = fit(email.sender || email.fromAddress || '', 20);
+    const subject = fit(email.subject || '(no subject)', Math.max(1, width - 4 - 1 - 20 - 2 - 12 - 1));
+    const line = `${marks} ${from}  ${subject}${date}`;
+    if (index === this.cursor && this.focus !== 'folders') {
+      return this.focus === 'messages' ? chalk.inverse(line) : chalk.bgGray(line);
+    }
+    return isUnread(email) ? chalk.bold(line) : line;
+  }
+
+  private render(): void {
+    const { body, folders: folderWidth, width, list: listHeight, reader: readerHeight } = this.layout();
+    const visible = this.visible();
+
+    this.folderTop = scrollTo(this.folderCursor, this.folderTop, body);
+    this.cursor = Math.min(this.cursor, Math.max(0, visible.length - 1));
+    this.top = scrollTo(this.cursor, this.top, listHeight);
+
+    const right: string[] = [];
+    if (this.help) {
+      right.push(chalk.bold(' Keys'), '');
+      for (const [keys, action] of HELP) right.push(` ${chalk.cyan(keys.padEnd(18))}${action}`);
+      right.push('', chalk.gray(' Any key closes this'));
+    } else {
+      for (let i = this.top; i < this.top + listHeight && i < visible.length; i++) {
+        right.push(this.messageLine(visible[i], i, width));
+      }
+      if (visible.length === 0) {
+        right.push(chalk.gray(this.loading ? ' Loading…' : this.filter ? ' No loaded message matches' : ' No messages'));
+      }
+      if (this.reader) {
+        while (right.length < listHeight) right.push('');
+        right.push(chalk.gray('─'.repeat(width)));
+        const lines = this.readerLines(width);
+        this.reader.top = Math.max(0, Math.min(this.reader.top, lines.length - readerHeight));
+        right.push(...lines.slice(this.reader.top, this.reader.top + readerHeight));
+      }
+    }
+
+    const folder = this.currentFolder();
+    const where = this.search ? `search: ${this.search}` : folder ? folder.path || folder.folderName : '';
+    const count = `${visible.length}${this.exhausted ? '' : '+'} message(s)`;
+    const title = ` zoho-mail  ${where}  ${count}${this.loading ? '  loading…' : ''}`;
+
+    const lines = [chalk.inverse(fit(title, this.layout().columns))];
+    for (let row = 0; row < body; row++) {
+      const f = this.folders[this.folderTop + row];
+      lines.push(
+        (f ? fit(this.folderLine(f, this.folderTop + row, folderWidth), folderWidth) : ' '.repeat(folderWidth)) +
+        chalk.gray('│') + fit(right[row] ?? '', width)
+      );
+    }
+
+    let footer: string;
+    if (this.confirm) footer = chalk.yellow(this.confirm.label);
+    else if (this.prompt) footer = `${this.prompt.label}${this.prompt.value}█`;
+    else if (this.status) footer = this.status;
+    else footer = chalk.gray('j/k move  Enter open  a archive  f flag  ! spam  v move  L label  I/U read/unread  d delete  / search  r refresh  ? help  q quit');
+    lines.push(footer);
+
+    draw(this.terminal, lines);
+  }
+}
+
+/**
+ * Run the browser until the user quits. Needs an interactive terminal:
+ * the process's own unless `terminal` gives other streams.
+ */
+export async function runTui(
+  accountId: string,
+  options: { folder?: string; terminal?: Terminal } = {}
+): Promise<void> {
+  const terminal = options.terminal ?? processTerminal();
+  if (!terminal.input.isTTY || !terminal.output.isTTY) {
+    throw new ZohoError('The inbox browser needs an interactive terminal', {
+      hint: 'Use `zoho-mail mail list` and `mail read` in scripts and pipes',
+    });
+  }
+  await new Browser(accountId, terminal).run(options.folder);
+}
@@ -0,0 +1,159 @@
+import { spawn } from 'child_process';
+import { getEmails } from './client.js';
+import { ZohoError } from './errors.js';
+import type { ZohoEmail } from '../types/zoho.js';
+
+/** Messages fetched per poll page */
+const PAGE_SIZE = 50;
+
+/**
+ * How far behind the newest message a late arrival may sort. Delivery
+ * delays can give a new message an older receivedTime than one already
+ * seen, so the seen set covers this window rather than a single mark.
+ */
+const GRACE_MS = 10 * 60 * 1000;
+
+/** Longest wait between polls while the API keeps failing */
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Remembers which messages were already emitted. IDs older than the
+ * grace window are forgotten, so memory stays flat on a long watch.
+ */
+export class SeenTracker {
+  private readonly seen = new Map<string, number>();
+  private newest = 0;
+
+  constructor(private readonly floor: number = 0) {}
+
+  /** The oldest receivedTime that can still count as new */
+  get horizon(): number {
+    return Math.max(this.floor, this.newest - GRACE_MS);
+  }
+
+  isNew(email: ZohoEmail): boolean {
+    return !this.seen.has(email.messageId) && Number(email.receivedTime) >= this.horizon;
+  }
+
+  add(email: ZohoEmail): void {
+    const received = Number(email.receivedTime);
+    this.seen.set(email.messageId, received);
+    this.newest = Math.max(this.newest, received);
+    for (const [id, time] of this.seen) {
+      if (time < this.horizon) this.seen.delete(id);
+    }
+  }
+}
+
+/**
+ * Newest-first pages of a folder, down to the tracker's horizon
+ */
+async function pollFolder(accountId: string, folderId: string, horizon: number): Promise<ZohoEmail[]> {
+  const emails: ZohoEmail[] = [];
+  for (let start = 1; ; start += PAGE_SIZE) {
+    const page = await getEmails(accountId, folderId, { limit: PAGE_SIZE, start });
+    emails.push(...page);
+    const oldest = page[page.length - 1];
+    if (page.length < PAGE_SIZE || Number(oldest.receivedTime) < horizon) break;
+  }
+  return emails;
+}
+
+/** Resolves after `ms`, or as soon as the signal aborts */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Poll a folder until the signal aborts, calling `onMessage` for each
+ * new message (oldest first). Messages already in the folder at start are
+ * not reported unless they arrived after `since`. Retryable API failures
+ * back off exponentially and the watch carries on; anything else ends it.
+ */
+export async function watchFolder(
+  accountId: string,
+  folderId: string,
+  options: {
+    intervalMs: number;
+    /** Also report messages received at or after this time (epoch ms) */
+    since?: number;
+    signal: AbortSignal;
+    onMessage: (email: ZohoEmail) => Promise<void> | void;
+    onRetry?: (error: ZohoError, delayMs: number) => void;
+  }
+): Promise<void> {
+  // Without --since, the first poll only records what is already there
+  const tracker = new SeenTracker(options.since ?? Date.now() - GRACE_MS);
+  let baseline = options.since === undefined;
+  let failures = 0;
+
+  while (!options.signal.aborted) {
+    try {
+      const emails = await pollFolder(accountId, folderId, tracker.horizon);
+      failures = 0;
+      const fresh = emails
+        .filter(e => tracker.isNew(e))
+        .sort((a, b) => Number(a.receivedTime) - Number(b.receivedTime));
+      for (const email of fresh) {
+        tracker.add(email);
+        if (!baseline && !options.signal.aborted) {
+          await options.onMessage(email);
+        }
+      }
+      baseline = false;
+    } catch (err) {
+      if (!(err instanceof ZohoError) || !err.retryable) throw err;
+      failures++;
+      const delay = Math.min(MAX_BACKOFF_MS, options.intervalMs * 2 ** failures);
+      options.onRetry?.(err, delay);
+      await wait(delay, options.signal);
+      continue;
+    }
+    await wait(options.intervalMs, options.signal);
+  }
+}
+
+/**
+ * Message metadata for a hook command, as ZOHO_* environment variables
+ */
+export function hookEnv(email: ZohoEmail): Record<string, string> {
+  return {
+    ZOHO_MESSAGE_ID: email.messageId,
+    ZOHO_FOLDER_ID: email.folderId || '',
+    ZOHO_THREAD_ID: email.threadId || '',
+    ZOHO_FROM: email.fromAddress || '',
+    ZOHO_SENDER: email.sender || '',
+    ZOHO_TO: email.toAddress || '',
+    ZOHO_CC: email.ccAddress || '',
+    ZOHO_SUBJECT: email.subject || '',
+    ZOHO_SUMMARY: email.summary || '',
+    ZOHO_RECEIVED: new Date(Number(email.receivedTime)).toISOString(),
+    ZOHO_UNREAD: email.status === '0' ? '1' : '0',
+    ZOHO_HAS_ATTACHMENT: email.hasAttachment === true || email.hasAttachment === '1' ? '1' : '0',
+  };
+}
+
+/**
+ * Run a hook through the shell with the message in its environment and
+ * wait for it. Its stdout goes to stderr when ours carries NDJSON.
+ */
+export function runHook(command: string, email: ZohoEmail, options: { stdoutToStderr: boolean }): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['ignore', options.stdoutToStderr ? process.stderr : 'inherit', 'inherit'],
+      env: { ...process.env, ...hookEnv(email) },
+    });
+    child.on('error', reject);
+    child.on('close', (code, signal) => resolve(code ?? (signal ? 128 : 1)));
+  });
+}
@@ -0,0 +1,22 @@
+import { parse, YAMLParseError } from 'yaml';
+import { ValidationError } from './errors.js';
+
+/**
+ * Read a YAML document (such as a rules file). Zoho IDs overflow a
+ * double, so integers that don't fit one stay as text.
+ */
+export function parseYaml(source: string): unknown {
+  try {
+    return parse(source, (_, value) => {
+      if (typeof value !== 'bigint') return value;
+      return Number.isSafeInteger(Number(value)) ? Number(value) : String(value);
+    }, { intAsBigInt: true });
+  } catch (err) {
+    if (err instanceof YAMLParseError) {
+      // The message ends with "at line N, column M:" and a snippet; keep the reason
+      const reason = err.message.replace(/ at line \d+, column \d+:[\s\S]*$/, '');
+      throw new ValidationError(err.linePos ? `Line ${err.linePos[0].line}: ${reason}` : reason);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,267 @@
+import type { ZohoAccount, ZohoFolder, ZohoLabel, ZohoEmail, ZohoSignature } from '../types/zoho.js';
+
+export interface MockAttachment {
+  attachmentId: string;
+  attachmentName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MockMessage extends ZohoEmail {
+  content: string;
+  attachments?: MockAttachment[];
+  /** Extra raw header lines (Received, Authentication-Results, List-*) */
+  headers?: string[];
+  /** Original RFC 822 text of a message added through the import API */
+  source?: string;
+}
+
+/** A file posted to the attachment upload API, waiting to be sent */
+export interface MockUpload {
+  storeName: string;
+  attachmentName: string;
+  attachmentPath: string;
+  content: Buffer;
+}
+
+export interface MockMailbox {
+  account: ZohoAccount;
+  folders: ZohoFolder[];
+  labels: ZohoLabel[];
+  messages: MockMessage[];
+  signatures: ZohoSignature[];
+  uploads: MockUpload[];
+}
+
+// Fixed reference time so listings sort the same on every run
+const BASE_TIME = Date.UTC(2026, 0, 15, 9, 0, 0);
+const HOUR = 60 * 60 * 1000;
+
+function folder(
+  folderId: string,
+  folderName: string,
+  folderType: string,
+  path: string = `/${folderName}`
+): ZohoFolder {
+  return {
+    folderId,
+    folderName,
+    folderType,
+    path,
+    isArchived: 0,
+    imapAccess: true,
+    URI: `https://mail.zoho.com/api/accounts/folders/${folderId}`,
+  };
+}
+
+function message(
+  fields: Partial<MockMessage> & Pick<MockMessage, 'messageId' | 'folderId' | 'subject' | 'fromAddress'>,
+  hoursAgo: number
+): MockMessage {
+  const time = String(BASE_TIME - hoursAgo * HOUR);
+  return {
+    sender: fields.fromAddress.split('@')[0],
+    toAddress: 'alex@example.com',
+    receivedTime: time,
+    sentDateInGMT: time,
+    status: '1',
+    status2: '1',
+    hasAttachment: '0',
+    flagid: 'flag_not_set',
+    summary: (fields.content || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100),
+    labels: [],
+    content: '',
+    ...fields,
+  };
+}
+
+function personalMailbox(): MockMailbox {
+  const INBOX = '1000000000001';
+  const SENT = '1000000000002';
+  const CLIENTS = '1000000000010';
+  const ACME = '1000000000011';
+
+  return {
+    account: {
+      accountId: '2000000000001',
+      emailAddress: 'alex@example.com',
+      displayName: 'Alex Doe',
+      incoming: true,
+      outgoing: true,
+      role: 'member',
+      type: 'ZOHO_ACCOUNT',
+    },
+    folders: [
+      folder(INBOX, 'Inbox', 'Inbox'),
+      folder('1000000000003', 'Drafts', 'Drafts'),
+      folder('1000000000004', 'Templates', 'Templates'),
+      folder(SENT, 'Sent', 'Sent'),
+      folder('1000000000005', 'Spam', 'Spam'),
+      folder('1000000000006', 'Trash', 'Trash'),
+      folder('1000000000007', 'Outbox', 'Outbox'),
+      folder(CLIENTS, 'Clients', 'Inbox', '/Clients'),
+      folder(ACME, 'Acme', 'Inbox', '/Clients/Acme'),
+    ],
+    labels: [
+      { labelId: '3000000000001', labelName: 'Urgent', color: '#ff0000' },
+      { labelId: '3000000000002', labelName: 'Receipts', color: '#00aa00' },
+    ],
+    signatures: [
+      {
+        signatureId: '4000000000001',
+        signatureName: 'Work',
+        content: '<b>Alex Doe</b><br>Example &amp; Co.',
+        mode: 'html',
+        isDefault: true,
+      },
+      {
+        signatureId: '4000000000002',
+        signatureName: 'Short',
+        content: 'Alex\nSent from the CLI',
+        mode: 'plaintext',
+        isDefault: false,
+      },
+    ],
+    uploads: [],
+    messages: [
+      message({
+        messageId: '1736900000000100001',
+        folderId: INBOX,
+        subject: 'Invoice #4521 for January',
+        fromAddress: 'billing@vendor.example',
+        status: '0',
+        status2: '0',
+        hasAttachment: '1',
+        threadId: '1736900000000100001',
+        content: '<p>Hi Alex,</p><p>Please find attached invoice #4521.</p><p>Thanks,<br>Vendor Billing</p>',
+        headers: [
+          'Received: from mx.zoho.com by mail.zoho.com with SMTP id 1736900000000100001;' +
+            ' Thu, 15 Jan 2026 08:00:02 +0000',
+          'Received: from mail.vendor.example (mail.vendor.example [203.0.113.5])' +
+            ' by mx.zoho.com with ESMTPS id 17369000000001 for <alex@example.com>;',
+          '\tThu, 15 Jan 2026 08:00:01 +0000',
+          'Authentication-Results: mx.zoho.com;',
+          '\tspf=pass (zohomail.com: domain of vendor.example designates 203.0.113.5 as permitted sender)' +
+            ' smtp.mailfrom=billing@vendor.example;',
+          '\tdkim=pass header.i=@vendor.example header.s=mail;',
+          '\tdmarc=fail (p=reject dis=none) header.from=vendor.example',
+        ],
+        attachments: [{
+          attachmentId: '5000000000001',
+          attachmentName: 'invoice-4521.pdf',
+          contentType: 'application/pdf',
+          content: Buffer.from('%PDF-1.4\n% invoice 4521\n%%EOF\n'),
+        }],
+      }, 1),
+      message({
+        messageId: '1736900000000100002',
+        folderId: INBOX,
+        subject: 'Weekly team sync',
+        fromAddress: 'sam@example.com',
+        ccAddress: 'jo@example.com',
+        flagid: 'important',
+        threadId: '1736900000000100002',
+        threadCount: 2,
+        content: 'Agenda for Thursday:\n- Roadmap\n- Hiring\n\nSam',
+      }, 3),
+      message({
+        messageId: '1736900000000100003',
+        folderId: INBOX,
+        subject: 'Re: Weekly team sync',
+        fromAddress: 'jo@example.com',
+        status: '0',
+        status2: '0',
+        threadId: '1736900000000100002',
+        content: 'Sounds good, I will bring the hiring numbers.\n\nOn Wed, Sam wrote:\n> Agenda for Thursday',
+      }, 2),
+      message({
+        messageId: '1736900000000100004',
+        folderId: INBOX,
+        subject: 'Your receipt from Coffee Co',
+        fromAddress: 'receipts@coffee.example',
+        labels: ['3000000000002'],
+        threadId: '1736900000000100004',
+        headers: [
+          'List-Id: Coffee Co receipts <receipts.coffee.example>',
+          'List-Unsubscribe: <mailto:unsubscribe@coffee.example>, <https://coffee.example/unsubscribe>',
+        ],
+        content: '<style>td { padding: 4px }</style><h1>Thanks for your order</h1>' +
+          '<table><tr><td>Latte</td><td>$4.50</td></tr></table>' +
+          '<p>Track it <a href="https://coffee.example/orders/81">here</a>.</p>' +
+          '<img src="https://t.coffee.example/open.gif" width="1" height="1">',
+      }, 30),
+      message({
+        messageId: '1736900000000100005',
+        folderId: INBOX,
+        subject: 'Security alert: new sign-in',
+        fromAddress: 'no-reply@accounts.example',
+        threadId: '1736900000000100005',
+        content: 'A new sign-in to your account was detected.',
+      }, 72),
+      message({
+        messageId: '1736900000000100006',
+        folderId: ACME,
+        subject: 'Acme contract renewal',
+        fromAddress: 'legal@acme.example',
+        status: '0',
+        status2: '0',
+        threadId: '1736900000000100006',
+        content: 'Hi Alex, the renewal draft is ready for review.',
+      }, 48),
+      message({
+        messageId: '1736900000000100007',
+        folderId: SENT,
+        subject: 'Quarterly report',
+        fromAddress: 'alex@example.com',
+        toAddress: 'board@example.com',
+        threadId: '1736900000000100007',
+        content: 'Attached is the quarterly report.',
+      }, 120),
+    ],
+  };
+}
+
+function supportMailbox(): MockMailbox {
+  const INBOX = '1100000000001';
+
+  return {
+    account: {
+      accountId: '2000000000002',
+      emailAddress: 'support@example.com',
+      displayName: 'Example Support',
+      incoming: true,
+      outgoing: true,
+      role: 'member',
+      type: 'ZOHO_ACCOUNT',
+    },
+    folders: [
+      folder(INBOX, 'Inbox', 'Inbox'),
+      folder('1100000000002', 'Sent', 'Sent'),
+      folder('1100000000003', 'Spam', 'Spam'),
+      folder('1100000000004', 'Trash', 'Trash'),
+    ],
+    labels: [],
+    signatures: [],
+    uploads: [],
+    messages: [
+      message({
+        messageId: '1736900000000200001',
+        folderId: INBOX,
+        subject: 'Cannot log in',
+        fromAddress: 'customer@client.example',
+        toAddress: 'support@example.com',
+        status: '0',
+        status2: '0',
+        threadId: '1736900000000200001',
+        content: 'Hello, I cannot log in since yesterday.',
+      }, 5),
+    ],
+  };
+}
+
+/**
+ * Fresh copies of the fixture mailboxes (safe to mutate)
+ */
+export function createFixtureMailboxes(): MockMailbox[] {
+  return [personalMailbox(), supportMailbox()];
+}
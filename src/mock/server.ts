@@ -0,0 +1,646 @@
+#!/usr/bin/env node
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import {
+  createFixtureMailboxes,
+  type MockAttachment,
+  type MockMailbox,
+  type MockMessage,
+} from './fixtures.js';
+
+/**
+ * A canned failure returned instead of the next matching request
+ */
+export interface MockFault {
+  status: number;
+  errorCode?: string;
+  retryAfter?: string;
+  /** Only fail requests whose path contains this string */
+  path?: string;
+}
+
+/**
+ * The OAuth client and grants the /oauth/v2 endpoints accept
+ */
+export interface MockOAuth {
+  clientId: string;
+  clientSecret: string;
+  /** Authorization code a login redirect carries */
+  code: string;
+  refreshToken: string;
+  /** Refresh tokens revoked so far */
+  revoked: string[];
+}
+
+export interface MockServer {
+  url: string;
+  mailboxes: MockMailbox[];
+  faults: MockFault[];
+  oauth: MockOAuth;
+  /** Every request received, for assertions */
+  requests: { method: string; path: string; body: unknown }[];
+  close(): Promise<void>;
+}
+
+/** A decoded JSON request body */
+type RequestBody = Record<string, unknown>;
+
+/** A body field as text, or undefined when it was not sent */
+function text(body: RequestBody, name: string): string | undefined {
+  const value = body[name];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/** A body field that holds a list of IDs */
+function ids(body: RequestBody, name: string): string[] {
+  const value = body[name];
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+interface RouteContext {
+  mailbox: MockMailbox;
+  params: string[];
+  query: URLSearchParams;
+  body: RequestBody;
+  /** Undecoded request body (file uploads) */
+  raw: Buffer;
+}
+
+/**
+ * A route result sent as-is instead of wrapped in the JSON envelope
+ */
+class MockBinary {
+  constructor(readonly content: Buffer, readonly contentType: string) {}
+}
+
+type RouteHandler = (ctx: RouteContext) => unknown;
+
+class MockHttpError extends Error {
+  constructor(readonly status: number, readonly errorCode: string, message: string) {
+    super(message);
+  }
+}
+
+let nextId = Date.UTC(2026, 1, 1);
+
+function newId(): string {
+  return String(nextId++);
+}
+
+function findFolder(mailbox: MockMailbox, folderId: string) {
+  const folder = mailbox.folders.find(f => f.folderId === folderId);
+  if (!folder) {
+    throw new MockHttpError(404, 'FOLDER_NOT_FOUND', `Folder ${folderId} not found`);
+  }
+  return folder;
+}
+
+function findMessage(mailbox: MockMailbox, messageId: string, folderId?: string): MockMessage {
+  const message = mailbox.messages.find(m => m.messageId === messageId);
+  if (!message || (folderId && message.folderId !== folderId)) {
+    throw new MockHttpError(404, 'MAIL_NOT_FOUND', `Message ${messageId} not found`);
+  }
+  return message;
+}
+
+function folderWithCounts(mailbox: MockMailbox, folderId: string) {
+  const folder = findFolder(mailbox, folderId);
+  const messages = mailbox.messages.filter(m => m.folderId === folderId);
+  return {
+    ...folder,
+    unreadCount: messages.filter(m => m.status === '0').length,
+    totalCount: messages.length,
+  };
+}
+
+function listing(message: MockMessage): Omit<MockMessage, 'content' | 'attachments' | 'source'> {
+  const { content: _content, attachments: _attachments, source: _source, ...rest } = message;
+  return rest;
+}
+
+function attachmentMeta(attachment: MockAttachment) {
+  return {
+    attachmentId: attachment.attachmentId,
+    attachmentName: attachment.attachmentName,
+    attachmentSize: attachment.content.length,
+    contentType: attachment.contentType,
+  };
+}
+
+/**
+ * File a sent message in the Sent folder, resolving uploaded attachments
+ */
+function storeSent(mailbox: MockMailbox, body: RequestBody, threadId?: string): MockMessage {
+  const toAddress = text(body, 'toAddress');
+  if (!toAddress) {
+    throw new MockHttpError(400, 'INVALID_INPUT', 'toAddress is required');
+  }
+  const attachments = ((body.attachments || []) as { storeName: string }[]).map(ref => {
+    const upload = mailbox.uploads.find(u => u.storeName === ref.storeName);
+    if (!upload) {
+      throw new MockHttpError(400, 'INVALID_INPUT', `Unknown attachment ${ref.storeName}`);
+    }
+    return {
+      attachmentId: newId(),
+      attachmentName: upload.attachmentName,
+      contentType: 'application/octet-stream',
+      content: upload.content,
+    };
+  });
+
+  const sent = mailbox.folders.find(f => f.folderType === 'Sent')!;
+  const now = String(Date.now());
+  const messageId = newId();
+  const message: MockMessage = {
+    messageId,
+    folderId: sent.folderId,
+    subject: text(body, 'subject') || '',
+    sender: mailbox.account.displayName,
+    fromAddress: text(body, 'fromAddress') || mailbox.account.emailAddress,
+    toAddress,
+    ccAddress: text(body, 'ccAddress'),
+    receivedTime: now,
+    sentDateInGMT: now,
+    status: '1',
+    status2: '1',
+    hasAttachment: attachments.length ? '1' : '0',
+    flagid: 'flag_not_set',
+    summary: (text(body, 'content') || '').slice(0, 100),
+    threadId: threadId || messageId,
+    content: text(body, 'content') || '',
+    attachments,
+  };
+  mailbox.messages.push(message);
+  return message;
+}
+
+function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * The message's header block as Zoho's /header endpoint returns it
+ */
+function rawHeaders(message: MockMessage): string {
+  if (message.source) {
+    return rawMessage(message).split('\r\n\r\n')[0] + '\r\n';
+  }
+  const date = new Date(Number(message.receivedTime)).toUTCString();
+  const isHtml = /<[a-z][\s\S]*>/i.test(message.content);
+  const multipart = message.attachments?.length;
+  const lines = [
+    ...(message.headers || [`Received: from mx.zoho.com by mail.zoho.com with SMTP id ${message.messageId}; ${date}`]),
+    `Message-ID: <${message.messageId}@mock.zoho.example>`,
+    `Date: ${date}`,
+    `From: ${message.fromAddress}`,
+    `To: ${message.toAddress}`,
+    ...(message.ccAddress ? [`Cc: ${message.ccAddress}`] : []),
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    'MIME-Version: 1.0',
+    multipart
+      ? `Content-Type: multipart/mixed; boundary="mock-${message.messageId}"`
+      : `Content-Type: ${isHtml ? 'text/html' : 'text/plain'}; charset=UTF-8`,
+  ];
+  if (!multipart) lines.push('Content-Transfer-Encoding: 8bit');
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * The full RFC 822 source, as the /originalmessage endpoint returns it
+ */
+function rawMessage(message: MockMessage): string {
+  if (message.source) {
+    return message.source.replace(/\r?\n/g, '\r\n');
+  }
+  const body = message.content.replace(/\r?\n/g, '\r\n');
+  if (!message.attachments?.length) {
+    return `${rawHeaders(message)}\r\n${body}\r\n`;
+  }
+
+  const boundary = `mock-${message.messageId}`;
+  const isHtml = /<[a-z][\s\S]*>/i.test(message.content);
+  const parts = [
+    `Content-Type: ${isHtml ? 'text/html' : 'text/plain'}; charset=UTF-8\r\n` +
+      `Content-Transfer-Encoding: 8bit\r\n\r\n${body}\r\n`,
+    ...message.attachments.map(a =>
+      `Content-Type: ${a.contentType}; name="${a.attachmentName}"\r\n` +
+      `Content-Disposition: attachment; filename="${a.attachmentName}"\r\n` +
+      `Content-Transfer-Encoding: base64\r\n\r\n` +
+      `${a.content.toString('base64').replace(/.{1,76}/g, '$&\r\n')}`
+    ),
+  ];
+  return `${rawHeaders(message)}\r\n` +
+    parts.map(part => `--${boundary}\r\n${part}`).join('') +
+    `--${boundary}--\r\n`;
+}
+
+function byNewest(a: MockMessage, b: MockMessage): number {
+  return Number(b.receivedTime) - Number(a.receivedTime);
+}
+
+function paginate<T>(items: T[], query: URLSearchParams): T[] {
+  // Zoho's `start` is 1-based
+  const start = Math.max(1, parseInt(query.get('start') || '1', 10));
+  const limit = parseInt(query.get('limit') || '10', 10);
+  return items.slice(start - 1, start - 1 + limit);
+}
+
+/**
+ * Match a Zoho searchKey (`entire:foo`, `sender:a@b::subject:bar`, ...)
+ */
+function matchesSearch(message: MockMessage, searchKey: string): boolean {
+  return searchKey.split('::').every(term => {
+    const separator = term.indexOf(':');
+    const key = separator === -1 ? 'entire' : term.slice(0, separator);
+    const value = (separator === -1 ? term : term.slice(separator + 1)).toLowerCase();
+    const contains = (field?: string) => (field || '').toLowerCase().includes(value);
+
+    switch (key) {
+      case 'sender':
+        return contains(message.fromAddress);
+      case 'to':
+        return contains(message.toAddress) || contains(message.ccAddress);
+      case 'subject':
+        return contains(message.subject);
+      case 'content':
+        return contains(message.content);
+      case 'has':
+        return value === 'attachment' ? message.hasAttachment === '1' : true;
+      default:
+        return contains(message.subject) || contains(message.fromAddress) ||
+          contains(message.toAddress) || contains(message.content);
+    }
+  });
+}
+
+const updateModes: Record<string, (message: MockMessage, mailbox: MockMailbox, body: RequestBody) => void> = {
+  markAsRead: (m) => { m.status = '1'; m.status2 = '1'; },
+  markAsUnread: (m) => { m.status = '0'; m.status2 = '0'; },
+  moveToFolder: (m, mailbox, body) => { m.folderId = findFolder(mailbox, text(body, 'destFolderId') || '').folderId; },
+  addFlag: (m) => { m.flagid = 'important'; },
+  removeFlag: (m) => { m.flagid = 'flag_not_set'; },
+  addTag: (m, _mailbox, body) => { m.labels = [...new Set([...(m.labels || []), text(body, 'tagId') || ''])]; },
+  removeTag: (m, _mailbox, body) => { m.labels = (m.labels || []).filter(l => l !== text(body, 'tagId')); },
+  archive: (m) => { (m as MockMessage & { archived?: boolean }).archived = true; },
+  unarchive: (m) => { (m as MockMessage & { archived?: boolean }).archived = false; },
+  spam: (m, mailbox) => { m.folderId = mailbox.folders.find(f => f.folderType === 'Spam')!.folderId; },
+  notSpam: (m, mailbox) => { m.folderId = mailbox.folders.find(f => f.folderType === 'Inbox')!.folderId; },
+};
+
+const routes: [string, RegExp, RouteHandler][] = [
+  ['GET', /^\/folders$/, ({ mailbox }) => mailbox.folders.map(f => folderWithCounts(mailbox, f.folderId))],
+  ['POST', /^\/folders$/, ({ mailbox, body }) => {
+    const parentId = text(body, 'parentFolderId');
+    const parent = parentId ? findFolder(mailbox, parentId) : undefined;
+    const folderName = String(text(body, 'folderName'));
+    const folder = {
+      folderId: newId(),
+      folderName,
+      folderType: 'Inbox',
+      path: `${parent ? parent.path : ''}/${folderName}`,
+      isArchived: 0,
+      imapAccess: true,
+      URI: '',
+    };
+    mailbox.folders.push(folder);
+    return folder;
+  }],
+  ['GET', /^\/folders\/(\d+)$/, ({ mailbox, params }) => folderWithCounts(mailbox, params[0])],
+  ['PUT', /^\/folders\/(\d+)$/, ({ mailbox, params, body }) => {
+    const folder = findFolder(mailbox, params[0]);
+    if (body.mode === 'renameFolder') {
+      folder.folderName = String(text(body, 'folderName'));
+      folder.path = folder.path.replace(/[^/]+$/, folder.folderName);
+    }
+    return folder;
+  }],
+  ['DELETE', /^\/folders\/(\d+)$/, ({ mailbox, params }) => {
+    findFolder(mailbox, params[0]);
+    mailbox.folders = mailbox.folders.filter(f => f.folderId !== params[0]);
+    mailbox.messages = mailbox.messages.filter(m => m.folderId !== params[0]);
+    return null;
+  }],
+
+  ['GET', /^\/labels$/, ({ mailbox }) => mailbox.labels],
+  ['POST', /^\/labels$/, ({ mailbox, body }) => {
+    const label = { labelId: newId(), labelName: String(text(body, 'labelName')), color: text(body, 'color') || '' };
+    mailbox.labels.push(label);
+    return label;
+  }],
+  ['DELETE', /^\/labels\/(\d+)$/, ({ mailbox, params }) => {
+    if (!mailbox.labels.some(l => l.labelId === params[0])) {
+      throw new MockHttpError(404, 'LABEL_NOT_FOUND', `Label ${params[0]} not found`);
+    }
+    mailbox.labels = mailbox.labels.filter(l => l.labelId !== params[0]);
+    return null;
+  }],
+
+  ['GET', /^\/messages\/view$/, ({ mailbox, query }) => {
+    const folderId = query.get('folderId');
+    if (folderId) findFolder(mailbox, folderId);
+    const status = query.get('status');
+    const threadId = query.get('threadId');
+    const messages = mailbox.messages
+      .filter(m => !folderId || m.folderId === folderId)
+      .filter(m => !threadId || m.threadId === threadId)
+      .filter(m => !status || m.status === status)
+      .filter(m => query.get('flagid') !== 'flagged' || m.flagid !== 'flag_not_set')
+      .sort(byNewest);
+    return paginate(messages, query).map(listing);
+  }],
+  ['GET', /^\/messages\/search$/, ({ mailbox, query }) => {
+    const searchKey = query.get('searchKey') || '';
+    const folderId = query.get('folderId');
+    const messages = mailbox.messages
+      .filter(m => !folderId || m.folderId === folderId)
+      .filter(m => matchesSearch(m, searchKey))
+      .sort(byNewest);
+    return paginate(messages, query).map(listing);
+  }],
+  ['GET', /^\/folders\/(\d+)\/messages\/(\d+)\/content$/, ({ mailbox, params }) => {
+    const message = findMessage(mailbox, params[1], params[0]);
+    return { messageId: message.messageId, content: message.content };
+  }],
+  ['GET', /^\/folders\/(\d+)\/messages\/(\d+)\/details$/, ({ mailbox, params }) =>
+    listing(findMessage(mailbox, params[1], params[0]))],
+  ['GET', /^\/folders\/(\d+)\/messages\/(\d+)\/header$/, ({ mailbox, params }) => ({
+    headerContent: rawHeaders(findMessage(mailbox, params[1], params[0])),
+  })],
+  ['GET', /^\/folders\/(\d+)\/messages\/(\d+)\/originalmessage$/, ({ mailbox, params }) => ({
+    content: rawMessage(findMessage(mailbox, params[1], params[0])),
+  })],
+  ['GET', /^\/folders\/(\d+)\/messages\/(\d+)\/attachmentinfo$/, ({ mailbox, params }) => {
+    const message = findMessage(mailbox, params[1], params[0]);
+    return { messageId: message.messageId, attachments: (message.attachments || []).map(attachmentMeta), inline: [] };
+  }],
+  ['GET', /^\/folders\/(\d+)\/messages\/(\d+)\/attachments\/(\d+)$/, ({ mailbox, params }) => {
+    const message = findMessage(mailbox, params[1], params[0]);
+    const attachment = (message.attachments || []).find(a => a.attachmentId === params[2]);
+    if (!attachment) {
+      throw new MockHttpError(404, 'ATTACHMENT_NOT_FOUND', `Attachment ${params[2]} not found`);
+    }
+    return new MockBinary(attachment.content, attachment.contentType);
+  }],
+  ['DELETE', /^\/folders\/(\d+)\/messages\/(\d+)$/, ({ mailbox, params }) => {
+    findMessage(mailbox, params[1], params[0]);
+    mailbox.messages = mailbox.messages.filter(m => m.messageId !== params[1]);
+    return null;
+  }],
+  ['PUT', /^\/updatemessage$/, ({ mailbox, body }) => {
+    const update = updateModes[text(body, 'mode') || ''];
+    if (!update) {
+      throw new MockHttpError(400, 'PATTERN_NOT_MATCHED', `Unsupported mode ${body.mode}`);
+    }
+    const messages = ids(body, 'messageId').map(id => findMessage(mailbox, id));
+    messages.forEach(m => update(m, mailbox, body));
+    return null;
+  }],
+  ['PUT', /^\/updatethread$/, ({ mailbox, body }) => {
+    const update = updateModes[text(body, 'mode') || ''];
+    if (!update) {
+      throw new MockHttpError(400, 'PATTERN_NOT_MATCHED', `Unsupported mode ${body.mode}`);
+    }
+    const threadIds = ids(body, 'threadId');
+    const messages = mailbox.messages.filter(m => m.threadId && threadIds.includes(m.threadId));
+    if (messages.length === 0) {
+      throw new MockHttpError(404, 'THREAD_NOT_FOUND', `Thread ${threadIds.join(', ')} not found`);
+    }
+    messages.forEach(m => update(m, mailbox, body));
+    return null;
+  }],
+  ['POST', /^\/messages$/, ({ mailbox, body }) => {
+    const message = storeSent(mailbox, body);
+    return { messageId: message.messageId, subject: message.subject };
+  }],
+  ['POST', /^\/messages\/attachments$/, ({ mailbox, query, raw }) => {
+    const fileName = query.get('fileName');
+    if (!fileName) {
+      throw new MockHttpError(400, 'INVALID_INPUT', 'fileName is required');
+    }
+    const storeName = newId();
+    const upload = { storeName, attachmentName: fileName, attachmentPath: `/mock/${storeName}/${fileName}`, content: raw };
+    mailbox.uploads.push(upload);
+    return [{ storeName, attachmentName: fileName, attachmentPath: upload.attachmentPath }];
+  }],
+  ['POST', /^\/messages\/(\d+)$/, ({ mailbox, params, body }) => {
+    const original = findMessage(mailbox, params[0]);
+    if (body.action !== 'reply' && body.action !== 'forward') {
+      throw new MockHttpError(400, 'INVALID_INPUT', `Unsupported action ${body.action}`);
+    }
+    const message = storeSent(mailbox, body, original.threadId);
+    return { messageId: message.messageId, subject: message.subject };
+  }],
+];
+
+function handleSignature(mailbox: MockMailbox, method: string, body: RequestBody): unknown {
+  const signatures = mailbox.signatures;
+  const find = () => {
+    const signature = signatures.find(s => s.signatureId === String(body.id));
+    if (!signature) {
+      throw new MockHttpError(404, 'SIGNATURE_NOT_FOUND', `Signature ${body.id} not found`);
+    }
+    return signature;
+  };
+  const makeDefault = (signatureId: string) => {
+    signatures.forEach(s => { s.isDefault = s.signatureId === signatureId; });
+  };
+
+  switch (method) {
+    case 'GET':
+      return signatures;
+    case 'POST': {
+      const signature = {
+        signatureId: newId(),
+        signatureName: String(text(body, 'name')),
+        content: text(body, 'content') || '',
+        mode: text(body, 'mode') || 'html',
+        isDefault: false,
+      };
+      signatures.push(signature);
+      if (body.isDefault) makeDefault(signature.signatureId);
+      return signature;
+    }
+    case 'PUT': {
+      const signature = find();
+      signature.signatureName = text(body, 'name') ?? signature.signatureName;
+      signature.content = text(body, 'content') ?? signature.content;
+      signature.mode = text(body, 'mode') ?? signature.mode;
+      if (body.isDefault) makeDefault(signature.signatureId);
+      return signature;
+    }
+    case 'DELETE':
+      find();
+      mailbox.signatures = signatures.filter(s => s.signatureId !== String(body.id));
+      return null;
+    default:
+      throw new MockHttpError(405, 'INVALID_METHOD', `Method ${method} not allowed`);
+  }
+}
+
+/**
+ * Zoho Accounts' token and revoke endpoints. Rejected grants are a 200
+ * with an `error` field, as Zoho answers them.
+ */
+function handleOAuth(oauth: MockOAuth, accessToken: string, path: string, query: URLSearchParams, raw: Buffer): unknown {
+  if (path === '/oauth/v2/token/revoke') {
+    oauth.revoked.push(query.get('token') || '');
+    return { status: 'success' };
+  }
+  if (path !== '/oauth/v2/token') {
+    throw new MockHttpError(404, 'URL_RULE_NOT_CONFIGURED', `No route for ${path}`);
+  }
+
+  const params = new URLSearchParams(raw.toString('utf-8'));
+  if (params.get('client_id') !== oauth.clientId || params.get('client_secret') !== oauth.clientSecret) {
+    return { error: 'invalid_client' };
+  }
+  switch (params.get('grant_type')) {
+    case 'authorization_code':
+      if (params.get('code') !== oauth.code) return { error: 'invalid_code' };
+      return { access_token: accessToken, refresh_token: oauth.refreshToken, expires_in: 3600, token_type: 'Bearer' };
+    case 'refresh_token': {
+      const refreshToken = params.get('refresh_token') || '';
+      if (refreshToken !== oauth.refreshToken || oauth.revoked.includes(refreshToken)) return { error: 'invalid_code' };
+      return { access_token: accessToken, expires_in: 3600, token_type: 'Bearer' };
+    }
+    default:
+      return { error: 'unsupported_grant_type' };
+  }
+}
+
+function send(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+function sendError(res: ServerResponse, status: number, errorCode: string, message: string, headers?: Record<string, string>): void {
+  send(res, status, { status: { code: status, description: message }, data: { errorCode, moreInfo: message } }, headers);
+}
+
+async function readBody(req: IncomingMessage): Promise<{ body: RequestBody; raw: Buffer }> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks);
+  const isJson = !req.headers['content-type'] || req.headers['content-type'].includes('json');
+  return { body: isJson && raw.length ? JSON.parse(raw.toString('utf-8')) : {}, raw };
+}
+
+/**
+ * Start an in-memory stand-in for the Zoho Mail REST API.
+ * Every request must carry `Authorization: Zoho-oauthtoken <token>`.
+ */
+export function startMockServer(options: {
+  port?: number;
+  host?: string;
+  token?: string;
+  mailboxes?: MockMailbox[];
+} = {}): Promise<MockServer> {
+  const token = options.token || 'mock-token';
+  const state: Omit<MockServer, 'url' | 'close'> = {
+    mailboxes: options.mailboxes || createFixtureMailboxes(),
+    faults: [],
+    oauth: {
+      clientId: 'mock-client',
+      clientSecret: 'mock-secret',
+      code: 'mock-code',
+      refreshToken: 'mock-refresh',
+      revoked: [],
+    },
+    requests: [],
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      const { body, raw } = await readBody(req);
+      state.requests.push({ method: req.method || 'GET', path: url.pathname, body });
+
+      // Zoho Accounts authenticates with the client secret instead of a token
+      if (url.pathname.startsWith('/oauth/v2/')) {
+        send(res, 200, handleOAuth(state.oauth, token, url.pathname, url.searchParams, raw));
+        return;
+      }
+
+      if (req.headers.authorization !== `Zoho-oauthtoken ${token}`) {
+        sendError(res, 401, 'INVALID_OAUTHTOKEN', 'Invalid OAuth token');
+        return;
+      }
+
+      const faultIndex = state.faults.findIndex(f => !f.path || url.pathname.includes(f.path));
+      if (faultIndex !== -1) {
+        const [fault] = state.faults.splice(faultIndex, 1);
+        const headers: Record<string, string> = fault.retryAfter !== undefined ? { 'Retry-After': fault.retryAfter } : {};
+        sendError(res, fault.status, fault.errorCode || 'MOCK_FAULT', `Injected ${fault.status} response`, headers);
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/accounts') {
+        send(res, 200, { status: { code: 200, description: 'success' }, data: state.mailboxes.map(m => m.account) });
+        return;
+      }
+
+      // Signatures belong to the user, not an account; keep them on the first mailbox
+      if (url.pathname === '/api/accounts/signature') {
+        const data = handleSignature(state.mailboxes[0], req.method || 'GET', body);
+        send(res, 200, { status: { code: 200, description: 'success' }, data });
+        return;
+      }
+
+      const accountMatch = url.pathname.match(/^\/api\/accounts\/(\d+)(\/.*)$/);
+      const mailbox = accountMatch && state.mailboxes.find(m => m.account.accountId === accountMatch[1]);
+      if (!accountMatch || !mailbox) {
+        sendError(res, 404, 'URL_RULE_NOT_CONFIGURED', `No route for ${req.method} ${url.pathname}`);
+        return;
+      }
+
+      for (const [method, pattern, handler] of routes) {
+        const match = accountMatch[2].match(pattern);
+        if (method === req.method && match) {
+          const data = handler({ mailbox, params: match.slice(1), query: url.searchParams, body, raw });
+          if (data instanceof MockBinary) {
+            res.writeHead(200, { 'Content-Type': data.contentType, 'Content-Length': String(data.content.length) });
+            res.end(data.content);
+            return;
+          }
+          send(res, 200, { status: { code: 200, description: 'success' }, data });
+          return;
+        }
+      }
+      sendError(res, 404, 'URL_RULE_NOT_CONFIGURED', `No route for ${req.method} ${url.pathname}`);
+    } catch (err) {
+      if (err instanceof MockHttpError) {
+        sendError(res, err.status, err.errorCode, err.message);
+      } else {
+        sendError(res, 500, 'INTERNAL_ERROR', err instanceof Error ? err.message : String(err));
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.on('error', reject);
+    server.listen(options.port || 0, options.host || '127.0.0.1', () => {
+      const { address, port } = server.address() as AddressInfo;
+      resolve({
+        ...state,
+        url: `http://${address}:${port}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// Run standalone: `npm run mock-server` or `node dist/mock/server.js [port]`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.argv[2] || process.env.PORT || '8025', 10);
+  startMockServer({ port }).then(({ url }) => {
+    console.log(`Mock Zoho Mail API listening on ${url}`);
+    console.log();
+    console.log(`  export ZOHO_TRANSPORT=http`);
+    console.log(`  export ZOHO_MAIL_BASE_URL=${url}`);
+    console.log(`  export ZOHO_ACCESS_TOKEN=mock-token`);
+  });
+}
@@ -5,6 +5,18 @@ export interface ZohoConfig {
   accountId: string;
   userId: string;
   defaultFolder?: string;
+  transport?: 'http' | 'pdauth';
+}
+
+export interface ZohoOAuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Access token expiry (epoch milliseconds) */
+  expiresAt: number;
+  scopes: string[];
+  accountsServer: string;
+  clientId: string;
+  clientSecret: string;
 }
 
 export interface ZohoAccount {
@@ -79,6 +91,18 @@ export interface ZohoAttachment {
   contentType: string;
 }
 
+export interface ZohoAttachmentInfo {
+  attachments: ZohoAttachment[];
+  inline?: ZohoAttachment[];
+}
+
+/** Reference to a file uploaded with the attachment upload API */
+export interface ZohoUploadedAttachment {
+  storeName: string;
+  attachmentName: string;
+  attachmentPath: string;
+}
+
 export interface ZohoSignature {
   signatureId: string;
   signatureName: string;
@@ -103,6 +127,7 @@ export interface ZohoApiError {
   data?: {
     errorCode?: string;
     message?: string;
+    moreInfo?: string;
   };
 }
 
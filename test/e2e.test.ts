@@ -0,0 +1,1258 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFile, mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { fakeTerminal, freePort, setup, type TestEnv } from './helpers.js';
+
+const INBOX = '1000000000001';
+const ACME = '1000000000011';
+const INVOICE = '1736900000000100001';
+const SYNC = '1736900000000100002';
+
+describe('zoho-mail against the mock server', () => {
+  let env: TestEnv;
+
+  before(async () => {
+    env = await setup();
+  });
+
+  after(async () => {
+    await env.close();
+  });
+
+  describe('mail list', () => {
+    it('prints the Inbox as a table', async () => {
+      const { code, stdout } = await env.run(['mail', 'list']);
+      assert.equal(code, 0);
+      assert.match(stdout, /Invoice #4521 for January/);
+      assert.match(stdout, /billing@vendor.example/);
+      assert.doesNotMatch(stdout, /Acme contract renewal/);
+      assert.match(stdout, /Showing 5 email\(s\)/);
+    });
+
+    it('prints JSON with --json', async () => {
+      const { code, stdout } = await env.run(['mail', 'list', '--json', '--unread']);
+      assert.equal(code, 0);
+      const emails = JSON.parse(stdout);
+      assert.deepEqual(
+        emails.map((e: { messageId: string }) => e.messageId),
+        [INVOICE, '1736900000000100003']
+      );
+    });
+
+    it('pages through a folder with --page, --start and --all', async () => {
+      const ids = async (...args: string[]) =>
+        JSON.parse((await env.run(['mail', 'list', '--json', ...args])).stdout).map((e: { messageId: string }) => e.messageId);
+
+      const all = await ids('--all');
+      assert.equal(all.length, 5);
+      assert.deepEqual(await ids('--limit', '2'), all.slice(0, 2));
+      assert.deepEqual(await ids('--limit', '2', '--page', '2'), all.slice(2, 4));
+      assert.deepEqual(await ids('--limit', '2', '--start', '5'), all.slice(4));
+      assert.deepEqual(await ids('--all', '--max', '3'), all.slice(0, 3));
+      assert.deepEqual(await ids('--page', '9'), []);
+    });
+
+    it('points at the next page when a page is full', async () => {
+      const { stdout } = await env.run(['mail', 'list', '--limit', '2']);
+      assert.match(stdout, /Showing 2 email\(s\); more with --start 3 or --all/);
+
+      const bad = await env.run(['mail', 'list', '--page', '0']);
+      assert.equal(bad.code, 1);
+      assert.match(bad.stderr, /Invalid --page "0"/);
+    });
+
+    it('lists another folder by ID', async () => {
+      const { stdout } = await env.run(['mail', 'list', ACME]);
+      assert.match(stdout, /Acme contract renewal/);
+    });
+
+    it('lists a folder by name, path or system type', async () => {
+      assert.match((await env.run(['mail', 'list', 'acme'])).stdout, /Acme contract renewal/);
+      assert.match((await env.run(['mail', 'list', '/Clients/Acme'])).stdout, /Acme contract renewal/);
+      const sent = await env.run(['mail', 'list', 'sent']);
+      assert.match(sent.stdout, /Quarterly report/);
+      assert.doesNotMatch(sent.stdout, /Invoice #4521/);
+    });
+
+    it('rejects an unknown folder', async () => {
+      const { code, stderr } = await env.run(['mail', 'list', 'Nowhere']);
+      assert.equal(code, 1);
+      assert.match(stderr, /Folder "Nowhere" not found/);
+    });
+
+    it('lists the configured defaultFolder', async () => {
+      const path = join(env.configDir, 'config.json');
+      const original = await readFile(path, 'utf-8');
+      const config = JSON.parse(original);
+      config.profiles.default.defaultFolder = '/Clients/Acme';
+      await writeFile(path, JSON.stringify(config));
+      try {
+        const { stdout } = await env.run(['mail', 'list']);
+        assert.match(stdout, /Acme contract renewal/);
+        assert.doesNotMatch(stdout, /Invoice #4521/);
+      } finally {
+        await writeFile(path, original);
+      }
+    });
+  });
+
+  describe('mail search and read', () => {
+    it('finds messages by keyword', async () => {
+      const { code, stdout } = await env.run(['mail', 'search', 'invoice']);
+      assert.equal(code, 0);
+      assert.match(stdout, /Invoice #4521/);
+      assert.match(stdout, /Found 1 email\(s\)/);
+    });
+
+    it('pages through search results', async () => {
+      const ids = async (...args: string[]) =>
+        JSON.parse((await env.run(['mail', 'search', 'example', '--json', ...args])).stdout)
+          .map((e: { messageId: string }) => e.messageId);
+
+      const all = await ids('--all');
+      assert.ok(all.length > 2);
+      assert.deepEqual(await ids('--limit', '1', '--page', '2'), all.slice(1, 2));
+      assert.deepEqual(await ids('--all', '--max', '2'), all.slice(0, 2));
+    });
+
+    it('explains how a query splits between Zoho and the client', async () => {
+      const explain = async (query: string) =>
+        JSON.parse((await env.run(['mail', 'search', query, '--explain', '--json'])).stdout);
+
+      assert.deepEqual(await explain('from:billing has:attachment -is:read in:/Clients/Acme'), {
+        searchKey: 'sender:billing::has:attachment',
+        folder: '/Clients/Acme',
+        filters: '-is:read',
+      });
+      assert.deepEqual(await explain('"team sync" from:sam OR from:jo'), {
+        searchKey: 'entire:team sync',
+        folder: null,
+        filters: '(from:sam OR from:jo)',
+      });
+    });
+
+    it('applies OR and negation the server cannot express', async () => {
+      const subjects = async (query: string) =>
+        JSON.parse((await env.run(['mail', 'search', query, '--json'])).stdout)
+          .map((e: { subject: string }) => e.subject);
+
+      assert.deepEqual(
+        (await subjects('from:sam OR from:jo in:inbox')).sort(),
+        ['Re: Weekly team sync', 'Weekly team sync']
+      );
+      const notJo = await subjects('weekly -from:jo');
+      assert.ok(notJo.includes('Weekly team sync'));
+      assert.ok(!notJo.includes('Re: Weekly team sync'));
+    });
+
+    it('prints listings as CSV, NDJSON or a template', async () => {
+      const csv = await env.run(['mail', 'search', 'invoice', '--format', 'csv', '--fields', 'id,from,subject,unread']);
+      assert.equal(csv.code, 0);
+      assert.equal(csv.stdout, 'id,from,subject,unread\n' +
+        '1736900000000100001,billing@vendor.example,Invoice #4521 for January,true\n');
+
+      const ndjson = await env.run(['mail', 'search', 'weekly', '--format', 'ndjson', '--fields', 'from']);
+      assert.deepEqual(ndjson.stdout.trim().split('\n').map(line => JSON.parse(line)).sort((a, b) => a.from.localeCompare(b.from)),
+        [{ from: 'jo@example.com' }, { from: 'sam@example.com' }]);
+
+      const template = await env.run(['mail', 'search', 'invoice', '--format', '{{handle}}: {{subject}} <{{from}}>']);
+      assert.equal(template.stdout, '1: Invoice #4521 for January <billing@vendor.example>\n');
+
+      const unknown = await env.run(['mail', 'search', 'invoice', '--fields', 'id,colour']);
+      assert.equal(unknown.code, 1);
+      assert.match(unknown.stderr, /Unknown field "colour"/);
+    });
+
+    it('formats reports and other listings the same way', async () => {
+      const signatures = await env.run(['signatures', 'list', '--format', 'csv', '--fields', 'name']);
+      assert.equal(signatures.code, 0);
+      assert.match(signatures.stdout, /^name\n(.+\n)*Work\n/);
+
+      const bulk = await env.run(['mail', 'mark-read', '1736900000000999999', '--format', 'csv', '--fields', 'id,ok']);
+      assert.equal(bulk.code, 1);
+      assert.equal(bulk.stdout, 'id,ok\n1736900000000999999,false\n');
+
+      // Checked before anything is changed
+      const unknown = await env.run(['mail', 'flag', INVOICE, '--fields', 'id,colour']);
+      assert.equal(unknown.code, 1);
+      assert.match(unknown.stderr, /Unknown field "colour"/);
+      assert.equal(env.server.mailboxes[0].messages.find(m => m.messageId === INVOICE)!.flagid, 'flag_not_set');
+    });
+
+    it('passes Zoho\'s own field syntax through and rejects client-only queries without a folder', async () => {
+      const raw = await env.run(['mail', 'search', 'content:budget -is:read', '--explain', '--json']);
+      assert.deepEqual(JSON.parse(raw.stdout), { searchKey: 'content:budget', folder: null, filters: '-is:read' });
+
+      const negated = await env.run(['mail', 'search', 'invoice -content:budget']);
+      assert.equal(negated.code, 1);
+      assert.match(negated.stderr, /content:budget goes to Zoho as written/);
+
+      const clientOnly = await env.run(['mail', 'search', 'is:unread']);
+      assert.equal(clientOnly.code, 1);
+      assert.match(clientOnly.stderr, /in:<folder>/);
+    });
+
+    it('reads message content as JSON', async () => {
+      const { code, stdout } = await env.run(['mail', 'read', SYNC, '--json']);
+      assert.equal(code, 0);
+      assert.match(JSON.parse(stdout).content, /Agenda for Thursday/);
+    });
+
+    it('reads a message by its handle from the last listing', async () => {
+      const listing = await env.run(['mail', 'list', 'acme']);
+      assert.match(listing.stdout, /│ 1 +│ legal@acme.example/);
+
+      // The handle carries the folder, so no --folder is needed
+      const { code, stdout } = await env.run(['mail', 'read', '1', '--json']);
+      assert.equal(code, 0);
+      assert.match(JSON.parse(stdout).content, /renewal draft is ready/);
+    });
+
+    it('refuses handles that are unknown or from another account', async () => {
+      const unknown = await env.run(['mail', 'read', '99']);
+      assert.equal(unknown.code, 1);
+      assert.match(unknown.stderr, /No message 99 in the last listing/);
+
+      const other = await env.run(['--account', '2000000000002', 'mail', 'read', '1']);
+      assert.equal(other.code, 1);
+      assert.match(other.stderr, /Handle 1 is from a listing of another account/);
+    });
+
+    it('renders HTML bodies for the terminal', async () => {
+      const { code, stdout } = await env.run(['mail', 'read', '1736900000000100004']);
+      assert.equal(code, 0);
+      assert.match(stdout, /From: receipts@coffee.example/);
+      assert.match(stdout, /Thanks for your order\n\nLatte  \$4\.50\n\nTrack it here\[1\]\./);
+      assert.match(stdout, /\[1\] https:\/\/coffee.example\/orders\/81/);
+      assert.doesNotMatch(stdout, /<td>|padding|open\.gif/);
+    });
+
+    it('renders Markdown and passes HTML through', async () => {
+      const markdown = await env.run(['mail', 'read', '1736900000000100004', '--format', 'markdown']);
+      assert.match(markdown.stdout, /^# Thanks for your order\n\n\| Latte \| \$4\.50 \|/);
+      assert.match(markdown.stdout, /\[here\]\(https:\/\/coffee.example\/orders\/81\)/);
+
+      const html = await env.run(['mail', 'read', '1736900000000100004', '--format', 'html']);
+      assert.match(html.stdout, /^<style>/);
+    });
+
+    it('collapses quoted history unless --full', async () => {
+      const collapsed = await env.run(['mail', 'read', '1736900000000100003']);
+      assert.match(collapsed.stdout, /2 quoted line\(s\) hidden/);
+      const full = await env.run(['mail', 'read', '1736900000000100003', '--full']);
+      assert.match(full.stdout, /^> Agenda for Thursday$/m);
+    });
+
+    it('parses authentication results and the Received chain', async () => {
+      const { code, stdout } = await env.run(['mail', 'read', INVOICE, '--headers', '--json']);
+      assert.equal(code, 0);
+      const { headers } = JSON.parse(stdout);
+      assert.deepEqual(
+        headers.authentication.map((a: { method: string; result: string }) => `${a.method}=${a.result}`),
+        ['spf=pass', 'dkim=pass', 'dmarc=fail']
+      );
+      assert.equal(headers.authentication[0].properties['smtp.mailfrom'], 'billing@vendor.example');
+      assert.equal(headers.received.length, 2);
+      assert.equal(headers.received[1].from, 'mail.vendor.example (mail.vendor.example [203.0.113.5])');
+      assert.equal(headers.received[1].date, 'Thu, 15 Jan 2026 08:00:01 +0000');
+    });
+
+    it('shows List-* headers', async () => {
+      const { stdout } = await env.run(['mail', 'read', '1736900000000100004', '--headers']);
+      assert.match(stdout, /Mailing list\n\s+List-Id: Coffee Co receipts/);
+      assert.match(stdout, /List-Unsubscribe: <mailto:unsubscribe@coffee.example>/);
+    });
+
+    it('prints and saves the raw source', async () => {
+      const raw = await env.run(['mail', 'read', INVOICE, '--raw']);
+      assert.equal(raw.code, 0);
+      assert.match(raw.stdout, /^Received: /);
+      assert.match(raw.stdout, /Content-Disposition: attachment; filename="invoice-4521.pdf"/);
+
+      const file = join(env.configDir, 'invoice.eml');
+      const saved = await env.run(['mail', 'read', INVOICE, '--save', file]);
+      assert.equal(saved.code, 0);
+      assert.equal(await readFile(file, 'utf-8'), raw.stdout);
+    });
+
+    it('finds the folder of a message outside the Inbox and remembers it', async () => {
+      const REPORT = '1736900000000100007';
+      const { code, stdout } = await env.run(['mail', 'read', REPORT, '--json']);
+      assert.equal(code, 0);
+      assert.equal(JSON.parse(stdout).subject, 'Quarterly report');
+
+      const locations = JSON.parse(
+        await readFile(join(env.configDir, 'cache', '2000000000001', 'locations.json'), 'utf-8')
+      );
+      assert.equal(locations[REPORT], '1000000000002');
+    });
+
+    it('looks again when a remembered folder is stale', async () => {
+      const REPORT = '1736900000000100007';
+      const message = env.server.mailboxes[0].messages.find(m => m.messageId === REPORT)!;
+      message.folderId = '1000000000004';
+      try {
+        const { code, stdout } = await env.run(['mail', 'read', REPORT, '--json']);
+        assert.equal(code, 0);
+        assert.equal(JSON.parse(stdout).subject, 'Quarterly report');
+      } finally {
+        message.folderId = '1000000000002';
+      }
+    });
+
+    it('scans the folders when the search for an ID fails', async () => {
+      const REPORT = '1736900000000100007';
+      const message = env.server.mailboxes[0].messages.find(m => m.messageId === REPORT)!;
+      // Somewhere other than where the last lookup remembered it
+      message.folderId = '1000000000003';
+      env.server.faults.push({ status: 400, path: '/messages/search' });
+      try {
+        const { code, stdout, stderr } = await env.run(['mail', 'read', REPORT, '--json']);
+        assert.equal(code, 0, stderr);
+        assert.equal(JSON.parse(stdout).subject, 'Quarterly report');
+        assert.equal(env.server.faults.length, 0);
+      } finally {
+        message.folderId = '1000000000002';
+      }
+    });
+
+    it('explains a message that is in no folder', async () => {
+      const { code, stderr } = await env.run(['mail', 'read', '1736900000000999999']);
+      assert.equal(code, 1);
+      assert.match(stderr, /Message 1736900000000999999 not found in any folder/);
+    });
+
+    it('keeps MAIL_NOT_FOUND for a wrong --folder', async () => {
+      const { code, stderr } = await env.run(['mail', 'read', '1736900000000100006', '--folder', 'inbox']);
+      assert.equal(code, 1);
+      assert.match(stderr, /MAIL_NOT_FOUND/);
+      assert.match(stderr, /pass --folder/);
+    });
+  });
+
+  describe('message operations', () => {
+    it('flags and moves a message', async () => {
+      assert.equal((await env.run(['mail', 'flag', INVOICE])).code, 0);
+      assert.equal((await env.run(['mail', 'move', INVOICE, ACME])).code, 0);
+
+      const message = env.server.mailboxes[0].messages.find(m => m.messageId === INVOICE)!;
+      assert.equal(message.flagid, 'important');
+      assert.equal(message.folderId, ACME);
+    });
+
+    it('updates many messages from stdin with a per-message report', async () => {
+      const RECEIPT = '1736900000000100004';
+      const { code, stdout } = await env.run(['mail', 'mark-unread', '-', '--json'], {
+        input: `${RECEIPT}\n1736900000000999999\n`,
+      });
+      assert.equal(code, 1);
+      const outcomes = JSON.parse(stdout);
+      assert.deepEqual(outcomes.map((o: { messageId: string; ok: boolean }) => [o.messageId, o.ok]), [
+        [RECEIPT, true],
+        ['1736900000000999999', false],
+      ]);
+      assert.equal(env.server.mailboxes[0].messages.find(m => m.messageId === RECEIPT)!.status, '0');
+    });
+
+    it('selects messages with --query, previewing with --dry-run', async () => {
+      const RECEIPT = '1736900000000100004';
+      const preview = await env.run(['mail', 'mark-read', '--query', 'Coffee', '--folder', INBOX, '--dry-run']);
+      assert.equal(preview.code, 0);
+      assert.match(preview.stdout, new RegExp(`^${RECEIPT}$`, 'm'));
+      assert.equal(env.server.mailboxes[0].messages.find(m => m.messageId === RECEIPT)!.status, '0');
+
+      const { code } = await env.run(['mail', 'mark-read', '--query', 'Coffee', '--folder', INBOX]);
+      assert.equal(code, 0);
+      assert.equal(env.server.mailboxes[0].messages.find(m => m.messageId === RECEIPT)!.status, '1');
+    });
+
+    it('deletes a message only with --force', async () => {
+      const id = '1736900000000100005';
+      await env.run(['mail', 'delete', id]);
+      assert.ok(env.server.mailboxes[0].messages.some(m => m.messageId === id));
+
+      const { code } = await env.run(['mail', 'delete', id, '--folder', INBOX, '--force']);
+      assert.equal(code, 0);
+      assert.ok(!env.server.mailboxes[0].messages.some(m => m.messageId === id));
+    });
+
+    it('deletes a message outside the Inbox without --folder', async () => {
+      const mailbox = env.server.mailboxes[0];
+      const id = '1736900000000100099';
+      mailbox.messages.push({ ...mailbox.messages[0], messageId: id, folderId: '1000000000005', subject: 'Cheap pills' });
+
+      const { code } = await env.run(['mail', 'delete', id, '--force']);
+      assert.equal(code, 0);
+      assert.ok(!mailbox.messages.some(m => m.messageId === id));
+    });
+
+    it('sends mail', async () => {
+      const { code } = await env.run([
+        'mail', 'send', '--to', 'pat@example.com', '--subject', 'Hello "there"', '--body', "It's $HOME; `date`",
+        '--no-signature',
+      ]);
+      assert.equal(code, 0);
+      const sent = env.server.mailboxes[0].messages.find(m => m.subject === 'Hello "there"')!;
+      assert.equal(sent.content, "It's $HOME; `date`");
+    });
+
+    it('keeps the lines of a plain-text body that quotes an address', async () => {
+      const body = 'Hi team,\n\nPlease see below.\nLine two\n\nFrom: Sam <sam@example.com>\nThanks';
+      await env.run(['mail', 'send', '--to', 'pat@example.com', '--subject', 'Addressed', '--body', body, '--no-signature']);
+      const sent = env.server.mailboxes[0].messages.find(m => m.subject === 'Addressed')!;
+
+      const read = await env.run(['mail', 'read', sent.messageId, '--folder', sent.folderId]);
+      assert.equal(read.code, 0);
+      assert.match(read.stdout, /Please see below\.\nLine two\n\nFrom: Sam <sam@example.com>\nThanks/);
+
+      const reply = await env.run(['mail', 'reply', sent.messageId, '--folder', sent.folderId, '--body', 'Noted', '--no-signature']);
+      assert.equal(reply.code, 0, reply.stderr);
+      assert.match(env.server.mailboxes[0].messages.at(-1)!.content, /^> Line two\n> \n> From: Sam <sam@example.com>$/m);
+    });
+
+    it('reads the body from stdin or a file', async () => {
+      const piped = await env.run(
+        ['mail', 'send', '--to', 'pat@example.com', '--subject', 'Piped', '--body', '-', '--no-signature'],
+        { input: 'From a pipe\n' },
+      );
+      assert.equal(piped.code, 0);
+
+      const path = join(env.configDir, 'body.txt');
+      await writeFile(path, 'From a file\n');
+      const filed = await env.run([
+        'mail', 'send', '--to', 'pat@example.com', '--subject', 'Filed', '--body-file', path, '--no-signature',
+      ]);
+      assert.equal(filed.code, 0);
+
+      const content = (subject: string) =>
+        env.server.mailboxes[0].messages.find(m => m.subject === subject)!.content;
+      assert.equal(content('Piped'), 'From a pipe\n');
+      assert.equal(content('Filed'), 'From a file\n');
+    });
+
+    it('asks for missing fields instead of opening an editor without a terminal', async () => {
+      const missing = await env.run(['mail', 'send', '--subject', 'No one', '--body', 'Hi']);
+      assert.equal(missing.code, 1);
+      assert.match(missing.stderr, /--to is required/);
+      assert.match(missing.stderr, /editor/i);
+
+      const both = await env.run([
+        'mail', 'send', '--to', 'pat@example.com', '--subject', 'Both', '--body', 'a', '--body-file', 'b.txt',
+      ]);
+      assert.equal(both.code, 1);
+      assert.match(both.stderr, /--body or --body-file/);
+    });
+  });
+
+  describe('threads', () => {
+    it('shows a conversation oldest first with quotes collapsed', async () => {
+      const { code, stdout } = await env.run(['threads', 'show', SYNC]);
+      assert.equal(code, 0);
+      assert.ok(stdout.indexOf('sam@example.com') < stdout.indexOf('jo@example.com'));
+      assert.match(stdout, /2 message\(s\)/);
+      assert.match(stdout, /2 quoted line\(s\) hidden/);
+      assert.doesNotMatch(stdout, /> Agenda/);
+    });
+
+    it('pages through a thread longer than one page', async () => {
+      const mailbox = env.server.mailboxes[0];
+      const sync = mailbox.messages.find(m => m.messageId === SYNC)!;
+      const replies = Array.from({ length: 200 }, (_, i) => ({
+        ...sync,
+        messageId: `17369000000008${String(i).padStart(5, '0')}`,
+        receivedTime: String(Number(sync.receivedTime) + 1000 + i),
+      }));
+      mailbox.messages.push(...replies);
+      try {
+        const { code, stdout } = await env.run(['threads', 'show', SYNC, '--json']);
+        assert.equal(code, 0);
+        assert.equal(JSON.parse(stdout).length, 202);
+      } finally {
+        mailbox.messages = mailbox.messages.filter(m => !replies.includes(m));
+      }
+    });
+
+    it('labels and marks a whole thread read', async () => {
+      assert.equal((await env.run(['threads', 'label', SYNC, '3000000000001'])).code, 0);
+      assert.equal((await env.run(['threads', 'read', SYNC])).code, 0);
+
+      const thread = env.server.mailboxes[0].messages.filter(m => m.threadId === SYNC);
+      assert.equal(thread.length, 2);
+      for (const message of thread) {
+        assert.ok(message.labels?.includes('3000000000001'));
+        assert.equal(message.status, '1');
+      }
+    });
+  });
+
+  describe('signatures', () => {
+    const sentBody = (subject: string) =>
+      env.server.mailboxes[0].messages.find(m => m.subject === subject)!.content;
+
+    it('appends the default HTML signature to a plaintext body as text', async () => {
+      await env.run(['mail', 'send', '--to', 'pat@example.com', '--subject', 'Sig 1', '--body', 'Hi Pat']);
+      assert.equal(sentBody('Sig 1'), 'Hi Pat\n\n-- \nAlex Doe\nExample & Co.');
+    });
+
+    it('appends a named plaintext signature to an HTML body as HTML', async () => {
+      await env.run([
+        'mail', 'send', '--to', 'pat@example.com', '--subject', 'Sig 2', '--body', '<p>Hi</p>', '--html',
+        '--signature', 'short',
+      ]);
+      assert.match(sentBody('Sig 2'), /<div class="zmail_signature">Alex<br>Sent from the CLI<\/div>$/);
+    });
+
+    it('fails on an unknown signature', async () => {
+      const { code, stderr } = await env.run([
+        'mail', 'send', '--to', 'pat@example.com', '--subject', 'Sig 3', '--body', 'x', '--signature', 'nope',
+      ]);
+      assert.equal(code, 1);
+      assert.match(stderr, /signatures list/);
+    });
+
+    it('creates, updates and deletes a signature', async () => {
+      const created = await env.run(['signatures', 'create', 'Legal', '--content', 'Confidential', '--json']);
+      const signature = JSON.parse(created.stdout);
+      assert.equal(signature.mode, 'plaintext');
+
+      assert.equal((await env.run(['signatures', 'update', signature.signatureId, '--default'])).code, 0);
+      const listed = JSON.parse((await env.run(['signatures', 'list', '--json'])).stdout);
+      assert.equal(listed.find((s: { isDefault: boolean }) => s.isDefault).signatureName, 'Legal');
+
+      assert.equal((await env.run(['signatures', 'delete', signature.signatureId, '--force'])).code, 0);
+      const table = await env.run(['signatures', 'list']);
+      assert.doesNotMatch(table.stdout, /Legal/);
+      assert.match(table.stdout, /Work/);
+    });
+  });
+
+  describe('reply and forward', () => {
+    const lastSent = () => env.server.mailboxes[0].messages.at(-1)!;
+
+    it('replies to all without including ourselves', async () => {
+      const { code } = await env.run(['mail', 'reply', SYNC, '--all', '--body', 'Count me in', '--no-signature']);
+      assert.equal(code, 0);
+      const reply = lastSent();
+      assert.equal(reply.toAddress, 'sam@example.com');
+      assert.equal(reply.ccAddress, 'jo@example.com');
+      assert.equal(reply.subject, 'Re: Weekly team sync');
+      assert.equal(reply.threadId, SYNC);
+      assert.match(reply.content, /^Count me in\n\nOn .*, sam@example.com wrote:\n> Agenda for Thursday:/);
+    });
+
+    it('does not stack Re: prefixes', async () => {
+      const { code } = await env.run(['mail', 'reply', '1736900000000100003', '--body', 'Thanks', '--no-signature']);
+      assert.equal(code, 0);
+      const reply = lastSent();
+      assert.equal(reply.subject, 'Re: Weekly team sync');
+      assert.equal(reply.toAddress, 'jo@example.com');
+      assert.equal(reply.ccAddress, undefined);
+      assert.match(reply.content, /^>> Agenda for Thursday$/m);
+    });
+
+    it('forwards with the original attachments', async () => {
+      const { code, stdout, stderr } = await env.run([
+        'mail', 'forward', INVOICE, '--folder', ACME, '--to', 'accounts@example.com', '--body', 'FYI', '--no-signature',
+      ]);
+      assert.equal(code, 0, stderr);
+      const forward = lastSent();
+      assert.equal(forward.subject, 'Fwd: Invoice #4521 for January');
+      assert.equal(forward.threadId, INVOICE);
+      assert.match(forward.content, /---------- Forwarded message ----------\nFrom: billing@vendor.example/);
+      assert.deepEqual(forward.attachments?.map(a => a.attachmentName), ['invoice-4521.pdf']);
+      assert.match(forward.attachments![0].content.toString(), /invoice 4521/);
+      assert.match(stdout + stderr, /1 attachment/);
+    });
+
+    it('takes a reply body from a file', async () => {
+      const path = join(env.configDir, 'reply.txt');
+      await writeFile(path, 'Written ahead\n');
+      const { code, stderr } = await env.run([
+        'mail', 'reply', '1736900000000100003', '--body-file', path, '--no-signature',
+      ]);
+      assert.equal(code, 0, stderr);
+      assert.match(lastSent().content, /^Written ahead\n\n\nOn .* wrote:/);
+    });
+
+    it('takes a forward note from stdin', async () => {
+      const { code, stderr } = await env.run(
+        ['mail', 'forward', INVOICE, '--folder', ACME, '--to', 'accounts@example.com', '--body', '-',
+          '--no-attachments', '--no-signature'],
+        { input: 'Piped note\n' },
+      );
+      assert.equal(code, 0, stderr);
+      assert.match(lastSent().content, /^Piped note\n\n\n---------- Forwarded message ----------/);
+    });
+
+    it('needs a reply body without a terminal', async () => {
+      const { code, stderr } = await env.run(['mail', 'reply', SYNC, '--no-signature']);
+      assert.equal(code, 1);
+      assert.match(stderr, /--body is required/);
+      assert.match(stderr, /editor/i);
+    });
+  });
+
+  describe('attachments', () => {
+    const files = () => join(env.configDir, 'files');
+
+    before(async () => {
+      await mkdir(join(files(), 'more'), { recursive: true });
+      await writeFile(join(files(), 'a.txt'), 'first');
+      await writeFile(join(files(), 'b.txt'), 'second');
+      await writeFile(join(files(), 'more', 'a.txt'), 'clash');
+    });
+
+    it('sends files matched by a glob', async () => {
+      const { code, stderr } = await env.run([
+        'mail', 'send', '--to', 'pat@example.com', '--subject', 'Files', '--body', 'See attached',
+        '--attach', join(files(), '*.txt'), '--no-signature',
+      ]);
+      assert.equal(code, 0, stderr);
+      const sent = env.server.mailboxes[0].messages.find(m => m.subject === 'Files')!;
+      assert.deepEqual(sent.attachments?.map(a => [a.attachmentName, a.content.toString()]), [
+        ['a.txt', 'first'],
+        ['b.txt', 'second'],
+      ]);
+    });
+
+    it('rejects two files with the same name', async () => {
+      const { code, stderr } = await env.run([
+        'mail', 'send', '--to', 'pat@example.com', '--subject', 'Clash', '--body', 'x',
+        '--attach', join(files(), 'a.txt'), '--attach', join(files(), 'more', 'a.txt'),
+      ]);
+      assert.equal(code, 1);
+      assert.match(stderr, /Two attachments are named "a.txt"/);
+    });
+
+    it('rejects files over the size cap', async () => {
+      const { code, stderr } = await env.run([
+        'mail', 'send', '--to', 'pat@example.com', '--subject', 'Big', '--body', 'x', '--attach', join(files(), 'b.txt'),
+      ], { env: { ZOHO_MAX_ATTACHMENT_MB: '0.000001' } });
+      assert.equal(code, 1);
+      assert.match(stderr, /over the 1 B attachment limit/);
+    });
+
+    it('lists and downloads a message\'s attachments', async () => {
+      const listed = await env.run(['mail', 'attachments', INVOICE, '--folder', ACME, '--json']);
+      assert.equal(listed.code, 0);
+      assert.equal(JSON.parse(listed.stdout)[0].contentType, 'application/pdf');
+
+      const dir = join(env.configDir, 'downloads');
+      const saved = await env.run(['mail', 'attachments', INVOICE, '--folder', ACME, '--save', dir]);
+      assert.equal(saved.code, 0);
+      assert.match(await readFile(join(dir, 'invoice-4521.pdf'), 'utf-8'), /invoice 4521/);
+
+      const again = await env.run(['mail', 'attachments', INVOICE, '--folder', ACME, '--save', dir]);
+      assert.equal(again.code, 1);
+      assert.match(again.stderr, /--overwrite/);
+    });
+  });
+
+  describe('folders', () => {
+    it('lists folders with --json', async () => {
+      const { stdout } = await env.run(['folders', 'list', '--json']);
+      const folders = JSON.parse(stdout);
+      assert.ok(folders.some((f: { path: string }) => f.path === '/Clients/Acme'));
+    });
+
+    it('creates and deletes a folder', async () => {
+      const created = await env.run(['folders', 'create', 'Projects', '--json']);
+      assert.equal(created.code, 0);
+      const folder = JSON.parse(created.stdout);
+      assert.equal(folder.path, '/Projects');
+
+      const table = await env.run(['folders', 'list']);
+      assert.match(table.stdout, /Projects/);
+
+      const deleted = await env.run(['folders', 'delete', folder.folderId, '--force']);
+      assert.equal(deleted.code, 0);
+      assert.ok(!env.server.mailboxes[0].folders.some(f => f.folderId === folder.folderId));
+    });
+
+    it('reports an ambiguous folder name with its paths', async () => {
+      const created = await env.run(['folders', 'create', 'Acme', '--json']);
+      assert.equal(created.code, 0);
+
+      const { code, stderr } = await env.run(['mail', 'list', 'Acme']);
+      assert.equal(code, 1);
+      assert.match(stderr, /Folder name "Acme" is ambiguous/);
+      assert.match(stderr, /\/Clients\/Acme, \/Acme/);
+
+      const deleted = await env.run(['folders', 'delete', '/Acme', '--force']);
+      assert.equal(deleted.code, 0);
+      assert.match((await env.run(['mail', 'list', 'Acme'])).stdout, /Acme contract renewal/);
+    });
+
+    it('creates a subfolder under a parent given by path', async () => {
+      const created = await env.run(['folders', 'create', 'Beta', '--parent', '/Clients', '--json']);
+      assert.equal(JSON.parse(created.stdout).path, '/Clients/Beta');
+      assert.equal((await env.run(['folders', 'delete', 'clients/beta', '--force'])).code, 0);
+    });
+  });
+
+  describe('labels', () => {
+    it('creates, lists and deletes a label', async () => {
+      const created = await env.run(['labels', 'create', 'Follow up', '--color', '#0000ff', '--json']);
+      const label = JSON.parse(created.stdout);
+
+      const listed = await env.run(['labels', 'list']);
+      assert.match(listed.stdout, /Follow up/);
+      assert.match(listed.stdout, /Receipts/);
+
+      assert.equal((await env.run(['labels', 'delete', label.labelId, '--force'])).code, 0);
+      const { stdout } = await env.run(['labels', 'list', '--json']);
+      assert.ok(!JSON.parse(stdout).some((l: { labelId: string }) => l.labelId === label.labelId));
+    });
+
+    it('reports an unknown label with a hint', async () => {
+      const { code, stderr } = await env.run(['labels', 'delete', '999', '--force']);
+      assert.equal(code, 1);
+      assert.match(stderr, /labels list/);
+    });
+  });
+
+  describe('offline cache', () => {
+    // Nothing listens here: offline commands must not touch the network
+    const OFFLINE = { env: { ZOHO_MAIL_BASE_URL: 'http://127.0.0.1:9' } };
+
+    it('syncs incrementally from a high-water mark', async () => {
+      const first = await env.run(['sync', '--json']);
+      assert.equal(first.code, 0, first.stderr);
+      const inbox = JSON.parse(first.stdout).find((r: { folderId: string }) => r.folderId === INBOX);
+      assert.ok(inbox.added > 0);
+
+      const template = env.server.mailboxes[0].messages.find(m => m.folderId === INBOX)!;
+      const now = Date.now();
+      env.server.mailboxes[0].messages.push(
+        { ...template, messageId: '1736900000000900001', subject: 'Budget review', summary: 'Numbers attached',
+          content: 'See the budget', status: '0', receivedTime: String(now - 1000) },
+        { ...template, messageId: '1736900000000900002', subject: 'Lunch?', summary: 'After the budget meeting',
+          content: 'Pizza?', status: '1', receivedTime: String(now) },
+      );
+
+      const second = await env.run(['sync', '--folder', INBOX, '--bodies', '--json']);
+      const [result] = JSON.parse(second.stdout);
+      assert.equal(result.added, 2);
+      assert.ok(result.updated <= 1);
+      assert.equal(result.highWaterMark, now);
+    });
+
+    it('ranks offline search hits by where the terms match', async () => {
+      const { code, stdout } = await env.run(['mail', 'search', 'budget', '--offline', '--json'], OFFLINE);
+      assert.equal(code, 0);
+      assert.deepEqual(
+        JSON.parse(stdout).map((e: { messageId: string }) => e.messageId),
+        ['1736900000000900001', '1736900000000900002']
+      );
+    });
+
+    it('resolves label names offline from the synced label list', async () => {
+      // The threads tests labelled the team sync thread Urgent before the sync above
+      const { code, stdout, stderr } = await env.run(['mail', 'search', 'label:urgent', '--offline', '--json'], OFFLINE);
+      assert.equal(code, 0, stderr);
+      const threads = JSON.parse(stdout).map((e: { threadId: string }) => e.threadId);
+      assert.ok(threads.length >= 2);
+      assert.ok(threads.every((thread: string) => thread === SYNC));
+
+      const unknown = await env.run(['mail', 'search', 'label:nope', '--offline'], OFFLINE);
+      assert.equal(unknown.code, 1);
+      assert.match(unknown.stderr, /Unknown label "nope"/);
+    });
+
+    it('lists the cached Inbox offline', async () => {
+      const { code, stdout } = await env.run(['mail', 'list', '--offline', '--unread', '--json'], OFFLINE);
+      assert.equal(code, 0);
+      const ids = JSON.parse(stdout).map((e: { messageId: string }) => e.messageId);
+      assert.equal(ids[0], '1736900000000900001');
+      assert.ok(!ids.includes('1736900000000900002'));
+    });
+
+    it('asks for a sync when nothing is cached', async () => {
+      const { code, stderr } = await env.run(['--account', '2000000000002', 'mail', 'list', '--offline'], OFFLINE);
+      assert.equal(code, 1);
+      assert.match(stderr, /zoho-mail sync/);
+    });
+
+    it('stops a sync at --max and rejects a bad value', async () => {
+      const capped = await env.run(['sync', '--folder', INBOX, '--full', '--max', '2', '--json']);
+      assert.equal(capped.code, 0, capped.stderr);
+      assert.equal(JSON.parse(capped.stdout)[0].total, 2);
+      assert.equal((await env.run(['sync', '--folder', INBOX, '--full'])).code, 0);
+
+      const bad = await env.run(['sync', '--max', 'abc']);
+      assert.equal(bad.code, 1);
+      assert.match(bad.stderr, /Invalid --max "abc"/);
+    });
+  });
+
+  describe('export', () => {
+    const separators = (mbox: string) => mbox.match(/^From /gm)?.length ?? 0;
+    const inboxCount = () => env.server.mailboxes[0].messages.filter(m => m.folderId === INBOX).length;
+
+    it('writes every folder as mbox, keeping the folder tree and flags', async () => {
+      const sync = env.server.mailboxes[0].messages.find(m => m.messageId === SYNC)!;
+      sync.flagid = 'important';
+      sync.status = '1';
+
+      const out = join(env.configDir, 'export-mbox');
+      const { code, stdout, stderr } = await env.run(['export', '--out', out, '--json']);
+      assert.equal(code, 0, stderr);
+      const results = JSON.parse(stdout);
+      assert.equal(results.find((r: { folderId: string }) => r.folderId === ACME).path, join(out, 'Clients', 'Acme.mbox'));
+
+      const mbox = await readFile(join(out, 'Inbox.mbox'), 'utf-8');
+      assert.equal(separators(mbox), inboxCount());
+      const entry = mbox.split(/^(?=From )/m).find(e => e.includes(`<${SYNC}@`))!;
+      assert.match(entry, /^Status: RO$/m);
+      assert.match(entry, /^X-Status: F$/m);
+      assert.match(entry, /^From \S+ \w{3} \w{3} [ \d]\d \d\d:\d\d:\d\d \d{4}$/m);
+    });
+
+    it('resumes from the manifest, dropping a half-written message', async () => {
+      const out = join(env.configDir, 'export-mbox');
+      await appendFile(join(out, 'Inbox.mbox'), 'From cut-off@example.com Thu Jan 15 09:00:00 2026\nSubject: half');
+      const template = env.server.mailboxes[0].messages.find(m => m.folderId === INBOX)!;
+      env.server.mailboxes[0].messages.push({
+        ...template, messageId: '1736900000000900003', subject: 'After the backup', receivedTime: String(Date.now()),
+      });
+
+      const { code, stdout } = await env.run(['export', '--out', out, '--folder', INBOX, '--json']);
+      assert.equal(code, 0);
+      const [result] = JSON.parse(stdout);
+      assert.equal(result.exported, 1);
+      assert.equal(result.skipped, inboxCount() - 1);
+
+      const mbox = await readFile(join(out, 'Inbox.mbox'), 'utf-8');
+      assert.doesNotMatch(mbox, /Subject: half/);
+      assert.equal(separators(mbox), inboxCount());
+    });
+
+    it('writes Maildir with flags in the file names', async () => {
+      const out = join(env.configDir, 'export-maildir');
+      const { code, stderr } = await env.run(['export', '--out', out, '--folder', INBOX, '--format', 'maildir']);
+      assert.equal(code, 0, stderr);
+
+      const names = await readdir(join(out, 'Inbox', 'cur'));
+      assert.equal(names.length, inboxCount());
+      const flagged = names.find(n => n.includes(`.${SYNC}.`))!;
+      assert.match(flagged, /:2,FS$/);
+      assert.match(await readFile(join(out, 'Inbox', 'cur', flagged), 'utf-8'), /Message-ID: </);
+    });
+
+    it('refuses to mix formats in one export directory', async () => {
+      const out = join(env.configDir, 'export-maildir');
+      const { code, stderr } = await env.run(['export', '--out', out, '--format', 'mbox']);
+      assert.equal(code, 1);
+      assert.match(stderr, /maildir export/);
+    });
+  });
+
+  describe('rules', () => {
+    const SUPPORT = ['--account', '2000000000002'];
+    const TICKET = '1736900000000200001';
+    const support = () => env.server.mailboxes[1].messages;
+    let rulesFile: string;
+
+    before(async () => {
+      rulesFile = join(env.configDir, 'rules.yaml');
+      await writeFile(rulesFile, [
+        'rules:',
+        '  - name: Customers',
+        '    match:',
+        '      from: client.example',
+        '      subject: "log ?in"',
+        '      hasAttachment: false',
+        '    actions: [flag, mark-read]',
+        '    stop: true',
+        '  - name: Catch-all',
+        '    match: { olderThan: 1m }',
+        '    actions:',
+        '      - move: 1100000000004',
+      ].join('\n'));
+    });
+
+    it('previews hits with --dry-run without changing anything', async () => {
+      const { code, stdout, stderr } = await env.run([...SUPPORT, 'rules', 'run', '-f', rulesFile, '--dry-run', '--json']);
+      assert.equal(code, 0, stderr);
+      assert.deepEqual(JSON.parse(stdout).map((h: { messageId: string; rules: string[]; actions: string[] }) =>
+        [h.messageId, h.rules, h.actions]), [[TICKET, ['Customers'], ['flag', 'mark-read']]]);
+      assert.equal(support()[0].status, '0');
+    });
+
+    it('applies actions and only sees new mail with --since', async () => {
+      const first = await env.run([...SUPPORT, 'rules', 'run', '-f', rulesFile, '--json']);
+      assert.equal(first.code, 0, first.stderr);
+      assert.equal(support()[0].status, '1');
+      assert.equal(support()[0].flagid, 'important');
+
+      support().push({
+        ...support()[0], messageId: '1736900000000200002', subject: 'Weekly digest', status: '0',
+        fromAddress: 'digest@news.example', flagid: 'flag_not_set', receivedTime: String(Date.now() - 5 * 60 * 1000),
+      });
+      const second = await env.run([...SUPPORT, 'rules', 'run', '-f', rulesFile, '--since', '--json']);
+      assert.equal(second.code, 0, second.stderr);
+      assert.deepEqual(JSON.parse(second.stdout).map((h: { messageId: string; rules: string[] }) =>
+        [h.messageId, h.rules]), [['1736900000000200002', ['Catch-all']]]);
+      assert.equal(support().find(m => m.messageId === '1736900000000200002')!.folderId, '1100000000004');
+
+      const third = await env.run([...SUPPORT, 'rules', 'run', '-f', rulesFile, '--since']);
+      assert.equal(third.code, 0);
+      assert.match(third.stdout + third.stderr, /0 of 0 message/);
+    });
+
+    it('points at the line of a broken rules file', async () => {
+      const broken = join(env.configDir, 'broken.yaml');
+      await writeFile(broken, 'rules:\n  - name: x\n    actions: [explode]\n');
+      const { code, stderr } = await env.run([...SUPPORT, 'rules', 'run', '-f', broken]);
+      assert.equal(code, 1);
+      assert.match(stderr, /unknown action "explode"/);
+
+      await writeFile(broken, 'rules:\n  - name: x\n   actions: [flag]\n');
+      assert.match((await env.run([...SUPPORT, 'rules', 'run', '-f', broken])).stderr, /Line 3/);
+    });
+  });
+
+  describe('mail watch', () => {
+    const SUPPORT = ['--account', '2000000000002'];
+    const support = () => env.server.mailboxes[1].messages;
+    const incoming = (messageId: string, subject: string) => ({
+      ...support()[0], messageId, subject, folderId: '1100000000001', fromAddress: 'alerts@monitor.example',
+      status: '0', flagid: 'flag_not_set', receivedTime: String(Date.now()),
+    });
+
+    it('reports recent mail as NDJSON, runs the hook and rides out API failures', async () => {
+      support().push(incoming('1736900000000200010', 'Pager: disk full'));
+      env.server.faults.push(...[1, 2, 3].map(() => ({ status: 503, path: '/messages/view' })));
+      const hookFile = join(env.configDir, 'hook.txt');
+
+      const { code, stdout, stderr } = await env.run([
+        ...SUPPORT, 'mail', 'watch', '--since', '5m', '--interval', '1', '--count', '1', '--json',
+        '--exec', `printf '%s|%s' "$ZOHO_SUBJECT" "$ZOHO_FROM" > '${hookFile}'`,
+      ]);
+      assert.equal(code, 0, stderr);
+      assert.match(stderr, /retrying in/);
+      const lines = stdout.trim().split('\n').map(line => JSON.parse(line));
+      assert.deepEqual(lines.map(l => l.messageId), ['1736900000000200010']);
+      assert.equal(await readFile(hookFile, 'utf-8'), 'Pager: disk full|alerts@monitor.example');
+    });
+
+    it('only reports mail that arrives after it starts', async () => {
+      const watching = env.run([...SUPPORT, 'mail', 'watch', '--interval', '1', '--count', '1']);
+      await new Promise(resolve => setTimeout(resolve, 3000));
+      support().push(incoming('1736900000000200011', 'Pager: CPU high'));
+
+      const { code, stdout } = await watching;
+      assert.equal(code, 0);
+      assert.match(stdout, /Pager: CPU high/);
+      assert.doesNotMatch(stdout, /disk full/);
+    });
+
+    it('rejects a --count that is not a positive whole number', async () => {
+      for (const count of ['abc', '0', '1.5']) {
+        const { code, stderr } = await env.run(['mail', 'watch', '--count', count]);
+        assert.equal(code, 1);
+        assert.ok(stderr.includes(`Invalid --count "${count}"`), stderr);
+      }
+    });
+  });
+
+  describe('tui', () => {
+    it('refuses to start without a terminal', async () => {
+      const { code, stderr } = await env.run(['tui']);
+      assert.equal(code, 1);
+      assert.match(stderr, /needs an interactive terminal/);
+    });
+
+    describe('on a terminal', () => {
+      // The browser runs in this process, against its own server and config
+      let tuiEnv: TestEnv;
+      let runTui: typeof import('../src/lib/tui.js').runTui;
+
+      before(async () => {
+        tuiEnv = await setup();
+        Object.assign(process.env, {
+          ZOHO_CONFIG_DIR: tuiEnv.configDir,
+          ZOHO_TRANSPORT: 'http',
+          ZOHO_MAIL_BASE_URL: tuiEnv.server.url,
+          ZOHO_ACCESS_TOKEN: 'mock-token',
+          ZOHO_MAX_RETRIES: '0',
+        });
+        ({ runTui } = await import('../src/lib/tui.js'));
+      });
+
+      after(async () => {
+        await tuiEnv.close();
+      });
+
+      it('moves through the messages and opens one in the reading pane', async () => {
+        const terminal = fakeTerminal();
+        const done = runTui('2000000000001', { terminal });
+        try {
+          await terminal.waitFor(/Invoice #4521 for January/);
+          terminal.press('j\r');
+          await terminal.waitFor(/Sounds good, I will bring the hiring numbers/);
+          // J reads the next message without going back to the list
+          terminal.press('J');
+          const screen = await terminal.waitFor(/Agenda for Thursday/);
+          assert.match(screen, /Subject: Weekly team sync/);
+        } finally {
+          terminal.press('\x03');
+        }
+        await done;
+      });
+
+      it('opens another folder and marks what it opens as read', async () => {
+        const terminal = fakeTerminal();
+        const done = runTui('2000000000001', { terminal });
+        try {
+          await terminal.waitFor(/Invoice #4521 for January/);
+          terminal.press('\r');
+          await terminal.waitFor(/Please find attached invoice #4521/);
+          const invoice = tuiEnv.server.mailboxes[0].messages.find(m => m.messageId === INVOICE)!;
+          assert.equal(invoice.status, '1');
+
+          // h closes the message, h again moves to the folders; Acme is the last one
+          terminal.press('hhG\r');
+          const screen = await terminal.waitFor(/zoho-mail {2}\/Clients\/Acme {2}1 message/);
+          assert.match(screen, /Acme contract renewal/);
+          assert.doesNotMatch(screen, /Invoice #4521/);
+        } catch (err) {
+          terminal.press('\x03');
+          throw err;
+        }
+        // q quits from the lists and puts the terminal back
+        terminal.press('q');
+        await done;
+        assert.ok(terminal.written().endsWith('\x1b[?25h\x1b[?1049l'));
+      });
+
+      it('flags, labels and marks the selected message read and unread', async () => {
+        const terminal = fakeTerminal();
+        const done = runTui('2000000000001', { terminal });
+        const invoice = () => tuiEnv.server.mailboxes[0].messages.find(m => m.messageId === INVOICE)!;
+        try {
+          await terminal.waitFor(/Invoice #4521 for January/);
+          terminal.press('f');
+          await terminal.waitFor(/Flagged/);
+          assert.equal(invoice().flagid, 'important');
+          terminal.press('f');
+          await terminal.waitFor(/Unflagged/);
+          assert.equal(invoice().flagid, 'flag_not_set');
+
+          terminal.press('U');
+          await terminal.waitFor(/Marked as unread/);
+          assert.equal(invoice().status, '0');
+          terminal.press('I');
+          await terminal.waitFor(/Marked as read/);
+          assert.equal(invoice().status, '1');
+
+          terminal.press('L');
+          await terminal.waitFor(/Add label: /);
+          terminal.press('urgent\r');
+          await terminal.waitFor(/Labelled "Invoice #4521 for January" Urgent/);
+          assert.deepEqual(invoice().labels, ['3000000000001']);
+        } finally {
+          terminal.press('\x03');
+        }
+        await done;
+      });
+
+      it('archives, moves and reports messages as spam', async () => {
+        const terminal = fakeTerminal();
+        const done = runTui('2000000000001', { terminal });
+        const messages = tuiEnv.server.mailboxes[0].messages;
+        try {
+          await terminal.waitFor(/Invoice #4521 for January/);
+          terminal.press('a');
+          const screen = await terminal.waitFor(/Archived "Invoice #4521 for January"/);
+          assert.doesNotMatch(screen, /billing/);
+          assert.equal((messages.find(m => m.messageId === INVOICE) as { archived?: boolean }).archived, true);
+
+          // The reply to the team sync is next in line
+          terminal.press('v');
+          await terminal.waitFor(/Move to folder: /);
+          terminal.press('Clients/Acme\r');
+          await terminal.waitFor(/Moved "Re: Weekly team sync" to \/Clients\/Acme/);
+          assert.equal(messages.find(m => m.subject === 'Re: Weekly team sync')!.folderId, ACME);
+
+          terminal.press('!');
+          await terminal.waitFor(/Marked "Weekly team sync" as spam/);
+          assert.equal(messages.find(m => m.messageId === SYNC)!.folderId, '1000000000005');
+        } finally {
+          terminal.press('\x03');
+        }
+        await done;
+      });
+
+      it('deletes the selected message only once it is confirmed', async () => {
+        const terminal = fakeTerminal();
+        const done = runTui('2000000000001', { terminal });
+        const mailbox = tuiEnv.server.mailboxes[0];
+        try {
+          await terminal.waitFor(/message\(s\)/);
+          terminal.press('d');
+          const confirm = /Delete "(.+)"\? \(y\/n\)/;
+          const [, subject] = (await terminal.waitFor(confirm)).match(confirm)!;
+          terminal.press('n');
+          await terminal.waitFor(/Cancelled/);
+          assert.ok(mailbox.messages.some(m => m.subject === subject));
+
+          terminal.press('d');
+          await terminal.waitFor(/\(y\/n\)/);
+          terminal.press('y');
+          const screen = await terminal.waitFor(/Deleted "/);
+          assert.ok(screen.includes(`Deleted "${subject}"`));
+          assert.ok(!mailbox.messages.some(m => m.subject === subject));
+        } finally {
+          terminal.press('\x03');
+        }
+        await done;
+      });
+    });
+  });
+
+  describe('profiles and accounts', () => {
+    it('lists every account', async () => {
+      const { code, stdout } = await env.run(['auth', 'accounts', '--json']);
+      assert.equal(code, 0);
+      assert.deepEqual(
+        JSON.parse(stdout).map((a: { emailAddress: string }) => a.emailAddress),
+        ['alex@example.com', 'support@example.com']
+      );
+    });
+
+    it('acts on another account with --account', async () => {
+      const { stdout } = await env.run(['--account', 'support@example.com', 'mail', 'list']);
+      assert.match(stdout, /Cannot log in/);
+      assert.doesNotMatch(stdout, /Weekly team sync/);
+    });
+
+    it('keeps settings per profile', async () => {
+      await env.run(['auth', 'set-account', '2000000000002', '--profile', 'support']);
+      const support = await env.run(['mail', 'list', '--profile', 'support']);
+      assert.match(support.stdout, /Cannot log in/);
+
+      const profiles = JSON.parse((await env.run(['auth', 'profiles', '--json'])).stdout);
+      assert.equal(profiles.profiles.support.accountId, '2000000000002');
+      assert.equal(profiles.profiles.default.accountId, '2000000000001');
+    });
+
+    it('rejects an unknown profile', async () => {
+      const { code, stderr } = await env.run(['mail', 'list', '--profile', 'nope']);
+      assert.equal(code, 1);
+      assert.match(stderr, /Unknown profile "nope"/);
+    });
+  });
+
+  describe('native OAuth', () => {
+    const NATIVE = ['--profile', 'native'];
+    // Use the stored tokens rather than the suite's fixed one
+    const stored = { env: { ZOHO_ACCESS_TOKEN: '' } };
+    const credentials = async () =>
+      JSON.parse(await readFile(join(env.configDir, 'credentials.json'), 'utf-8')).profiles.native;
+
+    /** Start `auth login --native` and wait until it prints the link to open */
+    const startLogin = async () => {
+      const port = await freePort();
+      const login = env.start([
+        'auth', 'login', '--native', '--client-id', 'mock-client', '--client-secret', 'mock-secret',
+        '--port', String(port), ...NATIVE,
+      ]);
+      const [link] = await login.waitForOutput(/\S+\/oauth\/v2\/auth\?\S+/);
+      const state = new URL(link).searchParams.get('state')!;
+      const callback = new URL(`http://127.0.0.1:${port}/callback`);
+      callback.search = new URLSearchParams({ code: 'mock-code', state }).toString();
+      return { login, callback };
+    };
+
+    it('logs in through the loopback redirect', async () => {
+      const { login, callback } = await startLogin();
+      const response = await fetch(callback);
+      assert.equal(response.status, 200);
+
+      const { code, stderr } = await login.done;
+      assert.equal(code, 0, stderr);
+      const tokens = await credentials();
+      assert.equal(tokens.accessToken, 'mock-token');
+      assert.equal(tokens.refreshToken, 'mock-refresh');
+      assert.equal(tokens.accountsServer, env.server.url);
+
+      const { stdout } = await env.run(['mail', 'list', ...NATIVE], stored);
+      assert.match(stdout, /Weekly team sync/);
+    });
+
+    it('refuses to send the code to a host that is not Zoho', async () => {
+      const { login, callback } = await startLogin();
+      const exchanges = () => env.server.requests.filter(r => r.path === '/oauth/v2/token').length;
+      const before = exchanges();
+      callback.searchParams.set('accounts-server', 'https://accounts.zoho.evil.example');
+      const response = await fetch(callback);
+      assert.equal(response.status, 400);
+
+      const { code, stderr } = await login.done;
+      assert.equal(code, 1);
+      assert.match(stderr, /not a Zoho accounts server/);
+      assert.equal(exchanges(), before);
+    });
+
+    it('refreshes an expired access token', async () => {
+      const path = join(env.configDir, 'credentials.json');
+      const file = JSON.parse(await readFile(path, 'utf-8'));
+      file.profiles.native = { ...file.profiles.native, accessToken: 'expired', expiresAt: 0 };
+      await writeFile(path, JSON.stringify(file));
+
+      const { code, stdout, stderr } = await env.run(['mail', 'list', ...NATIVE], stored);
+      assert.equal(code, 0, stderr);
+      assert.match(stdout, /Weekly team sync/);
+      const tokens = await credentials();
+      assert.equal(tokens.accessToken, 'mock-token');
+      assert.ok(tokens.expiresAt > Date.now());
+    });
+
+    it('revokes the tokens on logout', async () => {
+      const { code } = await env.run(['auth', 'logout', '--force', ...NATIVE], stored);
+      assert.equal(code, 0);
+      assert.deepEqual(env.server.oauth.revoked, ['mock-refresh']);
+      assert.equal(await credentials(), undefined);
+    });
+  });
+
+  describe('errors and retries', () => {
+    it('retries a rate-limited request', async () => {
+      env.server.faults.push({ status: 429, retryAfter: '0', path: '/labels' });
+      const { code, stdout } = await env.run(['labels', 'list', '--json']);
+      assert.equal(code, 0);
+      assert.ok(JSON.parse(stdout).length > 0);
+    });
+
+    it('falls back to the default retry limit when ZOHO_MAX_RETRIES is not a number', async () => {
+      for (let i = 0; i < 6; i++) {
+        env.server.faults.push({ status: 429, retryAfter: '0', path: '/labels' });
+      }
+      try {
+        const { code } = await env.run(['labels', 'list'], { env: { ZOHO_MAX_RETRIES: 'abc' } });
+        assert.equal(code, 1);
+        // The first try and 4 retries
+        assert.equal(env.server.faults.length, 1);
+      } finally {
+        env.server.faults.length = 0;
+      }
+    });
+
+    it('logs each request and its body with --debug', async () => {
+      const { code, stderr } = await env.run([
+        '--debug', 'mail', 'send', '--to', 'pat@example.com', '--subject', 'Debugged', '--body', 'Hi', '--no-signature',
+      ]);
+      assert.equal(code, 0);
+      assert.match(stderr, /\[DEBUG\] http POST \/api\/accounts\/\d+\/messages/);
+      assert.match(stderr, /\[DEBUG\] Request body: .*"subject":"Debugged"/);
+    });
+
+    it('asks to log in again when the token is rejected', async () => {
+      const { code, stderr } = await env.run(['folders', 'list'], { env: { ZOHO_ACCESS_TOKEN: 'wrong' } });
+      assert.equal(code, 1);
+      assert.match(stderr, /auth login/);
+    });
+  });
+});
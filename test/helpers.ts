@@ -0,0 +1,162 @@
+import { execFile } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { createServer, type AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { fileURLToPath } from 'url';
+import { stripVTControlCharacters } from 'util';
+import { startMockServer, type MockServer } from '../src/mock/server.js';
+import type { Terminal } from '../src/lib/screen.js';
+
+const CLI = fileURLToPath(new URL('../dist/index.js', import.meta.url));
+
+export interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface RunOptions {
+  input?: string;
+  env?: Record<string, string>;
+}
+
+export interface RunningCli {
+  /** Resolves with the first match in stdout so far or still to come */
+  waitForOutput(pattern: RegExp): Promise<RegExpMatchArray>;
+  done: Promise<CliResult>;
+}
+
+export interface TestEnv {
+  server: MockServer;
+  configDir: string;
+  /** Run `zoho-mail <args>` against the mock server */
+  run(args: string[], options?: RunOptions): Promise<CliResult>;
+  /** Start `zoho-mail <args>`, for commands that wait on something while running */
+  start(args: string[], options?: RunOptions): RunningCli;
+  close(): Promise<void>;
+}
+
+/**
+ * A loopback port nothing is listening on
+ */
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Start a fresh mock server and an isolated config directory
+ */
+export async function setup(): Promise<TestEnv> {
+  const server = await startMockServer();
+  const configDir = await mkdtemp(join(tmpdir(), 'zoho-mail-test-'));
+
+  const start = (args: string[], options: RunOptions = {}): RunningCli => {
+    let stdout = '';
+    const done = new Promise<CliResult>((resolve) => {
+      const child = execFile(
+        process.execPath,
+        [CLI, ...args],
+        {
+          env: {
+            PATH: process.env.PATH,
+            HOME: configDir,
+            ZOHO_CONFIG_DIR: configDir,
+            ZOHO_TRANSPORT: 'http',
+            ZOHO_MAIL_BASE_URL: server.url,
+            ZOHO_ACCOUNTS_URL: server.url,
+            ZOHO_ACCESS_TOKEN: 'mock-token',
+            ZOHO_MAX_RETRIES: '2',
+            NO_COLOR: '1',
+            ...options.env,
+          },
+          timeout: 20_000,
+        },
+        (error, out, stderr) => {
+          const code = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+          resolve({ code, stdout: out, stderr });
+        }
+      );
+      child.stdout?.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+      child.stdin?.end(options.input ?? '');
+    });
+
+    const waitForOutput = async (pattern: RegExp) => {
+      let exited = false;
+      for (;;) {
+        const match = stdout.match(pattern);
+        if (match) return match;
+        if (exited) {
+          const result = await done;
+          throw new Error(`Exited (${result.code}) before printing ${pattern}:\n${result.stdout}${result.stderr}`);
+        }
+        exited = await Promise.race([
+          done.then(() => true),
+          new Promise<boolean>(resolve => setTimeout(() => resolve(false), 20)),
+        ]);
+      }
+    };
+
+    return { waitForOutput, done };
+  };
+
+  const run = (args: string[], options: RunOptions = {}) => start(args, options).done;
+
+  return {
+    server,
+    configDir,
+    run,
+    start,
+    close: async () => {
+      await server.close();
+      await rm(configDir, { recursive: true, force: true });
+    },
+  };
+}
+
+export interface FakeTerminal extends Terminal {
+  /** Type keys, as raw bytes (`\r` is Enter) */
+  press(keys: string): void;
+  /** Everything written to the screen so far */
+  written(): string;
+  /** Wait until the last frame, styling removed, matches */
+  waitFor(pattern: RegExp): Promise<string>;
+}
+
+/**
+ * Streams that pass for a terminal, for driving `zoho-mail tui` in-process
+ */
+export function fakeTerminal(columns = 120, rows = 30): FakeTerminal {
+  const input = Object.assign(new PassThrough(), { isTTY: true, setRawMode: () => input });
+  let written = '';
+  const output = Object.assign(new PassThrough(), { isTTY: true, columns, rows });
+  output.on('data', (chunk: Buffer) => { written += chunk.toString(); });
+
+  // Each redraw starts by moving the cursor home
+  const frame = () => (written.split('\x1b[H').at(-1) ?? '').split('\r\n');
+  return {
+    input,
+    output,
+    press: keys => { input.write(keys); },
+    written: () => written,
+    waitFor: async (pattern) => {
+      const deadline = Date.now() + 5_000;
+      for (;;) {
+        const text = stripVTControlCharacters(frame().join('\n'));
+        if (pattern.test(text)) return text;
+        if (Date.now() > deadline) {
+          throw new Error(`Screen never matched ${pattern}:\n${text}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+    },
+  };
+}